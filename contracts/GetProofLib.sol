@@ -22,7 +22,11 @@ library GetProofLib {
     }
 
     struct BlockHeader {
-        bytes32 storageRoot;
+        bytes32 parentHash; // 0
+        // state root of the block, named storageRoot for historic reasons
+        bytes32 storageRoot; // 3
+        uint number; // 8
+        uint timestamp; // 11
     }
 
     struct StorageProof {
@@ -69,20 +73,21 @@ library GetProofLib {
         return proof;
     }
 
-    // todo only parses storageRoot for now.
+    // parses the fields of a block header that the relay contract uses
     function parseBlockHeader(bytes memory _blockHeader) internal pure returns (BlockHeader memory blockHeader) {
         RLPReader.Iterator memory it = _blockHeader.toRlpItem().iterator();
 
         uint idx;
         while (it.hasNext()) {
-            if (idx == 3) {
-                // storageRoot is at index 3
-                bytes32 storageRoot;
-                bytes memory storageRootBytes = it.next().toBytes();
-                assembly {
-                    storageRoot := mload(add(storageRootBytes, 32))
-                }
-                blockHeader.storageRoot = storageRoot;
+            if (idx == 0) {
+                blockHeader.parentHash = bytes32(it.next().toUint());
+            } else if (idx == 3) {
+                blockHeader.storageRoot = bytes32(it.next().toUint());
+            } else if (idx == 8) {
+                blockHeader.number = it.next().toUint();
+            } else if (idx == 11) {
+                // the remaining fields are not needed
+                blockHeader.timestamp = it.next().toUint();
                 return blockHeader;
             } else {
                 it.next();
@@ -15,11 +15,92 @@ contract RelayContract {
         uint blockNumber;
     }
 
+    struct SrcBlockHeaderInfo {
+        // hash of the rlp encoded block header
+        bytes32 blockHash;
+        bytes32 parentHash;
+        uint timestamp;
+    }
+
     mapping(address => ProxyContractInfo) proxyStorageInfos;
     mapping(uint => bytes32) srcContractStateRoots;
     uint latestBlockNr;
+    // block headers of the src chain added through addBlockHeader
+    mapping(uint => SrcBlockHeaderInfo) srcBlockHeaders;
+    bool hasBlockHeaders;
+    uint latestHeaderNr;
+
+    // owner manages the relayers, relayers add blocks of the src chain
+    address owner;
+    mapping(address => bool) relayers;
+    address[] relayerList;
 
+    event BlockHeaderAdded(uint indexed blockNumber, bytes32 blockHash, bytes32 stateRoot);
+    event RelayerAdded(address indexed relayer);
+    event RelayerRemoved(address indexed relayer);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    /**
+    * @dev the deployer becomes the owner and the first relayer
+    */
     constructor() public {
+        owner = msg.sender;
+        _addRelayer(msg.sender);
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, 'Caller is not the owner');
+        _;
+    }
+
+    modifier onlyRelayer() {
+        require(relayers[msg.sender], 'Caller is not a relayer');
+        _;
+    }
+
+    function getOwner() public view returns (address) {
+        return owner;
+    }
+
+    function transferOwnership(address _newOwner) public onlyOwner {
+        require(_newOwner != address(0), 'New owner is the zero address');
+        emit OwnershipTransferred(owner, _newOwner);
+        owner = _newOwner;
+    }
+
+    /**
+    * @dev allows _relayer to add blocks of the src chain
+    */
+    function addRelayer(address _relayer) public onlyOwner {
+        require(!relayers[_relayer], 'Address is a relayer already');
+        _addRelayer(_relayer);
+    }
+
+    function removeRelayer(address _relayer) public onlyOwner {
+        require(relayers[_relayer], 'Address is not a relayer');
+        relayers[_relayer] = false;
+        for (uint i = 0; i < relayerList.length; i++) {
+            if (relayerList[i] == _relayer) {
+                relayerList[i] = relayerList[relayerList.length - 1];
+                relayerList.pop();
+                break;
+            }
+        }
+        emit RelayerRemoved(_relayer);
+    }
+
+    function isRelayer(address _address) public view returns (bool) {
+        return relayers[_address];
+    }
+
+    function getRelayers() public view returns (address[] memory) {
+        return relayerList;
+    }
+
+    function _addRelayer(address _relayer) internal {
+        relayers[_relayer] = true;
+        relayerList.push(_relayer);
+        emit RelayerAdded(_relayer);
     }
 
     /**
@@ -32,11 +113,54 @@ contract RelayContract {
         proxyStorageInfos[msg.sender].blockNumber = _blockNumber;
     }
 
-    function addBlock(bytes32 _stateRoot, uint256 _blockNumber) public {
+    /**
+    * @dev stores the state root of a src chain block as it is given. Rejected once the relay contract is in header mode,
+    * since the state roots of blocks without a stored header could be chosen freely otherwise.
+    */
+    function addBlock(bytes32 _stateRoot, uint256 _blockNumber) public onlyRelayer {
+        require(!hasBlockHeaders, 'Relay contract is in header mode');
         srcContractStateRoots[_blockNumber] = _stateRoot;
         if (_blockNumber > latestBlockNr) latestBlockNr = _blockNumber;
     }
 
+    /**
+    * @dev stores the state root of a src chain block header. Except for the first header, the parent of the header has to be stored already.
+    * @param _blockHeader rlp encoded block header of the src chain
+    */
+    function addBlockHeader(bytes memory _blockHeader) public onlyRelayer {
+        GetProofLib.BlockHeader memory blockHeader = GetProofLib.parseBlockHeader(_blockHeader);
+        bytes32 blockHash = keccak256(_blockHeader);
+        require(!hasBlockHeaders || (blockHeader.number > 0 && srcBlockHeaders[blockHeader.number - 1].blockHash == blockHeader.parentHash), 'Parent block header is unknown');
+
+        srcBlockHeaders[blockHeader.number] = SrcBlockHeaderInfo(blockHash, blockHeader.parentHash, blockHeader.timestamp);
+        srcContractStateRoots[blockHeader.number] = blockHeader.storageRoot;
+        hasBlockHeaders = true;
+        if (blockHeader.number > latestBlockNr) latestBlockNr = blockHeader.number;
+        if (blockHeader.number > latestHeaderNr) latestHeaderNr = blockHeader.number;
+        emit BlockHeaderAdded(blockHeader.number, blockHash, blockHeader.storageRoot);
+    }
+
+    /**
+    * @dev return the hash of the block header at the respective blockNumber, 0 if it was not added through addBlockHeader
+    */
+    function getBlockHash(uint _blockNumber) public view returns (bytes32) {
+        return srcBlockHeaders[_blockNumber].blockHash;
+    }
+
+    /**
+    * @dev return the timestamp of the block header at the respective blockNumber
+    */
+    function getBlockTimestamp(uint _blockNumber) public view returns (uint) {
+        return srcBlockHeaders[_blockNumber].timestamp;
+    }
+
+    /**
+    * @dev return the highest block number of the block headers added through addBlockHeader
+    */
+    function getLatestHeaderNumber() public view returns (uint) {
+        return latestHeaderNr;
+    }
+
     /**
     * @dev return state root at the respective blockNumber
     */
@@ -11,7 +11,7 @@ import {
 import DiffHandler from '../src/diffHandler/DiffHandler';
 import { logger } from '../src/utils/logger';
 import StorageDiff from '../src/diffHandler/StorageDiff';
-import { TxContractInteractionOptions } from '../src/cli/smart-sync';
+import { TxContractInteractionOptions } from '../src/cli/types';
 import FileHandler from '../src/utils/fileHandler';
 
 const MAX_VALUE = 1000000;
@@ -13,7 +13,7 @@ import { logger } from '../src/utils/logger';
 import StorageDiff from '../src/diffHandler/StorageDiff';
 import { getAllKeys } from '../src/utils/utils';
 import GetProof from '../src/proofHandler/GetProof';
-import { TxContractInteractionOptions } from '../src/cli/smart-sync';
+import { TxContractInteractionOptions } from '../src/cli/types';
 import FileHandler from '../src/utils/fileHandler';
 
 const MAX_VALUE = 1000000;
@@ -1,26 +1,37 @@
-import { Contract, ContractReceipt, ContractTransaction } from '@ethersproject/contracts';
+import { Contract, ContractTransaction } from '@ethersproject/contracts';
 import { JsonRpcProvider } from '@ethersproject/providers';
 import { ConnectionInfo } from '@ethersproject/web';
-import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { BigNumber, BigNumberish, ethers } from 'ethers';
 import { TransactionReceipt, TransactionResponse } from '@ethersproject/abstract-provider';
 import * as rlp from 'rlp';
-import * as CliProgress from 'cli-progress';
 import { RelayContract, RelayContract__factory } from '../src-gen/types';
-import { PROXY_INTERFACE } from './config';
-import DiffHandler from './diffHandler/DiffHandler';
+import { LOGIC_CONTRACT_PLACEHOLDER_ADDRESS, PROXY_INTERFACE, RELAY_CONTRACT_PLACEHOLDER_ADDRESS } from './config';
+import DiffHandler, { DEFAULT_DIFF_CONCURRENCY } from './diffHandler/DiffHandler';
 import { logger } from './utils/logger';
 import {
-    getAllKeys, toParityQuantity, toBlockNumber, createDeployingByteCode, BLOCKNUMBER_TAGS, isDebug,
+    getAllKeys, toParityQuantity, toBlockNumber, createDeployingByteCode, BLOCKNUMBER_TAGS,
 } from './utils/utils';
+import { Finality, toFinalBlockNumber } from './utils/finality';
 import GetProof from './proofHandler/GetProof';
-import { BlockHeader } from './proofHandler/Types';
+import { BlockHeader, IGetProof } from './proofHandler/Types';
 import ProxyContractBuilder from './utils/proxy-contract-builder';
 import StorageDiff from './diffHandler/StorageDiff';
-import FileHandler from './utils/fileHandler';
 import ProviderHandler from './utils/providerHandler';
-
-const KEY_VALUE_PAIR_PER_BATCH = 100;
+import MigrationJournal from './utils/migrationJournal';
+import GasBatcher, { isGasTooHighError } from './utils/gasBatcher';
+import TransactionPlan, { intrinsicGas } from './utils/transactionPlan';
+import NonceManager, { PipelinedTx } from './utils/nonceManager';
+import FeeStrategy, { FeeConfig } from './utils/feeStrategy';
+import TxWatchdog, { TxReplacement, WatchedReceipt } from './utils/txWatchdog';
+import { createDryRunSigner, createSigner } from './signerHandler/SignerFactory';
+import { SignerConfig } from './signerHandler/Types';
+import {
+    ConfigError, GasLimitExceededError, InvalidStateError, ProofConstructionError, ReorgError, RpcError, SmartSyncError, TargetTxRevertedError, VerificationError, decodeRevertReason, revertReasonOf,
+} from './errors';
+import TypedEventEmitter from './utils/typedEventEmitter';
+import { DiffHandlerEvents } from './diffHandler/Types';
+import KeyIndex from './keyEnumerator/KeyIndex';
+import KeyIndexEnumerator from './keyEnumerator/KeyIndexEnumerator';
 
 export type ContractAddressMap = {
     srcContract?: string;
@@ -33,14 +44,224 @@ export type DeployingTransation = TransactionResponse & {
     creates?: string;
 };
 
+/**
+ * How blocks of the source chain are added to the relay contract.
+ * `stateRoot` adds the state root as given, `header` adds the rlp encoded block header from which the relay contract derives the state root
+ * and which has to link to the previous header stored in the relay contract.
+ */
+export type RelayMode = 'stateRoot' | 'header';
+
+export const RELAY_MODES: Array<RelayMode> = ['stateRoot', 'header'];
+
 export type RPCConfig = {
     gasLimit?: BigNumberish;
+    gasSafetyMargin?: number;
+    /**
+     * amount of addStorage txs that may be unconfirmed at once during a migration
+     */
+    maxInFlightTxs?: number;
+    /**
+     * fees of the txs sent to the target chain, see `FeeConfig`
+     */
+    fees?: FeeConfig;
+    /**
+     * time in ms after which a tx on the target chain that was not mined is replaced by one with higher fees
+     */
+    stuckTxTimeout?: number;
+    /**
+     * how blocks of the source chain are added to the relay contract, `stateRoot` by default
+     */
+    relayMode?: RelayMode;
+    /**
+     * when blocks of the source chain are final, only used in the config of the source chain. `latest` resolves to the newest final block
+     * and newer blocks are rejected. Any block is used if undefined.
+     */
+    finality?: Finality;
+    /**
+     * file of the index of the storage keys of the source contract, only used in the config of the source chain.
+     * If given, the keys are read from the index instead of being listed by the node, see `KeyIndexEnumerator`.
+     */
+    keyIndex?: string;
     blockNr?: string | number;
+    /**
+     * signer of the txs on the target chain, an encrypted json file at `targetAccountEncryptedJsonPath` if not given
+     */
+    signer?: SignerConfig;
     targetAccountEncryptedJsonPath?: string;
+    /**
+     * password of `targetAccountEncryptedJsonPath` and of keystore signers that do not configure one
+     */
     targetAccountPassword?: string;
+    /**
+     * if true, the txs are only planned and the signer is a `VoidSigner` of its account, so that keystores are not decrypted, see `createDryRunSigner`
+     */
+    dryRun?: boolean;
+};
+
+/**
+ * How the changes of the source contract are determined.
+ * `srcTx` replays the txs to the source contract with `trace_replayTransaction` (OpenEthereum, Erigon),
+ * `srcTxBlock` replays all txs of the blocks with txs to the source contract at once with `trace_replayBlockTransactions` (OpenEthereum, Erigon),
+ * `srcTxPrestate` traces every block with the prestateTracer of `debug_traceBlockByNumber` (Geth-compatible nodes),
+ * `storage` and `getProof` compare the storage of the source contract and the proxy contract.
+ */
+export type GetDiffMethod = 'srcTx' | 'srcTxBlock' | 'srcTxPrestate' | 'storage' | 'getProof';
+
+export const DIFF_METHODS: Array<GetDiffMethod> = ['srcTx', 'srcTxBlock', 'srcTxPrestate', 'storage', 'getProof'];
+
+/**
+ * Diff methods that determine the changes from the txs of a block range and therefore synchronize from the last synchronized block on
+ */
+export const SRC_TX_DIFF_METHODS: Array<GetDiffMethod> = ['srcTx', 'srcTxBlock', 'srcTxPrestate'];
+
+export type MigrationResult = {
+    srcContract: string;
+    relayContract: string;
+    logicContract: string;
+    proxyContract: string;
+    /**
+     * block of the source chain whose storage was migrated
+     */
+    srcBlock: number;
+    stateRoot: string;
+    /**
+     * gas used by the txs sent in this call, a resumed migration does not include the txs of previous runs
+     */
+    gasUsed: BigNumber;
+};
+
+export type SyncResult = {
+    /**
+     * padded storage keys that were updated in the proxy contract
+     */
+    keys: Array<string>;
+    /**
+     * block of the source chain that the proxy contract is synchronized to
+     */
+    blockNumber: number;
+    /**
+     * hash of the mined updateStorage tx, undefined if there were no changes
+     */
+    txHash?: string;
+    /**
+     * hashes of the updateStorage txs with the same nonce that were replaced by `txHash` because they were stuck
+     */
+    replacedTxs?: Array<string>;
+    /**
+     * gas used by addBlock and updateStorage
+     */
+    gasUsed: BigNumber;
 };
 
-export type GetDiffMethod = 'srcTx' | 'storage' | 'getProof';
+export type ReorgCheckResult = {
+    /**
+     * block of the source chain that the proxy contract is synchronized to
+     */
+    syncedBlock: number;
+    /**
+     * blocks in the relay contract that are not part of the canonical source chain, in ascending order
+     */
+    orphanedBlocks: Array<number>;
+    /**
+     * true if the proxy contract is synchronized to an orphaned block and holds storage of a chain that was reorganized away
+     */
+    proxyOrphaned: boolean;
+};
+
+export type ReorgRepairResult = ReorgCheckResult & {
+    /**
+     * orphaned blocks that were replaced by the blocks of the canonical chain
+     */
+    replacedBlocks: Array<number>;
+    /**
+     * result of synchronizing the proxy contract with the canonical chain, undefined if it was not orphaned
+     */
+    sync?: SyncResult;
+    gasUsed: BigNumber;
+};
+
+export type HeaderBackfillResult = {
+    /**
+     * amount of headers that were added, headers that were stored already are not counted
+     */
+    headers: number;
+    /**
+     * hash of the last addBlockHeader tx, undefined if no header was added
+     */
+    txHash?: string;
+    gasUsed: BigNumber;
+};
+
+/**
+ * Proof of the source contract's storage at `blockNumber` for updateStorage, see `ChainProxy.buildSyncProof`
+ */
+export type SyncProof = {
+    /**
+     * padded storage keys that are updated by the proof
+     */
+    keys: Array<string>;
+    blockNumber: number;
+    /**
+     * hash of the block at `blockNumber`, so that a stored header of a sibling block is not mistaken for it
+     */
+    blockHash: string;
+    stateRoot: string;
+    rlpProof: Buffer;
+};
+
+export type ChainProxyEvents = DiffHandlerEvents & {
+    /**
+     * an optimized proof of `contract` at `block` was built for a tx on the target chain, `size` is its length in bytes
+     */
+    proofBuilt: { contract: string; block: number | string; size: number };
+
+    /**
+     * a tx was sent to the target chain
+     */
+    txSubmitted: { description: string; txHash: string };
+
+    /**
+     * a tx that was sent to the target chain was mined
+     */
+    txConfirmed: { description: string; txHash: string; gasUsed: BigNumber };
+
+    /**
+     * a tx that was not mined in time was replaced by a tx with the same nonce and higher fees
+     */
+    txReplaced: TxReplacement;
+
+    /**
+     * the relay contract accepted the migrated storage of the source contract
+     */
+    migrationVerified: MigrationResult;
+
+    syncCompleted: { results: Array<SyncResult> };
+
+    /**
+     * `synchronize` failed, it throws `error` afterwards
+     */
+    syncFailed: { error: unknown };
+};
+
+/**
+ * Gas of writing a new storage slot, used to plan txs whose gas cannot be estimated
+ */
+const NEW_STORAGE_SLOT_GAS = 22100;
+
+/**
+ * Gas of overwriting a storage slot, used to plan txs whose gas cannot be estimated
+ */
+const STORAGE_SLOT_UPDATE_GAS = 5000;
+
+/**
+ * Storage slots written by addBlockHeader: the state root, the block hash, the parent hash, the timestamp and the latest header number
+ */
+const ADD_BLOCK_HEADER_SLOTS = 5;
+
+/**
+ * Amount of the latest relayed blocks that are compared with the canonical source chain by default
+ */
+export const DEFAULT_REORG_CHECK_DEPTH = 64;
 
 export function encodeBlockHeader(blockHeader: BlockHeader): Buffer {
     // needed parameters for block header hash
@@ -105,7 +326,7 @@ export class ChainProxy {
 
     private relayContract: RelayContract;
 
-    private deployer: SignerWithAddress | ethers.Wallet;
+    private deployer: ethers.Signer;
 
     private differ: DiffHandler;
 
@@ -119,6 +340,21 @@ export class ChainProxy {
 
     private targetBlock: string | number;
 
+    private srcFinality?: Finality;
+
+    private keyIndexPath?: string;
+
+    private keyIndex?: KeyIndexEnumerator;
+
+    private feeStrategy: FeeStrategy;
+
+    private watchdog: TxWatchdog;
+
+    /**
+     * Emits the progress of migrations and synchronizations, see `ChainProxyEvents`
+     */
+    readonly events = new TypedEventEmitter<ChainProxyEvents>();
+
     constructor(contractAddresses: ContractAddressMap, srcProviderConnectionInfo: ConnectionInfo, srcRPCConfig: RPCConfig, targetProviderConnectionInfo: ConnectionInfo, targetRPCConfig: RPCConfig, batch: number = 50) {
         if (contractAddresses.srcContract) {
             this.srcContractAddress = contractAddresses.srcContract;
@@ -134,26 +370,23 @@ export class ChainProxy {
         const targetProviderHandler = new ProviderHandler(this.targetProviderConnectionInfo);
         this.targetProvider = targetProviderHandler.getProviderInstance();
         this.targetRPCConfig = targetRPCConfig;
+        this.feeStrategy = new FeeStrategy(this.targetProvider, targetRPCConfig.fees);
         this.initialized = false;
         this.migrationState = false;
         this.srcBlock = srcRPCConfig.blockNr ?? 'latest';
         this.targetBlock = targetRPCConfig.blockNr ?? 'latest';
-        if (targetRPCConfig.targetAccountEncryptedJsonPath && targetRPCConfig.targetAccountPassword) {
-            const fh = new FileHandler(targetRPCConfig.targetAccountEncryptedJsonPath);
-            const encryptedJson = fh.read();
-            if (!encryptedJson) {
-                logger.error(`Could not access json file at ${targetRPCConfig.targetAccountEncryptedJsonPath}`);
-                process.exit(-1);
-            }
-            logger.debug('Decrypting account json file...');
-            this.deployer = ethers.Wallet.fromEncryptedJsonSync(encryptedJson, targetRPCConfig.targetAccountPassword);
-            logger.debug('Done.');
-            this.deployer = new ethers.Wallet(this.deployer.privateKey, this.targetProvider);
-        } else if (targetRPCConfig.targetAccountEncryptedJsonPath) {
-            logger.error(`No password given to decrypt json file at ${targetRPCConfig.targetAccountEncryptedJsonPath}`);
-            process.exit(-1);
+        this.srcFinality = srcRPCConfig.finality;
+        this.keyIndexPath = srcRPCConfig.keyIndex;
+        const signerConfig: SignerConfig | undefined = targetRPCConfig.signer
+            ?? (targetRPCConfig.targetAccountEncryptedJsonPath ? { type: 'encryptedJson', path: targetRPCConfig.targetAccountEncryptedJsonPath } : undefined);
+        if (!signerConfig) {
+            this.deployer = new ethers.VoidSigner(ethers.Wallet.createRandom().address, this.targetProvider);
+        } else {
+            this.deployer = targetRPCConfig.dryRun
+                ? createDryRunSigner(signerConfig, this.targetProvider)
+                : createSigner(signerConfig, this.targetProvider, targetRPCConfig.targetAccountPassword);
         }
-        this.deployer = this.deployer || new ethers.VoidSigner(ethers.Wallet.createRandom().address, this.targetProvider);
+        this.watchdog = new TxWatchdog(this.deployer, this.targetProvider, targetRPCConfig.stuckTxTimeout, targetRPCConfig.fees, (replacement) => this.events.emit('txReplaced', replacement));
     }
 
     async init(): Promise<Boolean> {
@@ -163,291 +396,1080 @@ export class ChainProxy {
         }
 
         if (this.proxyContractAddress) {
+            // attach to proxy
+            const proxyBytecode = await ChainProxy.proxyBytecode(this.relayContract?.address ?? this.proxyContractAddress, this.logicContractAddress ?? this.proxyContractAddress, this.srcContractAddress ?? this.proxyContractAddress);
+            const proxyFactory = new ethers.ContractFactory(PROXY_INTERFACE, proxyBytecode, this.deployer);
+            this.proxyContract = proxyFactory.attach(this.proxyContractAddress);
             try {
-                // attach to proxy
-                const compiledProxy = await ProxyContractBuilder.compiledAbiAndBytecode(this.relayContract?.address ?? this.proxyContractAddress, this.logicContractAddress ?? this.proxyContractAddress, this.srcContractAddress ?? this.proxyContractAddress);
-                if (compiledProxy.error) return false;
-                const proxyFactory = new ethers.ContractFactory(PROXY_INTERFACE, compiledProxy.bytecode, this.deployer);
-                this.proxyContract = proxyFactory.attach(this.proxyContractAddress);
-
                 // get contract addresses from proxy
                 this.srcContractAddress = await this.proxyContract.getSourceAddress();
                 logger.debug(`srcContract: ${this.srcContractAddress}`);
                 this.logicContractAddress = await this.proxyContract.getLogicAddress();
 
                 this.relayContractAddress = await this.proxyContract.getRelayAddress();
-                if (!this.relayContractAddress) {
-                    logger.error('Could not get relay contract address.');
-                    return false;
-                }
-                const relayContractFactory = new RelayContract__factory(this.deployer);
-                this.relayContract = relayContractFactory.attach(this.relayContractAddress);
+            } catch (e) {
+                throw new ConfigError(`Could not read the contract addresses of proxy contract ${this.proxyContractAddress}.`, e);
+            }
+            if (!this.relayContractAddress) {
+                throw new ConfigError('Could not get relay contract address.');
+            }
+            const relayContractFactory = new RelayContract__factory(this.deployer);
+            this.relayContract = relayContractFactory.attach(this.relayContractAddress);
 
+            try {
                 this.migrationState = await this.relayContract.getMigrationState(this.proxyContractAddress);
             } catch (e) {
-                logger.error(e);
-                return false;
+                throw new RpcError(`Could not get the migration state of ${this.proxyContractAddress}.`, e);
             }
         }
 
-        this.differ = new DiffHandler(this.srcProvider, this.targetProvider, this.batchSize);
+        this.openKeyIndex();
+        this.differ = new DiffHandler(this.srcProvider, this.targetProvider, this.batchSize, this.events, this.srcFinality, undefined, this.keyIndex);
         this.initialized = true;
         return true;
     }
 
     async lightInit() {
-        this.differ = new DiffHandler(this.srcProvider, this.targetProvider, this.batchSize);
+        this.openKeyIndex();
+        this.differ = new DiffHandler(this.srcProvider, this.targetProvider, this.batchSize, this.events, this.srcFinality, undefined, this.keyIndex);
         this.initialized = true;
         this.migrationState = true;
         return true;
     }
 
+    /**
+     * Opens the key index of `RPCConfig.keyIndex` once the address of the source contract is known.
+     * @throws ConfigError if the file belongs to another contract
+     */
+    private openKeyIndex() {
+        if (!this.keyIndexPath || !this.srcContractAddress || this.keyIndex) return;
+        this.keyIndex = new KeyIndexEnumerator(this.srcProvider, KeyIndex.open(this.keyIndexPath, this.srcContractAddress), DEFAULT_DIFF_CONCURRENCY, this.srcFinality);
+    }
+
     /**
      *
      * @param srcBlock block from where to migrate src contract from
-     * @returns bool indicating if migration was sucessfull or not
+     * @param journal optional journal that records every step of the migration. If it already contains steps of a previous run, those steps are not repeated.
+     * @returns the addresses of the deployed contracts once the migration was verified by the relay contract
+     * @throws SmartSyncError if any step of the migration fails
      */
-    async migrateSrcContract(srcBlock: BigNumberish = 'latest', key_value_pair_per_batch?: number): Promise<Boolean> {
+    async migrateSrcContract(srcBlock: BigNumberish = 'latest', key_value_pair_per_batch?: number, journal?: MigrationJournal): Promise<MigrationResult> {
         if (!this.initialized) {
-            logger.error('ChainProxy is not initialized yet.');
-            return false;
-        }
-        if (!ethers.utils.isAddress(this.srcContractAddress)) {
-            logger.error(`Given source contract address not a valid address (${this.srcContractAddress})`);
-            return false;
-        }
-        try {
-            if ((await this.srcProvider.getCode(this.srcContractAddress)).length < 3) {
-                logger.error(`No contract found under src contract address ${this.srcContractAddress}.`);
-                return false;
-            }
-        } catch (e) {
-            logger.error(e);
-            return false;
+            throw new InvalidStateError('ChainProxy is not initialized yet.');
         }
+        await this.checkSrcContract();
+        let gasUsed = BigNumber.from(0);
 
+        if (!this.relayContract && journal?.data.relayContract) {
+            this.relayContractAddress = journal.data.relayContract;
+            this.relayContract = new RelayContract__factory(this.deployer).attach(this.relayContractAddress);
+        }
         if (!this.relayContract) {
             logger.info('No address for relayContract given, deploying new relay contract...');
             const relayFactory = new RelayContract__factory(this.deployer);
-            this.relayContract = await relayFactory.deploy();
+            let deployReceipt: WatchedReceipt;
+            try {
+                this.relayContract = await relayFactory.deploy(await this.feeStrategy.overrides());
+                deployReceipt = await this.confirm('deploy relay contract', this.relayContract.deployTransaction);
+            } catch (e) {
+                throw await this.toTargetTxError(e, 'Relay contract deployment');
+            }
+            gasUsed = gasUsed.add(deployReceipt.gasUsed);
             this.relayContractAddress = this.relayContract.address;
+            journal?.update({ relayContract: this.relayContract.address }, { relayContract: deployReceipt.transactionHash });
             logger.info(`Relay contract address: ${this.relayContract.address}`);
         }
-        const srcBlockParity = toParityQuantity(srcBlock);
-        const keys = await getAllKeys(this.srcContractAddress, this.srcProvider, srcBlockParity, this.batchSize);
+        journal?.update({ relayContract: this.relayContract.address });
+
+        // a resumed migration has to continue from the same block as before
+        const srcBlockNr = journal?.data.srcBlock ?? await this.toSrcBlockNumber(srcBlock);
+        const srcBlockParity = toParityQuantity(srcBlockNr);
+        const keys = await getAllKeys(this.srcContractAddress, this.srcProvider, srcBlockParity, this.batchSize, this.keyIndex);
+        this.events.emit('keysEnumerated', { contract: this.srcContractAddress, block: srcBlockNr, keys: keys.length });
         const latestBlock = await this.srcProvider.send('eth_getBlockByNumber', [srcBlockParity, false]);
+        if (journal?.data.stateRoot && journal.data.stateRoot !== latestBlock.stateRoot) {
+            throw new InvalidStateError(`State root of block ${srcBlockNr} changed from ${journal.data.stateRoot} to ${latestBlock.stateRoot} since the journal was written. Start a new fork instead.`);
+        }
+        journal?.update({ srcBlock: srcBlockNr, stateRoot: latestBlock.stateRoot });
         // create a proof of the source contract's storage
         const initialValuesProof = new GetProof(await this.srcProvider.send('eth_getProof', [this.srcContractAddress, keys, srcBlockParity]));
+        this.events.emit('proofFetched', { contract: this.srcContractAddress, block: srcBlockNr, keys: keys.length });
 
         // update relay
-        await this.relayContract.addBlock(latestBlock.stateRoot, latestBlock.number);
+        gasUsed = gasUsed.add(await this.relayBlock(latestBlock, journal));
 
         // deploy logic contract
-        let result = await this.cloneLogic();
-        if (!result) return false;
+        if (journal?.data.logicContract) {
+            this.logicContractAddress = journal.data.logicContract;
+            logger.info(`Reusing logic contract at ${this.logicContractAddress}`);
+        } else {
+            gasUsed = gasUsed.add(await this.cloneLogic(journal));
+        }
 
         // deploy empty proxy
-        result = await this.deployProxy();
-        if (!result) return false;
+        if (journal?.data.proxyContract) {
+            await this.attachProxy(journal.data.proxyContract);
+            logger.info(`Reusing proxy contract at ${journal.data.proxyContract}`);
+        } else {
+            gasUsed = gasUsed.add(await this.deployProxy(journal));
+        }
 
         // migrate storage
-        result = await this.initialStorageMigration(initialValuesProof, latestBlock.stateRoot, latestBlock.number, key_value_pair_per_batch);
-        if (!result) return false;
+        if (await this.relayContract.getMigrationState(this.proxyContract.address)) {
+            logger.info('Storage migration was already verified.');
+            this.migrationState = true;
+        } else {
+            gasUsed = gasUsed.add(await this.initialStorageMigration(initialValuesProof, latestBlock.stateRoot, latestBlock.number, key_value_pair_per_batch, journal));
+        }
+        journal?.update({ completed: true });
 
         logger.info(`Address of proxyContract: ${this.proxyContract.address}`);
 
-        // todo write out all the addresses into a file?
-        return true;
+        const result: MigrationResult = {
+            srcContract: this.srcContractAddress,
+            relayContract: this.relayContract.address,
+            // deploying or attaching the proxy failed if the logic contract is still undefined
+            logicContract: this.logicContractAddress as string,
+            proxyContract: this.proxyContract.address,
+            srcBlock: srcBlockNr,
+            stateRoot: latestBlock.stateRoot,
+            gasUsed,
+        };
+        this.events.emit('migrationVerified', result);
+        return result;
+    }
+
+    /**
+     * Continues a migration that was started by `migrateSrcContract` with the given journal.
+     * Already deployed contracts are reused and only the storage that is still missing in the proxy contract is added.
+     * @param journal journal of the interrupted migration
+     * @returns the addresses of the deployed contracts once the migration was verified by the relay contract
+     * @throws SmartSyncError if any step of the migration fails
+     */
+    async resumeSrcContractMigration(journal: MigrationJournal, key_value_pair_per_batch?: number): Promise<MigrationResult> {
+        const {
+            completed, srcContract, relayContract, logicContract, proxyContract, srcBlock, stateRoot,
+        } = journal.data;
+        if (completed && relayContract && logicContract && proxyContract && srcBlock !== undefined && stateRoot) {
+            logger.info(`Migration recorded in ${journal.filePath} is already completed.`);
+            return {
+                srcContract, relayContract, logicContract, proxyContract, srcBlock, stateRoot, gasUsed: BigNumber.from(0),
+            };
+        }
+        this.srcContractAddress = journal.data.srcContract;
+        logger.info(`Resuming migration of ${this.srcContractAddress} from ${journal.filePath}...`);
+        return this.migrateSrcContract(journal.data.srcBlock, key_value_pair_per_batch, journal);
+    }
+
+    /**
+     * Runs the read path of `migrateSrcContract` and collects the txs it would send without signing any of them.
+     * Txs that call contracts which are not deployed yet cannot be estimated, their gas is derived from their calldata and storage writes instead.
+     * @param srcBlock block from where to migrate src contract from
+     * @returns the planned txs
+     */
+    async planMigration(srcBlock: BigNumberish = 'latest', key_value_pair_per_batch?: number): Promise<TransactionPlan> {
+        if (!this.initialized) {
+            throw new InvalidStateError('ChainProxy is not initialized yet.');
+        }
+        await this.checkSrcContract();
+        const plan = new TransactionPlan(this.targetProvider, await this.deployer.getAddress());
+        const relayInterface = RelayContract__factory.createInterface();
+        const proxyInterface = new ethers.utils.Interface(PROXY_INTERFACE);
+
+        if (!this.relayContract) {
+            await plan.add('deploy relay contract', new RelayContract__factory(this.deployer).getDeployTransaction());
+        }
+
+        const srcBlockNr = await this.toSrcBlockNumber(srcBlock);
+        const srcBlockParity = toParityQuantity(srcBlockNr);
+        const keys = await getAllKeys(this.srcContractAddress, this.srcProvider, srcBlockParity, this.batchSize, this.keyIndex);
+        const latestBlock = await this.srcProvider.send('eth_getBlockByNumber', [srcBlockParity, false]);
+        const initialValuesProof = new GetProof(await this.srcProvider.send('eth_getProof', [this.srcContractAddress, keys, srcBlockParity]));
+        const sourceAccountProof = await initialValuesProof.optimizedProof(latestBlock.stateRoot, false);
+
+        if (!this.relayContract && this.targetRPCConfig.relayMode === 'header') {
+            plan.addHeuristic('addBlockHeader', '<relay contract>', relayInterface.encodeFunctionData('addBlockHeader', [encodeBlockHeader(latestBlock)]), ADD_BLOCK_HEADER_SLOTS * NEW_STORAGE_SLOT_GAS);
+        } else if (!this.relayContract) {
+            plan.addHeuristic('addBlock', '<relay contract>', relayInterface.encodeFunctionData('addBlock', [latestBlock.stateRoot, latestBlock.number]), 2 * NEW_STORAGE_SLOT_GAS);
+        } else {
+            await this.planRelayBlock(plan, latestBlock);
+        }
+
+        await plan.add('deploy logic contract', { data: await createDeployingByteCode(this.srcContractAddress, this.srcProvider) });
+
+        const proxyBytecode = await ChainProxy.proxyBytecode(this.relayContract?.address ?? RELAY_CONTRACT_PLACEHOLDER_ADDRESS, LOGIC_CONTRACT_PLACEHOLDER_ADDRESS, this.srcContractAddress);
+        await plan.add('deploy proxy contract', { data: proxyBytecode });
+
+        const proxyKeys = initialValuesProof.storageProof.map((storageProof) => ethers.utils.hexZeroPad(storageProof.key, 32));
+        const proxyValues = initialValuesProof.storageProof.map((storageProof) => ethers.utils.hexZeroPad(storageProof.value, 32));
+        if (proxyKeys.length > 0) {
+            const gasBatcher = new GasBatcher(this.targetProvider, this.targetRPCConfig.gasSafetyMargin, this.targetRPCConfig.gasLimit);
+            // one key/value pair adds two words of calldata and writes a new storage slot
+            const gasPerPair = intrinsicGas(ethers.utils.hexConcat([proxyKeys[0], proxyValues[0]])).sub(intrinsicGas('0x')).add(NEW_STORAGE_SLOT_GAS);
+            const baseGas = intrinsicGas(proxyInterface.encodeFunctionData('addStorage', [[], []]));
+            const batchSize = await gasBatcher.fitBatchSizeFromCosts(baseGas, gasPerPair, Math.min(key_value_pair_per_batch ?? proxyKeys.length, proxyKeys.length));
+            for (let i = 0; i < proxyKeys.length; i += batchSize) {
+                const batchKeys = proxyKeys.slice(i, i + batchSize);
+                plan.addHeuristic(`addStorage (${batchKeys.length} key/value pairs)`, '<proxy contract>', proxyInterface.encodeFunctionData('addStorage', [batchKeys, proxyValues.slice(i, i + batchSize)]), batchKeys.length * NEW_STORAGE_SLOT_GAS);
+            }
+        }
+
+        // the proxy account proof has the same shape as the source account proof once all storage is migrated
+        const latestProxyChainBlock = await this.targetProvider.send('eth_getBlockByNumber', ['latest', false]);
+        plan.addHeuristic('verifyMigrateContract', this.relayContract?.address ?? '<relay contract>', relayInterface.encodeFunctionData('verifyMigrateContract', [
+            sourceAccountProof,
+            sourceAccountProof,
+            encodeBlockHeader(latestProxyChainBlock),
+            RELAY_CONTRACT_PLACEHOLDER_ADDRESS,
+            ethers.BigNumber.from(latestProxyChainBlock.number).toNumber(),
+            latestBlock.number,
+        ]), NEW_STORAGE_SLOT_GAS);
+        return plan;
+    }
+
+    /**
+     * @throws ConfigError if the source contract address is invalid or there is no contract under it
+     */
+    private async checkSrcContract() {
+        if (!ethers.utils.isAddress(this.srcContractAddress)) {
+            throw new ConfigError(`Given source contract address not a valid address (${this.srcContractAddress})`);
+        }
+        let srcCode: string;
+        try {
+            srcCode = await this.srcProvider.getCode(this.srcContractAddress);
+        } catch (e) {
+            throw new RpcError(`Could not get the code of ${this.srcContractAddress}.`, e);
+        }
+        if (srcCode.length < 3) {
+            throw new ConfigError(`No contract found under src contract address ${this.srcContractAddress}.`);
+        }
+    }
+
+    /**
+     * @returns the bytecode of the proxy contract for the given addresses
+     * @throws ConfigError if the compiled proxy contract is not available
+     */
+    private static async proxyBytecode(relayAddress: string, logicAddress: string, sourceAddress: string): Promise<string> {
+        const compiledProxy = await ProxyContractBuilder.compiledAbiAndBytecode(relayAddress, logicAddress, sourceAddress);
+        if (compiledProxy.error) {
+            throw new ConfigError('Could not read the compiled proxy contract. Compile the contracts first.');
+        }
+        return compiledProxy.bytecode;
+    }
+
+    /**
+     * Turns an error that was thrown while estimating, sending or waiting for a tx on the target chain into a `SmartSyncError`.
+     * @param error the thrown error
+     * @param description what the tx does
+     */
+    private async toTargetTxError(error: any, description: string): Promise<SmartSyncError> {
+        if (error instanceof SmartSyncError) return error;
+        if (isGasTooHighError(error)) {
+            return new GasLimitExceededError(`${description} exceeds the gas budget of the target chain.`, error);
+        }
+        if (error?.code !== ethers.errors.CALL_EXCEPTION && error?.code !== ethers.errors.UNPREDICTABLE_GAS_LIMIT) {
+            return new RpcError(`Could not send ${description}.`, error);
+        }
+        let reason = revertReasonOf(error);
+        const { transaction, receipt } = error;
+        if (!reason && transaction && receipt) {
+            // receipts of reverted txs carry no revert data, so the reason is recovered by replaying the tx
+            reason = await this.targetProvider.call({
+                from: transaction.from, to: transaction.to, data: transaction.data, value: transaction.value, gasLimit: transaction.gasLimit,
+            }, receipt.blockNumber).then((result) => decodeRevertReason(result), (e) => revertReasonOf(e));
+        }
+        return new TargetTxRevertedError(description, reason, receipt?.transactionHash ?? error.transactionHash, error);
+    }
+
+    /**
+     * Emits `txSubmitted` for `tx`, waits until it or a replacement is mined and emits `txConfirmed`.
+     * @param mined receipt of `tx`, watched by the tx watchdog by default
+     */
+    private async confirm(description: string, tx: TransactionResponse, mined: Promise<WatchedReceipt> = this.watchdog.wait(tx, description)): Promise<WatchedReceipt> {
+        this.events.emit('txSubmitted', { description, txHash: tx.hash });
+        const receipt = await mined;
+        this.events.emit('txConfirmed', { description, txHash: receipt.transactionHash, gasUsed: receipt.gasUsed });
+        return receipt;
     }
 
     /**
      * deploy logic of source contract to target chain
-     * @returns address of logic contract or undefined if error
+     * @returns gas used for the deployment
      */
-    private async cloneLogic(): Promise<Boolean> {
+    private async cloneLogic(journal?: MigrationJournal): Promise<BigNumber> {
         logger.debug('cloning logic to target chain...');
         const logicContractByteCode: string = await createDeployingByteCode(this.srcContractAddress, this.srcProvider);
         const logicFactory = new ethers.ContractFactory([], logicContractByteCode, this.deployer);
+        let gasUsedForDeployment: BigNumber;
         try {
-            const logicContract = await logicFactory.deploy();
-            const gasUsedForDeployment = (await logicContract.deployTransaction.wait()).gasUsed.toNumber();
-            logger.debug(`Gas used for deploying logicContract: ${gasUsedForDeployment}`);
+            const logicContract = await logicFactory.deploy(await this.feeStrategy.overrides());
+            const deployReceipt = await this.confirm('deploy logic contract', logicContract.deployTransaction);
+            gasUsedForDeployment = deployReceipt.gasUsed;
+            logger.debug(`Gas used for deploying logicContract: ${gasUsedForDeployment.toNumber()}`);
             this.logicContractAddress = logicContract.address;
+            journal?.update({ logicContract: logicContract.address }, { logicContract: deployReceipt.transactionHash });
         } catch (e) {
-            logger.error(e);
-            return false;
+            throw await this.toTargetTxError(e, 'Logic contract deployment');
         }
         logger.debug('done.');
         logger.info(`Logic contract address: ${this.logicContractAddress}`);
-        return true;
+        return gasUsedForDeployment;
     }
 
     /**
      * deploy proxy contract to target chain
-     * @returns address of proxy contract or undefined if error
+     * @returns gas used for the deployment
      */
-    private async deployProxy(): Promise<boolean> {
+    private async deployProxy(journal?: MigrationJournal): Promise<BigNumber> {
         if (this.logicContractAddress === undefined) {
-            logger.error('Cannot deploy proxy when logic contract is still undefined.');
-            return false;
+            throw new InvalidStateError('Cannot deploy proxy when logic contract is still undefined.');
         }
-        const compiledProxy = await ProxyContractBuilder.compiledAbiAndBytecode(this.relayContract.address, this.logicContractAddress, this.srcContractAddress);
-        if (compiledProxy.error) return false;
-        const proxyFactory = new ethers.ContractFactory(PROXY_INTERFACE, compiledProxy.bytecode, this.deployer);
+        const proxyBytecode = await ChainProxy.proxyBytecode(this.relayContract.address, this.logicContractAddress, this.srcContractAddress);
+        const proxyFactory = new ethers.ContractFactory(PROXY_INTERFACE, proxyBytecode, this.deployer);
+        let deployReceipt: WatchedReceipt;
         try {
-            this.proxyContract = await proxyFactory.deploy();
-            const gasUsedForDeployment = (await this.proxyContract.deployTransaction.wait()).gasUsed.toNumber();
-            logger.debug(`Gas used for deploying proxyContract: ${gasUsedForDeployment}`);
+            this.proxyContract = await proxyFactory.deploy(await this.feeStrategy.overrides());
+            deployReceipt = await this.confirm('deploy proxy contract', this.proxyContract.deployTransaction);
+            logger.debug(`Gas used for deploying proxyContract: ${deployReceipt.gasUsed.toNumber()}`);
         } catch (e) {
-            logger.error(e);
-            return false;
+            throw await this.toTargetTxError(e, 'Proxy contract deployment');
         }
         this.proxyContractAddress = this.proxyContract.address;
+        journal?.update({ proxyContract: this.proxyContract.address }, { proxyContract: deployReceipt.transactionHash });
         logger.info(`Proxy contract address: ${this.proxyContract.address}`);
-        return true;
+        return deployReceipt.gasUsed;
     }
 
-    private async initialStorageMigration(initialValuesProof: GetProof, stateRoot: string, blockNumber: string, key_value_pair_per_batch: number = KEY_VALUE_PAIR_PER_BATCH): Promise<boolean> {
+    /**
+     * attach to an already deployed proxy contract
+     */
+    private async attachProxy(proxyContractAddress: string) {
+        if (this.logicContractAddress === undefined) {
+            throw new InvalidStateError('Cannot attach proxy when logic contract is still undefined.');
+        }
+        const proxyBytecode = await ChainProxy.proxyBytecode(this.relayContract.address, this.logicContractAddress, this.srcContractAddress);
+        const proxyFactory = new ethers.ContractFactory(PROXY_INTERFACE, proxyBytecode, this.deployer);
+        this.proxyContract = proxyFactory.attach(proxyContractAddress);
+        this.proxyContractAddress = proxyContractAddress;
+    }
+
+    /**
+     * @param keys padded storage keys of the source contract
+     * @param values padded values that belong to keys
+     * @returns the indexes of all key/value pairs that are already stored in the proxy contract
+     */
+    private async findMigratedPairs(keys: Array<string>, values: Array<string>): Promise<Set<number>> {
+        const migrated = new Set<number>();
+        for (let i = 0; i < keys.length; i += this.batchSize) {
+            // eslint-disable-next-line no-await-in-loop
+            const proxyProof: IGetProof = await this.targetProvider.send('eth_getProof', [this.proxyContract.address, keys.slice(i, i + this.batchSize), 'latest']);
+            proxyProof.storageProof.forEach((storageProof, j) => {
+                if (ethers.utils.hexZeroPad(storageProof.value, 32) === values[i + j]) migrated.add(i + j);
+            });
+        }
+        return migrated;
+    }
+
+    /**
+     * @returns gas used by the addStorage and verifyMigrateContract txs
+     */
+    private async initialStorageMigration(initialValuesProof: GetProof, stateRoot: string, blockNumber: string, key_value_pair_per_batch?: number, journal?: MigrationJournal): Promise<BigNumber> {
         // migrate storage
         logger.debug('migrating storage');
-        const proxyKeys: Array<String> = [];
-        const proxyValues: Array<String> = [];
+        let proxyKeys: Array<string> = [];
+        let proxyValues: Array<string> = [];
         initialValuesProof.storageProof.forEach((storageProof) => {
             proxyKeys.push(ethers.utils.hexZeroPad(storageProof.key, 32));
             proxyValues.push(ethers.utils.hexZeroPad(storageProof.value, 32));
         });
 
-        // todo adjust batch according to gas estimations
-        // todo add option for adjust key value pair batch
+        if (journal && journal.data.batches.length > 0) {
+            // batches of a previous run might have been confirmed after the journal was written or not at all
+            logger.info('Checking which storage was already added to the proxy contract...');
+            const migrated = await this.findMigratedPairs(proxyKeys, proxyValues);
+            proxyKeys = proxyKeys.filter((_, i) => !migrated.has(i));
+            proxyValues = proxyValues.filter((_, i) => !migrated.has(i));
+            logger.info(`${migrated.size} key/value pairs are already stored, ${proxyKeys.length} remain.`);
+        }
+
         logger.info('Adding storage to proxy contract...');
-        const txs: Array<TransactionResponse> = [];
-        let progressBar: CliProgress.SingleBar | undefined;
-        if (!isDebug(logger.settings.minLevel)) {
-            progressBar = new CliProgress.SingleBar({}, CliProgress.Presets.shades_classic);
-            progressBar.start(initialValuesProof.storageProof.length, 0);
-        }
-        while (proxyKeys.length > 0) {
-            const currProcessedKeys = (proxyKeys.length - key_value_pair_per_batch) >= 0 ? key_value_pair_per_batch : proxyKeys.length;
-            /*
-             * We cannot promise-batch the following request since we don't know in which order they are processed.
-             * If addStorage with a higher nonce is processed earlier than a lower nonce then it creates a problem.
-             */
-            // eslint-disable-next-line no-await-in-loop
-            const promise = await this.proxyContract.addStorage(proxyKeys.splice(0, key_value_pair_per_batch), proxyValues.splice(0, key_value_pair_per_batch), { gasLimit: this.targetRPCConfig.gasLimit })
-                .catch((error: any) => {
-                    logger.error(error);
-                    process.exit(-1);
-                });
-            if (!promise) {
-                logger.error('Could not add at least one storage batch.');
-                process.exit(-1);
+        const gasBatcher = new GasBatcher(this.targetProvider, this.targetRPCConfig.gasSafetyMargin, this.targetRPCConfig.gasLimit);
+        // the configured amount of key/value pairs per batch is an upper bound for the gas based batch size
+        const maxBatchSize = Math.min(key_value_pair_per_batch ?? proxyKeys.length, proxyKeys.length);
+        let batchSize = await gasBatcher.fitBatchSize((size) => this.proxyContract.estimateGas.addStorage(proxyKeys.slice(0, size), proxyValues.slice(0, size)), maxBatchSize);
+        logger.debug(`Adding storage in batches of ${batchSize} key/value pairs.`);
+        // nonces are assigned explicitly, so batches can be sent without waiting for the previous batch to arrive at the target chain
+        const nonceManager = new NonceManager(this.deployer, this.targetProvider, this.watchdog, this.targetRPCConfig.maxInFlightTxs);
+        await nonceManager.init();
+        const txsReceiptPromises: Array<Promise<TransactionReceipt>> = [];
+        const total = proxyKeys.length;
+        let sent = 0;
+        let sendError: unknown;
+        const confirmBatch = ({ response, receipt }: PipelinedTx, keyCount: number): Promise<WatchedReceipt> => {
+            const batchIndex = journal?.addBatch(response.hash, keyCount);
+            sent += keyCount;
+            this.events.emit('progress', { task: 'addStorage', done: sent, total });
+            return this.confirm('addStorage', response, receipt).then((mined) => {
+                if (batchIndex !== undefined) journal?.confirmBatch(batchIndex, mined.transactionHash);
+                return mined;
+            });
+        };
+        const stopSending = (e: unknown): never => {
+            // no further batches are sent after a batch could not be sent
+            sendError = e;
+            throw e;
+        };
+        this.events.emit('progress', { task: 'addStorage', done: 0, total });
+        while (proxyKeys.length > 0 && sendError === undefined) {
+            const batchKeys = proxyKeys.slice(0, batchSize);
+            const batchValues = proxyValues.slice(0, batchSize);
+            let request: ethers.PopulatedTransaction;
+            try {
+                // eslint-disable-next-line no-await-in-loop
+                const estimation = await this.proxyContract.estimateGas.addStorage(batchKeys, batchValues);
+                // eslint-disable-next-line no-await-in-loop
+                request = await this.proxyContract.populateTransaction.addStorage(batchKeys, batchValues, { gasLimit: await gasBatcher.gasLimitFor(estimation), ...await this.feeStrategy.overrides() });
+            } catch (e) {
+                if (isGasTooHighError(e) && batchSize > 1) {
+                    batchSize = Math.ceil(batchSize / 2);
+                    logger.debug(`Storage batch is too large, retrying with ${batchSize} key/value pairs.`);
+                    // eslint-disable-next-line no-continue
+                    continue;
+                }
+                // eslint-disable-next-line no-await-in-loop
+                throw await this.toTargetTxError(e, 'addStorage');
             }
-            progressBar?.increment(currProcessedKeys);
-            txs.push(promise);
+            proxyKeys.splice(0, batchKeys.length);
+            proxyValues.splice(0, batchValues.length);
+            const receiptPromise = nonceManager.send(request, 'addStorage').then((tx) => confirmBatch(tx, batchKeys.length), stopSending);
+            // a failed batch is reported once all sent batches are settled
+            receiptPromise.catch(() => undefined);
+            txsReceiptPromises.push(receiptPromise);
         }
-        progressBar?.stop();
         logger.info('Done.');
 
-        const txsReceiptPromises: Array<Promise<TransactionReceipt>> = [];
-        let cumulativeGasUsed = 0;
-        txs.forEach((tx) => {
-            txsReceiptPromises.push(tx.wait());
-        });
-        const txsReceipts: Array<TransactionReceipt> = await Promise.all(txsReceiptPromises);
+        let cumulativeGasUsed = BigNumber.from(0);
+        let txsReceipts: Array<TransactionReceipt>;
+        try {
+            txsReceipts = await Promise.all(txsReceiptPromises);
+        } catch (e) {
+            throw await this.toTargetTxError(e, 'addStorage');
+        }
         txsReceipts.forEach((receipt) => {
-            cumulativeGasUsed += receipt.gasUsed.toNumber();
+            cumulativeGasUsed = cumulativeGasUsed.add(receipt.gasUsed);
         });
-        logger.debug(`Gas used for migrating state in ${txs.length} txs: ${cumulativeGasUsed}`);
+        logger.debug(`Gas used for migrating state in ${txsReceipts.length} txs: ${cumulativeGasUsed.toNumber()}`);
         logger.debug('done.');
 
         // validate migration
         //  getting account proof from source contract
         const sourceAccountProof = await initialValuesProof.optimizedProof(stateRoot, false);
+        this.events.emit('proofBuilt', { contract: this.srcContractAddress, block: blockNumber, size: ethers.utils.hexDataLength(sourceAccountProof) });
 
         //  getting account proof from proxy contract
         const latestProxyChainBlock = await this.targetProvider.send('eth_getBlockByNumber', ['latest', false]);
         const firstKey = initialValuesProof.storageProof[0] ? ethers.utils.hexZeroPad(initialValuesProof.storageProof[0].key, 32) : ethers.utils.hexZeroPad('0x0', 32);
         const proxyChainProof = new GetProof(await this.targetProvider.send('eth_getProof', [this.proxyContract.address, [firstKey], 'latest']));
         const proxyAccountProof = await proxyChainProof.optimizedProof(latestProxyChainBlock.stateRoot, false);
+        this.events.emit('proofBuilt', { contract: this.proxyContract.address, block: latestProxyChainBlock.number, size: ethers.utils.hexDataLength(proxyAccountProof) });
 
         //  getting encoded block header
         const encodedBlockHeader = encodeBlockHeader(latestProxyChainBlock);
 
         try {
-            const tx = await this.relayContract.verifyMigrateContract(sourceAccountProof, proxyAccountProof, encodedBlockHeader, this.proxyContract.address, ethers.BigNumber.from(latestProxyChainBlock.number).toNumber(), blockNumber, { gasLimit: this.targetRPCConfig.gasLimit });
-            const receipt = await tx.wait();
+            const tx = await this.relayContract.verifyMigrateContract(sourceAccountProof, proxyAccountProof, encodedBlockHeader, this.proxyContract.address, ethers.BigNumber.from(latestProxyChainBlock.number).toNumber(), blockNumber, { gasLimit: this.targetRPCConfig.gasLimit, ...await this.feeStrategy.overrides() });
+            journal?.update({}, { verifyMigrateContract: tx.hash });
+            const receipt = await this.confirm('verifyMigrateContract', tx);
+            journal?.update({}, { verifyMigrateContract: receipt.transactionHash });
             logger.trace(receipt);
-            const gasUsedForTx = receipt.gasUsed.toNumber();
-            logger.debug(`Gas used for verifying contract migration: ${gasUsedForTx}`);
+            cumulativeGasUsed = cumulativeGasUsed.add(receipt.gasUsed);
+            logger.debug(`Gas used for verifying contract migration: ${receipt.gasUsed.toNumber()}`);
         } catch (e) {
-            logger.error(e);
-            return false;
+            throw await this.toTargetTxError(e, 'verifyMigrateContract');
         }
 
         //  validating
         try {
-            const migrationValidated = await this.relayContract.getMigrationState(this.proxyContract.address);
-            this.migrationState = migrationValidated;
-            if (!this.migrationState) {
-                logger.error('Could not migrate srcContract.');
-                return false;
-            }
-            return true;
+            this.migrationState = await this.relayContract.getMigrationState(this.proxyContract.address);
         } catch (e) {
-            logger.error(e);
-            return false;
+            throw new RpcError(`Could not get the migration state of ${this.proxyContract.address}.`, e);
         }
+        if (!this.migrationState) {
+            throw new VerificationError('The relay contract did not accept the migrated storage of the source contract.');
+        }
+        return cumulativeGasUsed;
     }
 
     /**
     * @param changedKeys: array of keys that changed and need to be migrated
     * @param unchangedKeys: array of keys that did not change and might be needed for building correct optimized proof
     * @param targetBlock: block number of the source contract that the proxy contract is migrated to
+    * @throws GasLimitExceededError if the changes do not fit into a single updateStorage tx
     */
-    async migrateChangesToProxy(changedKeys: Array<BigNumberish>, unchangedKeys: Array<string>, targetBlock: string | number = this.targetBlock): Promise<Boolean> {
+    async migrateChangesToProxy(changedKeys: Array<BigNumberish>, unchangedKeys: Array<string>, targetBlock: string | number = this.targetBlock): Promise<SyncResult> {
+        const result = await this.updateProxyStorage(changedKeys, unchangedKeys, targetBlock);
+        if (result === 'tooLarge') {
+            throw new GasLimitExceededError(`updateStorage for ${changedKeys.length} keys exceeds the gas budget of the target chain.`);
+        }
+        return result;
+    }
+
+    /**
+     * Synchronizes the proxy contract with the source contract.
+     * When using one of `SRC_TX_DIFF_METHODS`, the proxy contract is synchronized up to `parameters.targetBlock` of the source chain. If the changes of the block range
+     * do not fit into a single updateStorage tx, the range is halved until they do.
+     * Otherwise, the storage of the proxy contract at `parameters.targetBlock` is compared with the source contract at `parameters.srcBlock`
+     * (see --diff-mode) and the proxy contract is synchronized to `parameters.srcBlock`.
+     * @param method diff method to use
+     * @param parameters block numbers, same as for `getDiff`
+     * @param maxBlockRange maximum amount of blocks that are synchronized with one tx when using `srcTx`
+     * @returns one result per updateStorage tx, empty if the proxy contract was already synchronized up to `parameters.targetBlock` (`srcTx` only)
+     * @throws GasLimitExceededError if the changes of a single block do not fit into one updateStorage tx
+     */
+    async synchronize(method: GetDiffMethod, parameters: { srcBlock?: string | number, targetBlock?: string | number }, maxBlockRange: number = Number.MAX_SAFE_INTEGER): Promise<Array<SyncResult>> {
+        let results: Array<SyncResult>;
+        try {
+            results = await this.synchronizeRanges(method, parameters, maxBlockRange);
+        } catch (error) {
+            this.events.emit('syncFailed', { error });
+            throw error;
+        }
+        this.events.emit('syncCompleted', { results });
+        return results;
+    }
+
+    private async synchronizeRanges(method: GetDiffMethod, parameters: { srcBlock?: string | number, targetBlock?: string | number }, maxBlockRange: number): Promise<Array<SyncResult>> {
+        if (SRC_TX_DIFF_METHODS.indexOf(method) < 0) {
+            const diff = await this.getDiff(method, parameters);
+            return [await this.migrateChangesToProxy(diff.getKeys(), diff.fromKeys, parameters.srcBlock)];
+        }
+        const results: Array<SyncResult> = [];
+        const targetBlock = parameters.targetBlock ?? 'latest';
+        const lastBlock = await this.toSrcBlockNumber(targetBlock);
+        let currentBlock = (await this.getCurrentBlockNumber()).toNumber();
+        let blockRange = Math.min(maxBlockRange, lastBlock - currentBlock);
+        while (currentBlock < lastBlock) {
+            const upToBlock = Math.min(currentBlock + blockRange, lastBlock);
+            // eslint-disable-next-line no-await-in-loop
+            const diff = await this.getDiff(method, { srcBlock: currentBlock + 1, targetBlock: upToBlock });
+            // eslint-disable-next-line no-await-in-loop
+            const result = await this.updateProxyStorage(diff.getKeys(), diff.fromKeys, upToBlock);
+            if (result === 'tooLarge') {
+                if (upToBlock === currentBlock + 1) {
+                    throw new GasLimitExceededError(`Changes of block ${upToBlock} exceed the gas budget of the target chain.`);
+                }
+                blockRange = Math.ceil((upToBlock - currentBlock) / 2);
+                logger.info(`Changes until block ${upToBlock} do not fit into one tx, synchronizing ${blockRange} blocks at once.`);
+                // eslint-disable-next-line no-continue
+                continue;
+            }
+            if (!diff.isEmpty()) logger.info(`Synchronized ${diff.getKeys().length} keys up to block ${upToBlock}.`);
+            results.push(result);
+            currentBlock = upToBlock;
+        }
+        return results;
+    }
+
+    /**
+     * Runs the read path of `synchronize` and collects the txs it would send without signing any of them.
+     * When using one of `SRC_TX_DIFF_METHODS`, one updateStorage tx is planned per `maxBlockRange` blocks.
+     * @param method diff method to use
+     * @param parameters block numbers, same as for `synchronize`
+     * @param maxBlockRange maximum amount of blocks that are synchronized with one tx when using `srcTx`
+     * @returns the planned txs
+     */
+    async planSynchronize(method: GetDiffMethod, parameters: { srcBlock?: string | number, targetBlock?: string | number }, maxBlockRange: number = Number.MAX_SAFE_INTEGER): Promise<TransactionPlan> {
+        const plan = new TransactionPlan(this.targetProvider, await this.deployer.getAddress());
+        if (SRC_TX_DIFF_METHODS.indexOf(method) < 0) {
+            const diff = await this.getDiff(method, parameters);
+            await this.planChangesToProxy(plan, diff.getKeys(), diff.fromKeys, parameters.srcBlock ?? this.targetBlock);
+            return plan;
+        }
+        const lastBlock = await this.toSrcBlockNumber(parameters.targetBlock ?? 'latest');
+        let currentBlock = (await this.getCurrentBlockNumber()).toNumber();
+        while (currentBlock < lastBlock) {
+            const upToBlock = Math.min(currentBlock + maxBlockRange, lastBlock);
+            // eslint-disable-next-line no-await-in-loop
+            const diff = await this.getDiff(method, { srcBlock: currentBlock + 1, targetBlock: upToBlock });
+            // eslint-disable-next-line no-await-in-loop
+            await this.planChangesToProxy(plan, diff.getKeys(), diff.fromKeys, upToBlock);
+            currentBlock = upToBlock;
+        }
+        return plan;
+    }
+
+    /**
+     * Adds the txs of `updateProxyStorage` to the given plan.
+     * updateStorage can only be estimated if the state root of `targetBlock` is already stored in the relay contract.
+     */
+    private async planChangesToProxy(plan: TransactionPlan, changedKeys: Array<BigNumberish>, unchangedKeys: Array<string>, targetBlock: string | number) {
         if (!this.initialized) {
-            logger.error('ChainProxy is not initialized yet.');
-            return false;
+            throw new InvalidStateError('ChainProxy is not initialized yet.');
         } if (!this.migrationState) {
-            logger.error('Proxy contract is not initialized yet.');
-            return false;
+            throw new InvalidStateError('Proxy contract is not initialized yet.');
         } if (changedKeys.length < 1) {
-            logger.info('There are no changes to be synchronized.');
-            return true;
+            return;
         } if (!this.relayContract) {
-            logger.error('No address for relayContract given.');
-            return false;
+            throw new ConfigError('No address for relayContract given.');
         }
 
-        const parityLatestSrcBlock = toParityQuantity(targetBlock);
+        const parityLatestSrcBlock = toParityQuantity(await this.toSrcBlockNumber(targetBlock));
+        const latestBlock = await this.srcProvider.send('eth_getBlockByNumber', [parityLatestSrcBlock, true]);
+        const changedKeysProof = new GetProof(await this.srcProvider.send('eth_getProof', [this.srcContractAddress, changedKeys, parityLatestSrcBlock]), this.srcProvider);
+        const rlpProof = await changedKeysProof.optimizedProof(latestBlock.stateRoot, true, unchangedKeys);
+
+        await this.planRelayBlock(plan, latestBlock);
+        await plan.add(`updateStorage (${changedKeys.length} keys)`, await this.proxyContract.populateTransaction.updateStorage(rlpProof, latestBlock.number), changedKeys.length * STORAGE_SLOT_UPDATE_GAS);
+    }
+
+    /**
+     * Fetches and optimizes the proof of the source contract's storage that updateStorage needs. The proof does not depend on the target chain,
+     * so it can be applied to several proxy contracts of the same source contract.
+     * @param changedKeys keys that changed and need to be migrated
+     * @param unchangedKeys keys that did not change and might be needed for building correct optimized proof
+     * @param targetBlock block of the source chain whose values are migrated
+     */
+    async buildSyncProof(changedKeys: Array<BigNumberish>, unchangedKeys: Array<string>, targetBlock: string | number): Promise<SyncProof> {
+        const blockNumber = await this.toSrcBlockNumber(targetBlock);
+        const parityLatestSrcBlock = toParityQuantity(blockNumber);
         const latestBlock = await this.srcProvider.send('eth_getBlockByNumber', [parityLatestSrcBlock, true]);
 
         // create a proof of the source contract's storage for all the changed keys
         const changedKeysProof = new GetProof(await this.srcProvider.send('eth_getProof', [this.srcContractAddress, changedKeys, parityLatestSrcBlock]), this.srcProvider);
+        this.events.emit('proofFetched', { contract: this.srcContractAddress, block: blockNumber, keys: changedKeys.length });
         const rlpProof = await changedKeysProof.optimizedProof(latestBlock.stateRoot, true, unchangedKeys);
+        this.events.emit('proofBuilt', { contract: this.srcContractAddress, block: blockNumber, size: ethers.utils.hexDataLength(rlpProof) });
+
+        return {
+            keys: changedKeys.map((key) => ethers.utils.hexZeroPad(BigNumber.from(key).toHexString(), 32)),
+            blockNumber: BigNumber.from(latestBlock.number).toNumber(),
+            blockHash: latestBlock.hash,
+            stateRoot: latestBlock.stateRoot,
+            rlpProof,
+        };
+    }
+
+    /**
+     * Adds the block of `proof` to the relay contract if it is missing and updates the proxy contract with it.
+     * @param proof proof built by `buildSyncProof`, possibly by the chain proxy of another target chain
+     * @param headers headers of the source chain up to the block of `proof`, if given the source chain is not used in header mode
+     * @throws GasLimitExceededError if the updateStorage tx does not fit into the gas budget of the target chain
+     * @throws InvalidStateError if the relay contract is in header mode and `headers` lack a header that it needs
+     */
+    async applySyncProof(proof: SyncProof, headers?: Array<BlockHeader & { hash: string }>): Promise<SyncResult> {
+        this.checkSyncable();
+        const result = await this.submitSyncProof(proof, headers);
+        if (result === 'tooLarge') {
+            throw new GasLimitExceededError(`updateStorage for ${proof.keys.length} keys exceeds the gas budget of the target chain.`);
+        }
+        return result;
+    }
 
-        await this.relayContract.addBlock(latestBlock.stateRoot, latestBlock.number);
+    /**
+     * @throws InvalidStateError if the proxy contract cannot be synchronized yet
+     */
+    private checkSyncable() {
+        if (!this.initialized) {
+            throw new InvalidStateError('ChainProxy is not initialized yet.');
+        } if (!this.migrationState) {
+            throw new InvalidStateError('Proxy contract is not initialized yet.');
+        } if (!this.relayContract) {
+            throw new ConfigError('No address for relayContract given.');
+        }
+    }
+
+    /**
+     * @returns `tooLarge` if the updateStorage tx does not fit into the gas budget of the target chain
+     */
+    private async updateProxyStorage(changedKeys: Array<BigNumberish>, unchangedKeys: Array<string>, targetBlock: string | number): Promise<SyncResult | 'tooLarge'> {
+        this.checkSyncable();
+        if (changedKeys.length < 1) {
+            logger.info('There are no changes to be synchronized.');
+            return { keys: [], blockNumber: await this.toSrcBlockNumber(targetBlock), gasUsed: BigNumber.from(0) };
+        }
+        return this.submitSyncProof(await this.buildSyncProof(changedKeys, unchangedKeys, targetBlock));
+    }
+
+    /**
+     * @returns `tooLarge` if the updateStorage tx does not fit into the gas budget of the target chain
+     */
+    private async submitSyncProof(proof: SyncProof, headers?: Array<BlockHeader & { hash: string }>): Promise<SyncResult | 'tooLarge'> {
+        const gasUsed = await this.relayBlock({ number: proof.blockNumber, hash: proof.blockHash, stateRoot: proof.stateRoot }, undefined, headers);
 
         // update the proxy storage
+        const gasBatcher = new GasBatcher(this.targetProvider, this.targetRPCConfig.gasSafetyMargin, this.targetRPCConfig.gasLimit);
+        let gasLimit: BigNumber;
+        try {
+            const estimation = await this.proxyContract.estimateGas.updateStorage(proof.rlpProof, proof.blockNumber);
+            if (estimation.gt(await gasBatcher.gasBudget())) {
+                logger.debug(`updateStorage needs ${estimation.toString()} gas which exceeds the gas budget of the target chain.`);
+                return 'tooLarge';
+            }
+            gasLimit = await gasBatcher.gasLimitFor(estimation);
+        } catch (e) {
+            if (isGasTooHighError(e)) {
+                logger.debug('updateStorage exceeds the gas budget of the target chain.');
+                return 'tooLarge';
+            }
+            throw await this.toTargetTxError(e, 'updateStorage');
+        }
         let txResponse: ContractTransaction;
-        let receipt: ContractReceipt;
+        let receipt: WatchedReceipt;
         try {
-            txResponse = await this.proxyContract.updateStorage(rlpProof, latestBlock.number, { gasLimit: this.targetRPCConfig.gasLimit });
-            receipt = await txResponse.wait();
+            txResponse = await this.proxyContract.updateStorage(proof.rlpProof, proof.blockNumber, { gasLimit, ...await this.feeStrategy.overrides() });
+            receipt = await this.confirm('updateStorage', txResponse);
             logger.debug(`Gas used for updating storage ${receipt.gasUsed.toNumber()}`);
         } catch (e) {
-            logger.fatal('Could not updateStorage.');
-            logger.fatal(e);
-            return false;
+            if (isGasTooHighError(e)) return 'tooLarge';
+            throw await this.toTargetTxError(e, 'updateStorage');
         }
 
-        return true;
+        return {
+            keys: proof.keys,
+            blockNumber: proof.blockNumber,
+            txHash: receipt.transactionHash,
+            replacedTxs: receipt.replacedTxs,
+            gasUsed: gasUsed.add(receipt.gasUsed),
+        };
     }
 
-    async getDiff(method: GetDiffMethod, parameters: any): Promise<StorageDiff | undefined> {
+    /**
+     * Adds the block headers of the source chain from `fromBlock` up to `toBlock` to the relay contract, headers that are stored already are skipped.
+     * Unless the relay contract has no headers yet, the header of `fromBlock - 1` has to be stored since every header is checked against its parent.
+     * @param journal optional journal that records the hash of every addBlockHeader tx as `addBlock`
+     * @returns the amount of added headers and the gas they used
+     * @throws ConfigError if the signer is not a relayer of the relay contract
+     * @throws ProofConstructionError if an encoded header does not match the hash of its block
+     */
+    async backfillHeaders(fromBlock: BigNumberish, toBlock: BigNumberish, journal?: MigrationJournal): Promise<HeaderBackfillResult> {
+        if (!this.relayContract) {
+            throw new ConfigError('No address for relayContract given.');
+        }
+        await this.checkRelayer();
+        const from = await this.toSrcBlockNumber(fromBlock);
+        const to = await this.toSrcBlockNumber(toBlock);
+        const result: HeaderBackfillResult = { headers: 0, gasUsed: BigNumber.from(0) };
+        const total = Math.max(to - from + 1, 0);
+        this.events.emit('progress', { task: 'addBlockHeader', done: 0, total });
+        /* eslint-disable no-await-in-loop */
+        for (let blockNumber = from; blockNumber <= to; blockNumber += 1) {
+            const block = await this.srcProvider.send('eth_getBlockByNumber', [toParityQuantity(blockNumber), false]);
+            if ((await this.relayContract.getBlockHash(blockNumber)) !== block.hash) {
+                const receipt = await this.addBlockHeader(block, journal);
+                result.headers += 1;
+                result.txHash = receipt.transactionHash;
+                result.gasUsed = result.gasUsed.add(receipt.gasUsed);
+            }
+            this.events.emit('progress', { task: 'addBlockHeader', done: blockNumber - from + 1, total });
+        }
+        /* eslint-enable no-await-in-loop */
+        return result;
+    }
+
+    /**
+     * @param journal optional journal that records the hash of the addBlockHeader tx as `addBlock`
+     * @throws ProofConstructionError if the encoded header does not match the hash of the block
+     */
+    private async addBlockHeader(block: BlockHeader & { hash: string }, journal?: MigrationJournal): Promise<WatchedReceipt> {
+        const blockNumber = BigNumber.from(block.number).toNumber();
+        const encodedHeader = ChainProxy.encodeCheckedBlockHeader(block);
+        try {
+            const tx = await this.relayContract.addBlockHeader(encodedHeader, await this.feeStrategy.overrides());
+            journal?.update({}, { addBlock: tx.hash });
+            const receipt = await this.confirm(`addBlockHeader (${blockNumber})`, tx);
+            // the tx might have been replaced because it was stuck
+            journal?.update({}, { addBlock: receipt.transactionHash });
+            return receipt;
+        } catch (e) {
+            throw await this.toTargetTxError(e, `addBlockHeader (${blockNumber})`);
+        }
+    }
+
+    /**
+     * Adds the headers up to `blockNumber` that are missing in the relay contract, taking them from `headers` instead of the source chain.
+     * @returns gas used by the sent txs
+     * @throws InvalidStateError if `headers` do not reach back to the latest header of the relay contract
+     */
+    private async relayHeaders(blockNumber: number, headers: Array<BlockHeader & { hash: string }>): Promise<BigNumber> {
+        const from = await this.firstMissingHeader(blockNumber);
+        const missing = Array.from({ length: blockNumber - from + 1 }, (_, i) => headers.find((header) => BigNumber.from(header.number).eq(from + i)));
+        const gap = missing.findIndex((header) => !header);
+        if (gap > -1) {
+            throw new InvalidStateError(`The header of block ${from + gap} is missing, the relay contract needs all headers from block ${from} to ${blockNumber}.`);
+        }
+        await this.checkRelayer();
+        let gasUsed = BigNumber.from(0);
+        /* eslint-disable no-await-in-loop */
+        for (let i = 0; i < missing.length; i += 1) {
+            const header = missing[i] as BlockHeader & { hash: string };
+            if ((await this.relayContract.getBlockHash(from + i)) !== header.hash) {
+                gasUsed = gasUsed.add((await this.addBlockHeader(header)).gasUsed);
+            }
+        }
+        /* eslint-enable no-await-in-loop */
+        return gasUsed;
+    }
+
+    /**
+     * @returns the rlp encoded header of `block`
+     * @throws ProofConstructionError if the encoded header does not hash to the hash of `block`, e.g. because the header has fields that are not encoded
+     */
+    private static encodeCheckedBlockHeader(block: BlockHeader & { hash: string }): Buffer {
+        const encodedHeader = encodeBlockHeader(block);
+        if (ethers.utils.keccak256(encodedHeader) !== block.hash) {
+            throw new ProofConstructionError(`The encoded header of block ${BigNumber.from(block.number).toNumber()} does not match its hash ${block.hash}.`);
+        }
+        return encodedHeader;
+    }
+
+    /**
+     * @returns the first block from which headers have to be added so that the header of `blockNumber` links to the headers in the relay contract
+     */
+    private async firstMissingHeader(blockNumber: number): Promise<number> {
+        const latestHeader = (await this.relayContract.getLatestHeaderNumber()).toNumber();
+        // a relay contract without headers accepts any header as the first one
+        if (latestHeader === 0 || latestHeader >= blockNumber) return blockNumber;
+        return latestHeader + 1;
+    }
+
+    /**
+     * Adds the state root of `block` to the relay contract unless it is stored already. In header mode, the missing headers between the latest header
+     * of the relay contract and `block` are added as well.
+     * @param journal optional journal that records the hash of the tx that added the block
+     * @param headers headers of the source chain that are used in header mode instead of fetching them, see `relayHeaders`
+     * @returns gas used by the sent txs
+     */
+    private async relayBlock(block: { number: BigNumberish, hash: string, stateRoot: string }, journal?: MigrationJournal, headers?: Array<BlockHeader & { hash: string }>): Promise<BigNumber> {
+        const blockNumber = BigNumber.from(block.number).toNumber();
+        if (this.targetRPCConfig.relayMode === 'header') {
+            // sibling blocks might share their state root, e.g. empty blocks of PoA chains
+            if ((await this.relayContract.getBlockHash(blockNumber)) === block.hash) {
+                logger.debug(`Header of block ${blockNumber} is already stored in the relay contract.`);
+                return BigNumber.from(0);
+            }
+            if (headers) return this.relayHeaders(blockNumber, headers);
+            return (await this.backfillHeaders(await this.firstMissingHeader(blockNumber), blockNumber, journal)).gasUsed;
+        }
+        if ((await this.relayContract.getStateRoot(blockNumber)) === block.stateRoot) {
+            logger.debug(`State root of block ${blockNumber} is already stored in the relay contract.`);
+            return BigNumber.from(0);
+        }
+        await this.checkRelayer();
+        try {
+            const addBlockTx = await this.relayContract.addBlock(block.stateRoot, blockNumber, await this.feeStrategy.overrides());
+            journal?.update({}, { addBlock: addBlockTx.hash });
+            const addBlockReceipt = await this.confirm('addBlock', addBlockTx);
+            // the tx might have been replaced because it was stuck
+            journal?.update({}, { addBlock: addBlockReceipt.transactionHash });
+            return addBlockReceipt.gasUsed;
+        } catch (e) {
+            throw await this.toTargetTxError(e, 'addBlock');
+        }
+    }
+
+    /**
+     * Adds the txs of `relayBlock` to the given plan.
+     */
+    private async planRelayBlock(plan: TransactionPlan, block: BlockHeader & { hash: string }) {
+        const blockNumber = BigNumber.from(block.number).toNumber();
+        if (this.targetRPCConfig.relayMode !== 'header') {
+            if ((await this.relayContract.getStateRoot(blockNumber)) !== block.stateRoot) {
+                await plan.add(`addBlock (${blockNumber})`, await this.relayContract.populateTransaction.addBlock(block.stateRoot, blockNumber), 2 * NEW_STORAGE_SLOT_GAS);
+            }
+            return;
+        }
+        if ((await this.relayContract.getBlockHash(blockNumber)) === block.hash) return;
+        /* eslint-disable no-await-in-loop */
+        for (let headerNumber = await this.firstMissingHeader(blockNumber); headerNumber <= blockNumber; headerNumber += 1) {
+            const header = headerNumber === blockNumber ? block : await this.srcProvider.send('eth_getBlockByNumber', [toParityQuantity(headerNumber), false]);
+            // headers after the first missing one cannot be estimated since their parent is not stored yet
+            await plan.add(`addBlockHeader (${headerNumber})`, await this.relayContract.populateTransaction.addBlockHeader(encodeBlockHeader(header)), ADD_BLOCK_HEADER_SLOTS * NEW_STORAGE_SLOT_GAS);
+        }
+        /* eslint-enable no-await-in-loop */
+    }
+
+    /**
+     * @throws ConfigError if the signer is not allowed to add blocks to the relay contract
+     */
+    private async checkRelayer() {
+        const address = await this.deployer.getAddress();
+        let allowed: boolean;
+        try {
+            allowed = await this.relayContract.isRelayer(address);
+        } catch (e: any) {
+            if (e?.code !== ethers.errors.CALL_EXCEPTION) {
+                throw new RpcError(`Could not check if ${address} is a relayer of ${this.relayContract.address}.`, e);
+            }
+            // relay contracts of earlier versions accept blocks from everyone
+            logger.debug(`Relay contract ${this.relayContract.address} has no relayers.`);
+            return;
+        }
+        if (!allowed) {
+            throw new ConfigError(`${address} is not a relayer of relay contract ${this.relayContract.address}. Its owner can add it with relay add-relayer.`);
+        }
+    }
+
+    /**
+     * @throws ConfigError if the signer is not the owner of the relay contract
+     */
+    private async checkRelayOwner() {
+        const address = await this.deployer.getAddress();
+        const owner = await this.getRelayOwner();
+        if (owner !== address) {
+            throw new ConfigError(`${address} is not the owner of relay contract ${this.relayContract.address}, the owner is ${owner}.`);
+        }
+    }
+
+    /**
+     * Sends a tx that only the owner of the relay contract may send, after checking that the signer is the owner.
+     * @param address argument of the tx, checked to be a valid address
+     */
+    private async sendRelayOwnerTx(description: string, address: string, send: (address: string) => Promise<ContractTransaction>): Promise<WatchedReceipt> {
+        if (!this.relayContract) {
+            throw new ConfigError('No address for relayContract given.');
+        } if (!ethers.utils.isAddress(address)) {
+            throw new ConfigError(`${address} is no valid address.`);
+        }
+        await this.checkRelayOwner();
+        try {
+            return await this.confirm(description, await send(ethers.utils.getAddress(address)));
+        } catch (e) {
+            throw await this.toTargetTxError(e, description);
+        }
+    }
+
+    /**
+     * Allows `relayer` to add blocks to the relay contract.
+     * @throws ConfigError if the signer is not the owner of the relay contract
+     */
+    async addRelayer(relayer: string): Promise<WatchedReceipt> {
+        return this.sendRelayOwnerTx('addRelayer', relayer, async (address) => this.relayContract.addRelayer(address, await this.feeStrategy.overrides()));
+    }
+
+    /**
+     * Revokes the permission of `relayer` to add blocks to the relay contract.
+     * @throws ConfigError if the signer is not the owner of the relay contract
+     */
+    async removeRelayer(relayer: string): Promise<WatchedReceipt> {
+        return this.sendRelayOwnerTx('removeRelayer', relayer, async (address) => this.relayContract.removeRelayer(address, await this.feeStrategy.overrides()));
+    }
+
+    /**
+     * Hands the management of the relayers over to `newOwner`.
+     * @throws ConfigError if the signer is not the owner of the relay contract
+     */
+    async transferRelayOwnership(newOwner: string): Promise<WatchedReceipt> {
+        return this.sendRelayOwnerTx('transferOwnership', newOwner, async (address) => this.relayContract.transferOwnership(address, await this.feeStrategy.overrides()));
+    }
+
+    /**
+     * @returns the accounts that may add blocks to the relay contract
+     */
+    async getRelayers(): Promise<Array<string>> {
+        if (!this.relayContract) {
+            throw new ConfigError('No address for relayContract given.');
+        }
+        try {
+            return await this.relayContract.getRelayers();
+        } catch (e) {
+            throw new RpcError(`Could not get the relayers of ${this.relayContract.address}.`, e);
+        }
+    }
+
+    async getRelayOwner(): Promise<string> {
+        if (!this.relayContract) {
+            throw new ConfigError('No address for relayContract given.');
+        }
+        try {
+            return await this.relayContract.getOwner();
+        } catch (e) {
+            throw new RpcError(`Could not get the owner of ${this.relayContract.address}.`, e);
+        }
+    }
+
+    /**
+     * Compares the latest blocks of the relay contract and the block of the proxy contract with the canonical source chain.
+     * Blocks are compared by their state root, in header mode by their hash as well.
+     * @param depth amount of the latest relayed blocks to compare, the block of the proxy contract is always compared
+     * @returns the orphaned blocks
+     */
+    async checkReorgs(depth: number = DEFAULT_REORG_CHECK_DEPTH): Promise<ReorgCheckResult> {
+        this.checkSyncable();
+        const syncedBlock = (await this.getCurrentBlockNumber()).toNumber();
+        const latestBlock = (await this.getLatestBlockNumber()).toNumber();
+        const firstBlock = Math.max(latestBlock - depth + 1, 0);
+        const blockNumbers = Array.from({ length: latestBlock - firstBlock + 1 }, (_, i) => firstBlock + i);
+        if (syncedBlock < firstBlock) blockNumbers.unshift(syncedBlock);
+
+        const orphaned = await Promise.all(blockNumbers.map((blockNumber) => this.isOrphaned(blockNumber)));
+        const orphanedBlocks = blockNumbers.filter((_, i) => orphaned[i]);
+        if (orphanedBlocks.length > 0) {
+            logger.warn(`Blocks ${orphanedBlocks.join(', ')} of relay contract ${this.relayContract.address} are not part of the canonical source chain.`);
+        }
+        return { syncedBlock, orphanedBlocks, proxyOrphaned: orphanedBlocks.indexOf(syncedBlock) > -1 };
+    }
+
+    /**
+     * @returns true if `blockNumber` is stored in the relay contract but differs from the block of the canonical source chain
+     */
+    private async isOrphaned(blockNumber: number): Promise<boolean> {
+        let stateRoot: string;
+        let blockHash = ethers.constants.HashZero;
+        let block: { hash: string, stateRoot: string } | null;
+        try {
+            stateRoot = await this.relayContract.getStateRoot(blockNumber);
+            // relay contracts of earlier versions do not store headers
+            if (this.targetRPCConfig.relayMode === 'header') blockHash = await this.relayContract.getBlockHash(blockNumber);
+            block = await this.srcProvider.send('eth_getBlockByNumber', [toParityQuantity(blockNumber), false]);
+        } catch (e) {
+            throw new RpcError(`Could not compare block ${blockNumber} of the relay contract with the source chain.`, e);
+        }
+        if (stateRoot === ethers.constants.HashZero) return false;
+        // the canonical chain might be shorter than the reorganized one
+        if (!block) return true;
+        return stateRoot !== block.stateRoot || (blockHash !== ethers.constants.HashZero && blockHash !== block.hash);
+    }
+
+    /**
+     * Replaces the orphaned blocks of the relay contract that are final by the blocks of the canonical source chain. If the proxy contract
+     * is synchronized to an orphaned block, its storage is compared with the source contract at the newest final block and synchronized to it.
+     * Orphaned blocks that are newer than the newest final block are left as they are.
+     * @param depth amount of the latest relayed blocks to compare, see `checkReorgs`
+     * @throws ConfigError if the signer is not a relayer of the relay contract
+     * @throws ReorgError if the proxy contract is orphaned but no newer block of the source chain is final yet
+     */
+    async repairReorgs(depth: number = DEFAULT_REORG_CHECK_DEPTH): Promise<ReorgRepairResult> {
+        const check = await this.checkReorgs(depth);
+        const result: ReorgRepairResult = { ...check, replacedBlocks: [], gasUsed: BigNumber.from(0) };
+        if (check.orphanedBlocks.length === 0) return result;
+        await this.checkRelayer();
+        const finalBlock = await this.toSrcBlockNumber('latest');
+        if (check.proxyOrphaned && finalBlock <= check.syncedBlock) {
+            throw new ReorgError(`Proxy contract ${this.proxyContract.address} is synchronized to the orphaned block ${check.syncedBlock} and can only be repaired once a newer block is final.`);
+        }
+
+        /* eslint-disable no-await-in-loop */
+        // blocks are replaced in ascending order so that every header links to the replaced header of its parent
+        for (let i = 0; i < check.orphanedBlocks.length && check.orphanedBlocks[i] <= finalBlock; i += 1) {
+            const blockNumber = check.orphanedBlocks[i];
+            const block = await this.srcProvider.send('eth_getBlockByNumber', [toParityQuantity(blockNumber), false]);
+            result.gasUsed = result.gasUsed.add(await this.relayBlock(block));
+            result.replacedBlocks.push(blockNumber);
+        }
+        /* eslint-enable no-await-in-loop */
+
+        if (check.proxyOrphaned) {
+            logger.info(`Synchronizing the storage of proxy contract ${this.proxyContract.address} with block ${finalBlock}.`);
+            const diff = await this.getDiff('storage', { srcBlock: finalBlock, targetBlock: 'latest' });
+            result.sync = await this.migrateChangesToProxy(diff.getKeys(), diff.fromKeys, finalBlock);
+            result.gasUsed = result.gasUsed.add(result.sync.gasUsed);
+        }
+        return result;
+    }
+
+    async getDiff(method: GetDiffMethod, parameters: any): Promise<StorageDiff> {
         if (!this.initialized) {
-            logger.error('ChainProxy is not initialized yet.');
-            return undefined;
+            throw new InvalidStateError('ChainProxy is not initialized yet.');
         }
 
         let { srcBlock } = parameters;
@@ -455,8 +1477,7 @@ export class ChainProxy {
         switch (method) {
             case 'storage':
                 if (this.proxyContractAddress && !this.migrationState) {
-                    logger.error('Proxy contract is not initialized yet.');
-                    return undefined;
+                    throw new InvalidStateError('Proxy contract is not initialized yet.');
                 }
                 return this.differ.getDiffFromStorage(this.srcContractAddress, this.proxyContractAddress ?? this.srcContractAddress, parameters.srcBlock, parameters.targetBlock);
             case 'getProof':
@@ -466,37 +1487,58 @@ export class ChainProxy {
                     srcBlock = synchedBlockNr.toNumber() + 1;
                 }
                 if (targetBlock) {
-                    const givenTargetBlockNr = await toBlockNumber(targetBlock, this.srcProvider);
+                    const givenTargetBlockNr = await this.toSrcBlockNumber(targetBlock);
                     if (srcBlock && BLOCKNUMBER_TAGS.indexOf(srcBlock) < 0 && BigNumber.from(srcBlock).gt(givenTargetBlockNr) && !this.proxyContractAddress) {
                         logger.debug(`Note: The given starting block nr/ synchronized block nr (--src-BlockNr == ${srcBlock}) is greater than the given target block nr (${targetBlock}).`);
                         return new StorageDiff([], [], []);
                     }
                 }
                 return this.differ.getDiffFromProof(this.srcContractAddress, parameters.targetBlock, srcBlock, this.proxyContractAddress ?? this.srcContractAddress);
-                // srcTx is default
+                // srcTx, srcTxBlock and srcTxPrestate are default
             default:
                 if (this.relayContract && this.proxyContract) {
                     const synchedBlockNr = await this.relayContract.getCurrentBlockNumber(this.proxyContract.address);
                     srcBlock = synchedBlockNr.toNumber() + 1;
                 }
                 if (targetBlock) {
-                    const givenTargetBlockNr = await toBlockNumber(targetBlock, this.srcProvider);
+                    const givenTargetBlockNr = await this.toSrcBlockNumber(targetBlock);
                     if (srcBlock && BLOCKNUMBER_TAGS.indexOf(srcBlock) < 0 && BigNumber.from(srcBlock).gt(givenTargetBlockNr)) {
                         logger.debug(`Note: The given starting block nr/ synchronized block nr (--src-BlockNr == ${srcBlock}) is greater than the given target block nr (${givenTargetBlockNr}).`);
                         return new StorageDiff([], [], []);
                     }
                 }
+                if (method === 'srcTxBlock') {
+                    return this.differ.getDiffFromSrcContractBlocks(this.srcContractAddress, parameters.targetBlock, srcBlock);
+                }
+                if (method === 'srcTxPrestate') {
+                    return this.differ.getDiffFromSrcContractPrestate(this.srcContractAddress, parameters.targetBlock, srcBlock);
+                }
                 return this.differ.getDiffFromSrcContractTxs(this.srcContractAddress, parameters.targetBlock, srcBlock);
         }
     }
 
+    /**
+     * @returns the hash of the header of `blockNumber` that is stored in the relay contract, the zero hash if it was not added through addBlockHeader
+     */
+    async getBlockHash(blockNumber: number): Promise<string> {
+        if (!this.initialized) {
+            throw new InvalidStateError('ChainProxy is not initialized yet.');
+        } if (!this.relayContract) {
+            throw new ConfigError('No address for relayContract given.');
+        }
+
+        try {
+            return await this.relayContract.getBlockHash(blockNumber);
+        } catch (e) {
+            throw new RpcError(`Could not get the header of block ${blockNumber} from the relay contract.`, e);
+        }
+    }
+
     async getLatestBlockNumber(): Promise<BigNumber> {
         if (!this.initialized) {
-            logger.error('ChainProxy is not initialized yet.');
-            return BigNumber.from(-1);
+            throw new InvalidStateError('ChainProxy is not initialized yet.');
         } if (!this.relayContract) {
-            logger.error('No address for relayContract given.');
-            return BigNumber.from(-1);
+            throw new ConfigError('No address for relayContract given.');
         }
 
         return this.relayContract.getLatestBlockNumber();
@@ -504,11 +1546,9 @@ export class ChainProxy {
 
     async getCurrentBlockNumber(): Promise<BigNumber> {
         if (!this.initialized) {
-            logger.error('ChainProxy is not initialized yet.');
-            return BigNumber.from(-1);
+            throw new InvalidStateError('ChainProxy is not initialized yet.');
         } if (!this.relayContract) {
-            logger.error('No address for relayContract given.');
-            return BigNumber.from(-1);
+            throw new ConfigError('No address for relayContract given.');
         }
 
         const currNr = await this.relayContract.getCurrentBlockNumber(this.proxyContract.address);
@@ -516,12 +1556,27 @@ export class ChainProxy {
         return currNr;
     }
 
+    /**
+     * @returns the price per gas that txs on the target chain pay according to the configured fee strategy
+     */
+    async getGasPrice(): Promise<BigNumber> {
+        return this.feeStrategy.gasPrice();
+    }
+
     async getBlockNumber(number: BigNumberish, provider: 'target' | 'src' = 'src'): Promise<number> {
         switch (provider) {
             case 'target':
                 return toBlockNumber(number, this.targetProvider);
             default:
-                return toBlockNumber(number, this.srcProvider);
+                return this.toSrcBlockNumber(number);
         }
     }
+
+    /**
+     * `toBlockNumber` for the source chain that honours the finality policy of `srcRPCConfig`
+     * @throws ConfigError if `block` is a block number that is not final yet
+     */
+    private async toSrcBlockNumber(block: BigNumberish): Promise<number> {
+        return toFinalBlockNumber(block, this.srcProvider, this.srcFinality);
+    }
 }
@@ -0,0 +1,106 @@
+import * as readline from 'readline';
+import { Writable } from 'stream';
+import FileHandler from '../utils/fileHandler';
+import { ConfigError } from '../errors';
+import { TxContractInteractionOptions } from './types';
+
+export const DEFAULT_PASSWORD_ENV = 'SMART_SYNC_PASSWORD';
+
+/**
+ * @returns true if the configured target account is a keystore that has no password of its own
+ */
+export function needsPassword(options: TxContractInteractionOptions): boolean {
+    const signer = options.targetSigner;
+    if (!signer) return options.targetAccountEncryptedJson !== undefined;
+    return (signer.type === 'encryptedJson' || signer.type === 'keystoreDir') && signer.password === undefined;
+}
+
+/**
+ * @returns the keystore file of the configured target account, or its keystore directory together with its address, undefined if the account is no keystore
+ */
+export function keystoreOf(options: TxContractInteractionOptions): string | undefined {
+    const signer = options.targetSigner;
+    if (!signer) return options.targetAccountEncryptedJson;
+    if (signer.type === 'encryptedJson') return signer.path;
+    if (signer.type === 'keystoreDir') return `${signer.dir} (${signer.address.toLowerCase()})`;
+    return undefined;
+}
+
+/**
+ * @throws ConfigError if a password is given as plain text without --insecure-password
+ */
+export function checkPlainTextPasswords(options: TxContractInteractionOptions) {
+    if (options.insecurePassword) return;
+    const signer = options.targetSigner;
+    const signerPassword = signer && (signer.type === 'encryptedJson' || signer.type === 'keystoreDir') ? signer.password : undefined;
+    if (options.targetAccountPassword !== undefined || signerPassword !== undefined) {
+        throw new ConfigError(`Refusing a password given as command line argument or config value since it ends up in the shell history, process list or config file. Use --password-file, ${options.passwordEnv ?? DEFAULT_PASSWORD_ENV}, --password-stdin or the prompt instead, or pass --insecure-password.`);
+    }
+}
+
+function readStdin(): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let input = '';
+        process.stdin.setEncoding('utf8');
+        process.stdin.on('data', (chunk) => { input += chunk; });
+        process.stdin.on('end', () => resolve(input));
+        process.stdin.on('error', reject);
+    });
+}
+
+/**
+ * Reads a line from the terminal without echoing it.
+ */
+function promptHidden(question: string): Promise<string> {
+    let muted = false;
+    const output = new Writable({
+        write: (chunk, encoding, callback) => {
+            if (!muted) process.stderr.write(chunk, encoding);
+            callback();
+        },
+    });
+    const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+    return new Promise((resolve, reject) => {
+        rl.on('SIGINT', () => {
+            rl.close();
+            process.stderr.write('\n');
+            reject(new ConfigError('The password prompt was cancelled.'));
+        });
+        rl.question(question, (answer) => {
+            rl.close();
+            process.stderr.write('\n');
+            resolve(answer);
+        });
+        // the question itself is written synchronously, everything typed afterwards is hidden
+        muted = true;
+    });
+}
+
+/**
+ * Looks the password of the target account up in --password-file, --password-stdin, the password environment variable
+ * and finally asks for it on the terminal. Plain text passwords are only used with --insecure-password.
+ * @param account how the account is named in the prompt
+ * @returns the password or undefined if the target account needs none
+ * @throws ConfigError if a password is needed but none is given or if a plain text password is refused
+ */
+export async function resolvePassword(options: TxContractInteractionOptions, account = 'the target account'): Promise<string | undefined> {
+    checkPlainTextPasswords(options);
+    if (!needsPassword(options)) return undefined;
+    if (options.targetAccountPassword !== undefined) return options.targetAccountPassword;
+    if (options.passwordFile) {
+        const content = new FileHandler(options.passwordFile).read();
+        if (content === undefined) {
+            throw new ConfigError(`Could not read the password from ${options.passwordFile}.`);
+        }
+        return content.replace(/\r?\n$/, '');
+    }
+    if (options.passwordStdin) {
+        return (await readStdin()).replace(/\r?\n$/, '');
+    }
+    const envPassword = process.env[options.passwordEnv ?? DEFAULT_PASSWORD_ENV];
+    if (envPassword !== undefined) return envPassword;
+    if (process.stdin.isTTY) {
+        return promptHidden(`Password of ${account}: `);
+    }
+    throw new ConfigError(`No password given to decrypt the target account. Use --password-file, ${options.passwordEnv ?? DEFAULT_PASSWORD_ENV}, --password-stdin or run the command in a terminal.`);
+}
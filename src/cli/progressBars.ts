@@ -0,0 +1,40 @@
+import * as CliProgress from 'cli-progress';
+import { DiffHandlerEvents } from '../diffHandler/Types';
+import TypedEventEmitter, { ProgressEvent, ProgressTask } from '../utils/typedEventEmitter';
+import { logger } from '../utils/logger';
+import { isDebug } from '../utils/utils';
+
+/**
+ * Renders the `progress` events of a ChainProxy or FanOutSync as progress bars on the terminal.
+ * Nothing is rendered in debug mode since the bars would be interleaved with the log output.
+ */
+class ProgressBars {
+    private readonly bars = new Map<ProgressTask, CliProgress.SingleBar>();
+
+    subscribe(events: TypedEventEmitter<DiffHandlerEvents>) {
+        if (isDebug(logger.settings.minLevel)) return;
+        events.on('progress', (event) => this.update(event));
+    }
+
+    stopAll() {
+        this.bars.forEach((bar) => bar.stop());
+        this.bars.clear();
+    }
+
+    private update({ task, done, total }: ProgressEvent) {
+        let bar = this.bars.get(task);
+        if (!bar) {
+            bar = new CliProgress.SingleBar({}, CliProgress.Presets.shades_classic);
+            bar.start(total, done);
+            this.bars.set(task, bar);
+        } else {
+            bar.update(done);
+        }
+        if (done >= total) {
+            bar.stop();
+            this.bars.delete(task);
+        }
+    }
+}
+
+export default ProgressBars;
@@ -1,49 +1,64 @@
 #!/usr/bin/env node
 
 import { BigNumber } from '@ethersproject/bignumber';
+import { JsonRpcProvider } from '@ethersproject/providers';
 import { ConnectionInfo } from '@ethersproject/web';
+import { ethers, Signer } from 'ethers';
 import { Command, Option } from 'commander';
-import { TLogLevelName } from 'tslog';
 import * as CRON from 'node-cron';
 import { SIGTERM } from 'constants';
-import * as CliProgress from 'cli-progress';
 import {
-    ChainProxy, ContractAddressMap, RPCConfig, GetDiffMethod,
+    ChainProxy, ContractAddressMap, RPCConfig, GetDiffMethod, DIFF_METHODS, SRC_TX_DIFF_METHODS, RELAY_MODES, RelayMode, DEFAULT_REORG_CHECK_DEPTH,
 } from '../chain-proxy';
+import FanOutSync, { SyncTarget, TargetSyncResult } from '../fan-out-sync';
 import FileHandler from '../utils/fileHandler';
+import MigrationJournal from '../utils/migrationJournal';
+import DeploymentManifest from '../utils/deploymentManifest';
+import SyncPatch from '../utils/syncPatch';
 import { logger } from '../utils/logger';
-import { isDebug, toBlockNumber } from '../utils/utils';
+import { toBlockNumber } from '../utils/utils';
+import { Finality, parseFinality } from '../utils/finality';
+import { DEFAULT_MAX_IN_FLIGHT_TXS } from '../utils/nonceManager';
+import { FEE_STRATEGIES, FeeConfig, FeeStrategyName } from '../utils/feeStrategy';
+import { DEFAULT_STUCK_TX_TIMEOUT, TxReplacement } from '../utils/txWatchdog';
 import { version as appVersion } from '../../package.json';
+import { ConfigTypish, TxContractInteractionOptions } from './types';
+import ProgressBars from './progressBars';
+import {
+    createDiffReport, DIFF_OUTPUT_FORMATS, DIFF_REPORT_VERSION, DiffOutputFormat, formatDiffReport,
+} from '../diffHandler/DiffReport';
+import StorageLayoutDecoder, { createStorageReader, DEFAULT_MAX_ELEMENTS } from '../storageLayout/StorageLayoutDecoder';
+import { loadMappingKeys, loadStorageLayout } from '../storageLayout/StorageLayoutLoader';
+import { DecodedChange } from '../storageLayout/Types';
+import { createSigner } from '../signerHandler/SignerFactory';
+import {
+    checkPlainTextPasswords, DEFAULT_PASSWORD_ENV, keystoreOf, needsPassword, resolvePassword,
+} from './password';
+import {
+    ConfigError, GasLimitExceededError, InvalidStateError, PatchIntegrityError, ProofConstructionError, ReorgError, RpcCapabilityError, RpcError, SmartSyncError, StuckTxError, TargetTxRevertedError, VerificationError,
+} from '../errors';
 
 const DEFAULT_CONFIG_FILE_PATH = `${__dirname}/../../config/cli-config.json`;
 const program = new Command();
+const progressBars = new ProgressBars();
 
-interface GeneralOptions {
-    srcChainRpcUrl: string;
-    targetChainRpcUrl: string;
-    connectionTimeout?: string;
-    logLevel?: TLogLevelName;
-    srcBlocknr?: string;
-    targetBlocknr?: string;
-    configFile: string;
-}
-
-interface ViewContractInteractionOptions extends GeneralOptions {
-    relayContractAddress: string;
-}
-
-export interface TxContractInteractionOptions extends ViewContractInteractionOptions {
-    diffMode?: string;
-    gasLimit?: string;
-    batchSize?: string;
-    batchPerSynch?: string;
-    targetAccountEncryptedJson?: string;
-    targetAccountPassword?: string;
-    blockBatchSize?: string;
-    keyValuePairPerBatch?: string;
-}
-
-export type ConfigTypish = GeneralOptions | TxContractInteractionOptions | ViewContractInteractionOptions;
+/**
+ * Exit code per error class, subclasses are listed before their base classes. Other errors exit with 1.
+ */
+const EXIT_CODES: Array<[Function, number]> = [
+    [ConfigError, 2],
+    [RpcCapabilityError, 4],
+    [RpcError, 3],
+    [ProofConstructionError, 5],
+    [TargetTxRevertedError, 6],
+    [GasLimitExceededError, 7],
+    [VerificationError, 8],
+    [InvalidStateError, 9],
+    [ReorgError, 11],
+    [PatchIntegrityError, 12],
+    [StuckTxError, 13],
+    [SmartSyncError, 10],
+];
 
 // get options from config to insert them as default
 const fileHandler = new FileHandler(DEFAULT_CONFIG_FILE_PATH);
@@ -80,13 +95,116 @@ function overrideFileOptions<T>(filePath: string, options: ConfigTypish): T {
     const fh = new FileHandler(filePath);
     const newOptions: T | undefined = fh.getJSON<T>();
     if (!newOptions) {
-        logger.fatal(`Given filepath ${filePath} does not lead to a config file.`);
-        process.exit(-1);
+        throw new ConfigError(`Given filepath ${filePath} does not lead to a config file.`);
     }
 
     return Object.assign(newOptions, options) as T;
 }
 
+/**
+ * @param filePath path to the deployment manifest given through --manifest
+ * @returns the manifest
+ * @throws ConfigError if the manifest could not be loaded
+ */
+function loadManifest(filePath: string): DeploymentManifest {
+    const manifest = DeploymentManifest.load(filePath);
+    if (!manifest) {
+        throw new ConfigError(`Could not load deployment manifest from ${filePath}.`);
+    }
+    return manifest;
+}
+
+/**
+ * @param proxyContract proxy contract address given as argument
+ * @param manifest deployment manifest given through --manifest
+ * @returns the given proxy contract address or the one of the manifest
+ * @throws ConfigError if neither was given
+ */
+function resolveProxyContract(proxyContract: string | undefined, manifest: DeploymentManifest | undefined): string {
+    const proxyContractAddress = proxyContract ?? manifest?.data.proxyContract;
+    if (!proxyContractAddress) {
+        throw new ConfigError('No proxy contract address given. Pass it as argument or use --manifest.');
+    }
+    return proxyContractAddress;
+}
+
+/**
+ * @param options options of a command that sends txs to the target chain
+ * @param targetConnectionInfo connection to the target chain, only used to look up its chain id in `targetChainFees`
+ * @returns the entry of `targetChainFees` for the target chain, overridden by --fee-strategy and --max-gas-price
+ */
+async function resolveFeeConfig(options: TxContractInteractionOptions, targetConnectionInfo: ConnectionInfo): Promise<FeeConfig> {
+    let feeConfig: FeeConfig = {};
+    if (options.targetChainFees) {
+        let chainId: number;
+        try {
+            ({ chainId } = await new JsonRpcProvider(targetConnectionInfo).getNetwork());
+        } catch (e) {
+            throw new RpcError(`Could not get the chain id of ${targetConnectionInfo.url}.`, e);
+        }
+        feeConfig = { ...options.targetChainFees[chainId.toString()] };
+    }
+    if (options.feeStrategy) feeConfig.strategy = options.feeStrategy as FeeStrategyName;
+    if (options.maxGasPrice) feeConfig.maxGasPrice = options.maxGasPrice;
+    return feeConfig;
+}
+
+/**
+ * @returns the finality policy of --confirmations, undefined if it is not given
+ * @throws ConfigError if --confirmations is neither an amount of confirmations nor a finality tag
+ */
+function finalityOf(options: TxContractInteractionOptions): Finality | undefined {
+    return options.confirmations !== undefined ? parseFinality(options.confirmations) : undefined;
+}
+
+/**
+ * @returns whether --diff-mode determines the changes from the txs of a block range, see `SRC_TX_DIFF_METHODS`
+ */
+function usesSrcTxs(options: TxContractInteractionOptions): boolean {
+    return SRC_TX_DIFF_METHODS.indexOf((options.diffMode ?? 'srcTx') as GetDiffMethod) > -1;
+}
+
+/**
+ * @returns the decoder of the storage layout given by --layout, --contract and --mapping-keys, undefined without --layout
+ * @throws ConfigError if the files contain no storage layout or mapping keys
+ */
+function storageLayoutDecoderOf(options: TxContractInteractionOptions): StorageLayoutDecoder | undefined {
+    if (!options.layout) return undefined;
+    return new StorageLayoutDecoder(loadStorageLayout(options.layout, options.contract), options.mappingKeys ? loadMappingKeys(options.mappingKeys) : []);
+}
+
+/**
+ * Records the replacements of stuck txs sent by `chainProxy`.
+ * @returns a function that prints the recorded replacement chains and forgets them
+ */
+function recordReplacements(chainProxy: ChainProxy): () => void {
+    const replacements = new Map<number, TxReplacement>();
+    chainProxy.events.on('txReplaced', (replacement) => replacements.set(replacement.nonce, replacement));
+    return () => {
+        replacements.forEach(({
+            description, nonce, replacedTxs, txHash,
+        }) => logger.info(`Replaced stuck ${description} tx with nonce ${nonce}: ${[...replacedTxs, txHash].join(' -> ')}`));
+        replacements.clear();
+    };
+}
+
+/**
+ * @throws ConfigError if the chains of the chain proxy do not match the chains the manifest was written for
+ */
+async function checkManifestChains(manifest: DeploymentManifest | undefined, chainProxy: ChainProxy) {
+    if (manifest && !(await manifest.matchesChains(chainProxy.srcProvider, chainProxy.targetProvider))) {
+        throw new ConfigError('The deployment manifest does not match the connected chains.');
+    }
+}
+
+/**
+ * @returns the exit code of the CLI for the given error
+ */
+function exitCodeOf(error: unknown): number {
+    const exitCode = EXIT_CODES.find(([errorClass]) => error instanceof errorClass);
+    return exitCode ? exitCode[1] : 1;
+}
+
 // general information
 program
     .version(appVersion)
@@ -98,37 +216,60 @@ continuousSynch = commonOptions(continuousSynch);
 continuousSynch
     .alias('c')
     .description('Periodically synch state updates.')
-    .argument('<proxy_contract_address>')
-    .argument('<period>', 'Define the updating period. Be sure to pass the period within " (Example: "*/2 * * * *"). The crontab syntax is based on the GNU crontab syntax. For information visit https://www.npmjs.com/package/node-cron.')
+    .argument('[proxy_contract_address]', 'can be omitted when using --manifest')
+    .argument('[period]', 'Define the updating period. Be sure to pass the period within " (Example: "*/2 * * * *"). The crontab syntax is based on the GNU crontab syntax. For information visit https://www.npmjs.com/package/node-cron.')
     .option('--gas-limit <limit>')
+    .option('--gas-safety-margin <share>', 'Share of the target block gas limit that is kept free and added on top of gas estimations', '0.2')
     .addOption(
-        new Option('--diff-mode <mode>', 'Diff function to use. When using storage, option --src-BlockNr equals block on srcChain and --target-BlockNr block on targetChain. When using srcTx --src-BlockNr describes block from where to replay tx until --target-blockNr.')
-            .choices(['storage', 'srcTx', 'getProof'])
+        new Option('--fee-strategy <strategy>', 'How the fees of txs on the target chain are chosen, overrides the strategy of targetChainFees in the config file')
+            .choices(FEE_STRATEGIES),
+    )
+    .option('--max-gas-price <wei>', 'Highest price per gas that is paid on the target chain, sending is deferred while the fees are higher')
+    .option('--stuck-tx-timeout <ms>', 'Time after which a tx on the target chain that was not mined is replaced by one with higher fees', DEFAULT_STUCK_TX_TIMEOUT.toString())
+    .addOption(
+        new Option('--relay-mode <mode>', 'How blocks of the source chain are added to the relay contract. With header, the relay contract derives the state root from the block header and checks its link to the previous header')
+            .choices(RELAY_MODES)
+            .default('stateRoot'),
+    )
+    .addOption(
+        new Option('--diff-mode <mode>', 'Diff function to use. When using storage, option --src-BlockNr equals block on srcChain and --target-BlockNr block on targetChain. When using srcTx --src-BlockNr describes block from where to replay tx until --target-blockNr. srcTxBlock works like srcTx, but replays all txs of a block at once. srcTxPrestate works like srcTx, but traces every block of the range with debug_traceBlockByNumber, which Geth-compatible nodes provide, i.e. one request per block whether it has txs to the source contract or not.')
+            .choices(DIFF_METHODS)
             .default('srcTx'),
     )
     .option('--target-blocknr <number>', 'see --diff-mode for further explanation')
+    .option('--confirmations <n>', 'Only use blocks of the source chain with at least n confirmations, or with finalized or safe the blocks that the node reports as such. latest refers to the newest of these blocks')
+    .option('--key-index <file_path>', 'File of an index of all storage keys that the source contract ever wrote, built by tracing its txs and updated by every synchronization. Without trace_replayBlockTransactions, the first build traces every block since the deployment of the contract. Used instead of listing the keys through the source node, which most nodes do not support')
     .option('-b, --batch-size <number>', 'Define how many blocks/txs should be pulled at once', '50')
     .option('--block-batch-size <number>', 'Block counter how many blocks should be synched at once', Number.MAX_SAFE_INTEGER.toString())
     .option('--target-account-encrypted-json <file_path>', 'Encrypted json file path of account to use at target chain to sign txs')
-    .option('--target-account-password <target_account_password', 'Password to decrypt account json file')
-    .action(async (proxyContract: string, period: string, options: TxContractInteractionOptions) => {
-        if (!CRON.validate(period)) {
-            logger.error(`No valid period given (${period}). See --help for more information (description of argument period)`);
-            process.exit(-1);
+    .option('--target-account-password <target_account_password', 'Password to decrypt account json file, only used together with --insecure-password')
+    .option('--password-file <file_path>', 'File that holds the password to decrypt the target account')
+    .option('--password-env <name>', 'Environment variable that holds the password to decrypt the target account', DEFAULT_PASSWORD_ENV)
+    .option('--password-stdin', 'Read the password to decrypt the target account from stdin')
+    .option('--insecure-password', 'Accept the password as command line argument or config value')
+    .option('--dry-run', 'Print the txs that would be sent together with their estimated gas and cost without signing anything')
+    .option('--manifest <file_path>', 'Deployment manifest written by fork, used instead of the contract address arguments')
+    .action(async (proxyContractArg: string | undefined, periodArg: string | undefined, options: TxContractInteractionOptions) => {
+        const manifest = options.manifest ? loadManifest(options.manifest) : undefined;
+        // with a manifest, the only argument is the period
+        const [proxyContract, period] = manifest && periodArg === undefined ? [undefined, proxyContractArg] : [proxyContractArg, periodArg];
+        if (!period || !CRON.validate(period)) {
+            throw new ConfigError(`No valid period given (${period}). See --help for more information (description of argument period)`);
         }
         let adjustedOptions = options;
         // override options here if config file was added
         if (adjustedOptions.configFile) {
             adjustedOptions = overrideFileOptions<TxContractInteractionOptions>(adjustedOptions.configFile, adjustedOptions);
         }
-        if (!adjustedOptions.targetAccountEncryptedJson || !adjustedOptions.targetAccountPassword) {
-            logger.error('No target account given for signing txs.');
-            process.exit(-1);
+        if (!adjustedOptions.dryRun && !adjustedOptions.targetSigner && !adjustedOptions.targetAccountEncryptedJson) {
+            throw new ConfigError('No target account given for signing txs.');
         }
+        // a dry run signs nothing, so the keystore is not decrypted
+        const targetAccountPassword = adjustedOptions.dryRun ? undefined : await resolvePassword(adjustedOptions);
         logger.setSettings({ minLevel: adjustedOptions.logLevel });
 
         const contractAddressMap: ContractAddressMap = {
-            proxyContract,
+            proxyContract: resolveProxyContract(proxyContract, manifest),
         };
         const srcConnectionInfo: ConnectionInfo = {
             url: adjustedOptions.srcChainRpcUrl,
@@ -140,22 +281,33 @@ continuousSynch
         };
         const targetRPCConfig: RPCConfig = {
             gasLimit: adjustedOptions.gasLimit,
+            gasSafetyMargin: adjustedOptions.gasSafetyMargin !== undefined ? parseFloat(adjustedOptions.gasSafetyMargin) : undefined,
+            fees: await resolveFeeConfig(adjustedOptions, targetConnectionInfo),
+            stuckTxTimeout: adjustedOptions.stuckTxTimeout ? BigNumber.from(adjustedOptions.stuckTxTimeout).toNumber() : undefined,
+            relayMode: adjustedOptions.relayMode as RelayMode,
             blockNr: adjustedOptions.targetBlocknr,
+            signer: adjustedOptions.targetSigner,
             targetAccountEncryptedJsonPath: adjustedOptions.targetAccountEncryptedJson,
-            targetAccountPassword: adjustedOptions.targetAccountPassword,
+            targetAccountPassword,
+            dryRun: adjustedOptions.dryRun,
         };
         const srcRPCConfig: RPCConfig = {
             blockNr: adjustedOptions.srcBlocknr,
+            finality: finalityOf(adjustedOptions),
+            keyIndex: adjustedOptions.keyIndex,
         };
         const batchSize = adjustedOptions.batchSize ? BigNumber.from(adjustedOptions.batchSize).toNumber() : 50;
         const blockBatchSize = adjustedOptions.blockBatchSize ? BigNumber.from(adjustedOptions.blockBatchSize) : BigNumber.from(Number.MAX_SAFE_INTEGER.toString());
 
         const chainProxy = new ChainProxy(contractAddressMap, srcConnectionInfo, srcRPCConfig, targetConnectionInfo, targetRPCConfig, batchSize);
+        progressBars.subscribe(chainProxy.events);
+        const printReplacements = recordReplacements(chainProxy);
+        await checkManifestChains(manifest, chainProxy);
         await chainProxy.init();
 
-        adjustedOptions.srcBlocknr = adjustedOptions.srcBlocknr !== undefined ? BigNumber.from(await toBlockNumber(adjustedOptions.srcBlocknr, chainProxy.srcProvider)).toString() : (await chainProxy.getCurrentBlockNumber()).add(1).toString();
-        if (adjustedOptions.diffMode === 'srcTx') {
-            adjustedOptions.targetBlocknr = adjustedOptions.targetBlocknr !== undefined ? BigNumber.from(await toBlockNumber(adjustedOptions.targetBlocknr, chainProxy.srcProvider)).toString() : BigNumber.from(await toBlockNumber('latest', chainProxy.srcProvider)).toString();
+        adjustedOptions.srcBlocknr = adjustedOptions.srcBlocknr !== undefined ? BigNumber.from(await chainProxy.getBlockNumber(adjustedOptions.srcBlocknr)).toString() : (await chainProxy.getCurrentBlockNumber()).add(1).toString();
+        if (usesSrcTxs(adjustedOptions)) {
+            adjustedOptions.targetBlocknr = adjustedOptions.targetBlocknr !== undefined ? BigNumber.from(await chainProxy.getBlockNumber(adjustedOptions.targetBlocknr)).toString() : BigNumber.from(await chainProxy.getBlockNumber('latest')).toString();
         } else {
             adjustedOptions.targetBlocknr = adjustedOptions.targetBlocknr !== undefined ? BigNumber.from(await toBlockNumber(adjustedOptions.targetBlocknr, chainProxy.targetProvider)).toString() : BigNumber.from(await toBlockNumber('latest', chainProxy.targetProvider)).toString();
         }
@@ -167,40 +319,37 @@ continuousSynch
             }
         });
 
-        // todo adjust batches according to gas estimation and gas-limit
+        let synching = false;
         CRON.schedule(period, async () => {
-            // do synch
-            let srcBlock = adjustedOptions.diffMode !== 'srcTx' ? BigNumber.from(1) : BigNumber.from(adjustedOptions.srcBlocknr);
-            const targetBlock = adjustedOptions.diffMode !== 'srcTx' ? BigNumber.from(2) : BigNumber.from(adjustedOptions.targetBlocknr);
-            let batchProgress: CliProgress.SingleBar | undefined;
-            if (!isDebug(logger.settings.minLevel)) {
-                batchProgress = new CliProgress.SingleBar({}, CliProgress.Presets.shades_classic);
-                batchProgress.start(targetBlock.sub(srcBlock).toNumber(), 0);
+            // a period that is still waiting for its txs would otherwise be synchronized a second time
+            if (synching) {
+                logger.warn('The synchronization of the previous period is still running, skipping this period.');
+                return;
             }
-            do {
-                // eslint-disable-next-line no-await-in-loop
-                const changedKeys = await chainProxy.getDiff((adjustedOptions.diffMode ?? 'srcTx') as GetDiffMethod, { srcBlock: adjustedOptions.srcBlocknr, targetBlock: adjustedOptions.targetBlocknr });
-                if (!changedKeys) {
-                    logger.error('Could not get changed keys');
+            synching = true;
+            // a failed period is retried with the same blocks in the next period
+            try {
+                if (adjustedOptions.dryRun) {
+                    // nothing is sent, so every period plans the synchronization from the same block on
+                    const plan = await chainProxy.planSynchronize((adjustedOptions.diffMode ?? 'srcTx') as GetDiffMethod, { srcBlock: adjustedOptions.srcBlocknr, targetBlock: 'latest' }, blockBatchSize.toNumber());
+                    await plan.print(await chainProxy.getGasPrice());
                     return;
                 }
 
-                // eslint-disable-next-line no-await-in-loop
-                const synchronized = await chainProxy.migrateChangesToProxy(changedKeys.getKeys(), changedKeys.fromKeys, (adjustedOptions.diffMode === 'srcTx') ? adjustedOptions.targetBlocknr : adjustedOptions.srcBlocknr);
-                if (synchronized) {
-                    logger.info('Synchronization of the following keys successful:', changedKeys.getKeys());
-                } else {
-                    logger.error('Could not synch changes.');
-                }
-                const synchronizedBlockAmount = blockBatchSize.gt(targetBlock.sub(srcBlock)) ? targetBlock.sub(srcBlock).toNumber() : blockBatchSize.toNumber();
-                batchProgress?.increment(synchronizedBlockAmount);
-                srcBlock = srcBlock.add(synchronizedBlockAmount);
-            } while (adjustedOptions.diffMode !== 'srcTx' && targetBlock.gt(srcBlock));
-            batchProgress?.stop();
-
-            // update compared blocks
-            adjustedOptions.srcBlocknr = adjustedOptions.diffMode === 'srcTx' ? (await chainProxy.getCurrentBlockNumber()).add(1).toString() : 'latest';
-            adjustedOptions.targetBlocknr = adjustedOptions.diffMode === 'srcTx' ? BigNumber.from(await toBlockNumber('latest', chainProxy.srcProvider)).toString() : 'latest';
+                // do synch
+                await chainProxy.synchronize((adjustedOptions.diffMode ?? 'srcTx') as GetDiffMethod, { srcBlock: adjustedOptions.srcBlocknr, targetBlock: adjustedOptions.targetBlocknr }, blockBatchSize.toNumber());
+                logger.info('Synchronization successful.');
+                printReplacements();
+
+                // update compared blocks
+                adjustedOptions.srcBlocknr = usesSrcTxs(adjustedOptions) ? (await chainProxy.getCurrentBlockNumber()).add(1).toString() : 'latest';
+                adjustedOptions.targetBlocknr = usesSrcTxs(adjustedOptions) ? BigNumber.from(await chainProxy.getBlockNumber('latest')).toString() : 'latest';
+            } catch (e) {
+                printReplacements();
+                logger.error(`Could not synch changes: ${e instanceof Error ? e.message : e}`);
+            } finally {
+                synching = false;
+            }
         });
     });
 
@@ -210,25 +359,70 @@ fork = commonOptions(fork);
 fork
     .alias('f')
     .description('Migrates a given contract address to a target chain and deploys a proxy contract. If no relay contract is provided, a relay contract will be deployed too.')
-    .arguments('<src_contract_address> [relay_contract_address]')
+    .arguments('[src_contract_address] [relay_contract_address]')
     .option('--gas-limit <limit>', 'gas limit for tx on target chain')
+    .option('--gas-safety-margin <share>', 'Share of the target block gas limit that is kept free and added on top of gas estimations', '0.2')
+    .addOption(
+        new Option('--fee-strategy <strategy>', 'How the fees of txs on the target chain are chosen, overrides the strategy of targetChainFees in the config file')
+            .choices(FEE_STRATEGIES),
+    )
+    .option('--max-gas-price <wei>', 'Highest price per gas that is paid on the target chain, sending is deferred while the fees are higher')
+    .option('--stuck-tx-timeout <ms>', 'Time after which a tx on the target chain that was not mined is replaced by one with higher fees', DEFAULT_STUCK_TX_TIMEOUT.toString())
+    .addOption(
+        new Option('--relay-mode <mode>', 'How blocks of the source chain are added to the relay contract. With header, the relay contract derives the state root from the block header and checks its link to the previous header')
+            .choices(RELAY_MODES)
+            .default('stateRoot'),
+    )
+    .option('--confirmations <n>', 'Only use blocks of the source chain with at least n confirmations, or with finalized or safe the blocks that the node reports as such. latest refers to the newest of these blocks')
+    .option('--key-index <file_path>', 'File of an index of all storage keys that the source contract ever wrote, built by tracing its txs and updated by every synchronization. Without trace_replayBlockTransactions, the first build traces every block since the deployment of the contract. Used instead of listing the keys through the source node, which most nodes do not support')
+    .option('--key-value-pair-per-batch <number>', 'Maximum amount of key/value pairs per storage batch. By default, batches are sized according to gas estimations')
+    .option('--max-in-flight-txs <number>', 'Maximum amount of storage batches that are sent but not yet mined at once', DEFAULT_MAX_IN_FLIGHT_TXS.toString())
     .option('--target-account-encrypted-json <file_path>', 'Encrypted json file path of account to use at target chain to sign txs')
-    .option('--target-account-password <target_account_password', 'Password to decrypt account json file')
-    .action(async (srcContract: string, relayContractAddress: string | undefined, options: TxContractInteractionOptions) => {
+    .option('--target-account-password <target_account_password', 'Password to decrypt account json file, only used together with --insecure-password')
+    .option('--password-file <file_path>', 'File that holds the password to decrypt the target account')
+    .option('--password-env <name>', 'Environment variable that holds the password to decrypt the target account', DEFAULT_PASSWORD_ENV)
+    .option('--password-stdin', 'Read the password to decrypt the target account from stdin')
+    .option('--insecure-password', 'Accept the password as command line argument or config value')
+    .option('--dry-run', 'Print the txs that would be sent together with their estimated gas and cost without signing anything')
+    .option('--journal <file_path>', 'Where to write the journal of the migration steps (default: ./<src_contract_address>.journal.json)')
+    .option('--resume <file_path>', 'Resume an interrupted migration from the given journal instead of starting a new one')
+    .option('--manifest <file_path>', 'Where to write the deployment manifest of the fork (default: ./<src_contract_address>.manifest.json)')
+    .action(async (srcContract: string | undefined, relayContractAddress: string | undefined, options: TxContractInteractionOptions) => {
         let adjustedOptions = options;
         // override options here if config file was added
         if (adjustedOptions.configFile) {
             adjustedOptions = overrideFileOptions<TxContractInteractionOptions>(adjustedOptions.configFile, adjustedOptions);
         }
-        if (!adjustedOptions.targetAccountEncryptedJson || !adjustedOptions.targetAccountPassword) {
-            logger.error('No target account given for signing txs.');
-            process.exit(-1);
+        if (!adjustedOptions.dryRun && !adjustedOptions.targetSigner && !adjustedOptions.targetAccountEncryptedJson) {
+            throw new ConfigError('No target account given for signing txs.');
         }
+        // a dry run signs nothing, so the keystore is not decrypted
+        const targetAccountPassword = adjustedOptions.dryRun ? undefined : await resolvePassword(adjustedOptions);
         logger.setSettings({ minLevel: adjustedOptions.logLevel });
 
+        if (adjustedOptions.dryRun && adjustedOptions.resume) {
+            throw new ConfigError('The option --dry-run is not supported together with --resume.');
+        }
+
+        let journal: MigrationJournal | undefined;
+        if (adjustedOptions.resume) {
+            journal = MigrationJournal.load(adjustedOptions.resume);
+            if (!journal) {
+                throw new ConfigError(`Could not load migration journal from ${adjustedOptions.resume}.`);
+            }
+            if (srcContract && srcContract.toLowerCase() !== journal.data.srcContract.toLowerCase()) {
+                throw new ConfigError(`Given source contract ${srcContract} does not match ${journal.data.srcContract} of the journal.`);
+            }
+        } else if (!srcContract) {
+            throw new ConfigError('No source contract address given.');
+        } else if (!adjustedOptions.dryRun) {
+            journal = MigrationJournal.create(adjustedOptions.journal ?? `./${srcContract}.journal.json`, srcContract);
+            logger.info(`Writing migration journal to ${journal.filePath}`);
+        }
+
         const contractAddressMap: ContractAddressMap = {
-            srcContract,
-            relayContract: relayContractAddress || adjustedOptions.relayContractAddress,
+            srcContract: journal?.data.srcContract ?? srcContract,
+            relayContract: relayContractAddress || journal?.data.relayContract || adjustedOptions.relayContractAddress,
         };
         const srcConnectionInfo: ConnectionInfo = {
             url: adjustedOptions.srcChainRpcUrl,
@@ -240,21 +434,51 @@ fork
         };
         const targetRPCConfig: RPCConfig = {
             gasLimit: adjustedOptions.gasLimit,
+            gasSafetyMargin: adjustedOptions.gasSafetyMargin !== undefined ? parseFloat(adjustedOptions.gasSafetyMargin) : undefined,
+            fees: await resolveFeeConfig(adjustedOptions, targetConnectionInfo),
+            stuckTxTimeout: adjustedOptions.stuckTxTimeout ? BigNumber.from(adjustedOptions.stuckTxTimeout).toNumber() : undefined,
+            relayMode: adjustedOptions.relayMode as RelayMode,
+            maxInFlightTxs: adjustedOptions.maxInFlightTxs ? BigNumber.from(adjustedOptions.maxInFlightTxs).toNumber() : undefined,
             blockNr: adjustedOptions.targetBlocknr,
+            signer: adjustedOptions.targetSigner,
             targetAccountEncryptedJsonPath: adjustedOptions.targetAccountEncryptedJson,
-            targetAccountPassword: adjustedOptions.targetAccountPassword,
+            targetAccountPassword,
+            dryRun: adjustedOptions.dryRun,
         };
         const srcRPCConfig: RPCConfig = {
             blockNr: adjustedOptions.srcBlocknr,
+            finality: finalityOf(adjustedOptions),
+            keyIndex: adjustedOptions.keyIndex,
         };
         const chainProxy = new ChainProxy(contractAddressMap, srcConnectionInfo, srcRPCConfig, targetConnectionInfo, targetRPCConfig);
+        progressBars.subscribe(chainProxy.events);
+        const printReplacements = recordReplacements(chainProxy);
         await chainProxy.init();
-        // todo check for return value
-        const migrated = await chainProxy.migrateSrcContract(adjustedOptions.srcBlocknr, adjustedOptions.keyValuePairPerBatch ? BigNumber.from(adjustedOptions.keyValuePairPerBatch).toNumber() : undefined);
-        if (migrated) {
-            logger.info('Migration successfull.');
+        const keyValuePairPerBatch = adjustedOptions.keyValuePairPerBatch ? BigNumber.from(adjustedOptions.keyValuePairPerBatch).toNumber() : undefined;
+        if (!journal) {
+            const plan = await chainProxy.planMigration(adjustedOptions.srcBlocknr, keyValuePairPerBatch);
+            await plan.print(await chainProxy.getGasPrice());
+            return;
+        }
+        try {
+            if (adjustedOptions.resume) {
+                await chainProxy.resumeSrcContractMigration(journal, keyValuePairPerBatch);
+            } else {
+                await chainProxy.migrateSrcContract(adjustedOptions.srcBlocknr, keyValuePairPerBatch, journal);
+            }
+        } catch (e) {
+            printReplacements();
+            logger.info(`The migration can be continued with: smart-sync fork --resume ${journal.filePath}`);
+            throw e;
+        }
+        logger.info('Migration successfull.');
+        printReplacements();
+        const manifest = await DeploymentManifest.fromJournal(journal, chainProxy.srcProvider, chainProxy.targetProvider);
+        const manifestPath = adjustedOptions.manifest ?? `./${journal.data.srcContract}.manifest.json`;
+        if (manifest?.save(manifestPath)) {
+            logger.info(`Deployment manifest written to ${manifestPath}`);
         } else {
-            logger.error('Could not migrate source contract.');
+            logger.warn(`Could not write deployment manifest to ${manifestPath}.`);
         }
     });
 
@@ -263,8 +487,10 @@ migrationStatus = commonOptions(migrationStatus);
 migrationStatus
     .alias('status')
     .description('Checks if the storage root of the proxy contract equals the current storage root of the source contract in the relay contract on the target chain.')
-    .arguments('<proxy_contract_address>')
-    .action(async (proxyContractAddress: string, options: TxContractInteractionOptions) => {
+    .arguments('[proxy_contract_address]')
+    .option('--manifest <file_path>', 'Deployment manifest written by fork, used instead of the contract address arguments')
+    .action(async (proxyContractAddress: string | undefined, options: TxContractInteractionOptions) => {
+        const manifest = options.manifest ? loadManifest(options.manifest) : undefined;
         let adjustedOptions = options;
         // override options here if config file was added
         if (adjustedOptions.configFile) {
@@ -273,7 +499,7 @@ migrationStatus
         logger.setSettings({ minLevel: adjustedOptions.logLevel });
 
         const contractAddressMap: ContractAddressMap = {
-            proxyContract: proxyContractAddress,
+            proxyContract: resolveProxyContract(proxyContractAddress, manifest),
         };
         const srcConnectionInfo: ConnectionInfo = {
             url: adjustedOptions.srcChainRpcUrl,
@@ -285,14 +511,14 @@ migrationStatus
         };
         const targetRPCConfig: RPCConfig = {
             gasLimit: adjustedOptions.gasLimit,
+            gasSafetyMargin: adjustedOptions.gasSafetyMargin !== undefined ? parseFloat(adjustedOptions.gasSafetyMargin) : undefined,
             blockNr: adjustedOptions.targetBlocknr,
-            targetAccountEncryptedJsonPath: adjustedOptions.targetAccountEncryptedJson,
-            targetAccountPassword: adjustedOptions.targetAccountPassword,
         };
         const srcRPCConfig: RPCConfig = {
             blockNr: adjustedOptions.srcBlocknr,
         };
         const chainProxy = new ChainProxy(contractAddressMap, srcConnectionInfo, srcRPCConfig, targetConnectionInfo, targetRPCConfig);
+        await checkManifestChains(manifest, chainProxy);
         await chainProxy.init();
 
         logger.info(`migration-status: ${chainProxy.migrationState}`);
@@ -303,8 +529,10 @@ getCurrBlockNumber = commonOptions(getCurrBlockNumber);
 getCurrBlockNumber
     .alias('blocknr')
     .description('Get the synched block number of src chain for the provided proxy contract.')
-    .arguments('<proxy_contract_address>')
+    .arguments('[proxy_contract_address]')
+    .option('--manifest <file_path>', 'Deployment manifest written by fork, used instead of the contract address arguments')
     .action(async (proxyContractAddress: string | undefined, options: TxContractInteractionOptions) => {
+        const manifest = options.manifest ? loadManifest(options.manifest) : undefined;
         let adjustedOptions = options;
         // override options here if config file was added
         if (adjustedOptions.configFile) {
@@ -313,7 +541,7 @@ getCurrBlockNumber
         logger.setSettings({ minLevel: adjustedOptions.logLevel });
 
         const contractAddressMap: ContractAddressMap = {
-            proxyContract: proxyContractAddress,
+            proxyContract: resolveProxyContract(proxyContractAddress, manifest),
         };
         const srcConnectionInfo: ConnectionInfo = {
             url: adjustedOptions.srcChainRpcUrl,
@@ -325,14 +553,14 @@ getCurrBlockNumber
         };
         const targetRPCConfig: RPCConfig = {
             gasLimit: adjustedOptions.gasLimit,
+            gasSafetyMargin: adjustedOptions.gasSafetyMargin !== undefined ? parseFloat(adjustedOptions.gasSafetyMargin) : undefined,
             blockNr: adjustedOptions.targetBlocknr,
-            targetAccountEncryptedJsonPath: adjustedOptions.targetAccountEncryptedJson,
-            targetAccountPassword: adjustedOptions.targetAccountPassword,
         };
         const srcRPCConfig: RPCConfig = {
             blockNr: adjustedOptions.srcBlocknr,
         };
         const chainProxy = new ChainProxy(contractAddressMap, srcConnectionInfo, srcRPCConfig, targetConnectionInfo, targetRPCConfig);
+        await checkManifestChains(manifest, chainProxy);
         await chainProxy.init();
         const latestBlockNumber = await chainProxy.getCurrentBlockNumber();
         logger.info(`Current synched block number: ${latestBlockNumber.toNumber()}`);
@@ -342,22 +570,50 @@ let stateDiff = program.command('state-diff') as Command;
 stateDiff = commonOptions(stateDiff);
 stateDiff
     .alias('diff')
-    .arguments('<source_contract_address> [proxy_contract_address]')
-    .description('Shows the state diff between source contract and proxy contract on target chain. If diff-mode == storage, proxy_contract_address has to be provided.')
+    .arguments('[source_contract_address] [proxy_contract_address]')
+    .description('Shows the state diff between source contract and proxy contract on target chain. If diff-mode == storage, proxy_contract_address has to be provided. Both addresses can be replaced by --manifest.')
     .addOption(
-        new Option('--diff-mode <mode>', 'Diff function to use. When using storage, option --src-BlockNr equals block on srcChain and --target-BlockNr block on targetChain. When using srcTx --src-BlockNr describes block from where to replay tx until --target-blockNr. If no blocks are given when using srcTx, then only the latest block is examined.')
-            .choices(['storage', 'srcTx', 'getProof'])
+        new Option('--diff-mode <mode>', 'Diff function to use. When using storage, option --src-BlockNr equals block on srcChain and --target-BlockNr block on targetChain. When using srcTx --src-BlockNr describes block from where to replay tx until --target-blockNr. srcTxBlock works like srcTx, but replays all txs of a block at once. srcTxPrestate works like srcTx, but traces every block of the range with debug_traceBlockByNumber, which Geth-compatible nodes provide, i.e. one request per block whether it has txs to the source contract or not. If no blocks are given when using srcTx, then only the latest block is examined.')
+            .choices(DIFF_METHODS)
             .default('srcTx'),
     )
+    .option('--confirmations <n>', 'Only use blocks of the source chain with at least n confirmations, or with finalized or safe the blocks that the node reports as such. latest refers to the newest of these blocks')
+    .option('--key-index <file_path>', 'File of an index of all storage keys that the source contract ever wrote, built by tracing its txs and updated by every synchronization. Without trace_replayBlockTransactions, the first build traces every block since the deployment of the contract. Used instead of listing the keys through the source node, which most nodes do not support')
     .option('-b, --batch-size <number>', 'Define how many blocks/txs should be pulled at once', '50')
     .option('--target-blocknr <number>', 'see --diff-mode for further explanation')
-    .action(async (srcContractAddress: string, proxyContractAddress: string | undefined, options: TxContractInteractionOptions) => {
+    .option('--manifest <file_path>', 'Deployment manifest written by fork, used instead of the contract address arguments')
+    .addOption(
+        new Option('--output <format>', `Print the diff in a machine-readable format instead of logging it, see the schema of version ${DIFF_REPORT_VERSION} in the README`)
+            .choices(DIFF_OUTPUT_FORMATS),
+    )
+    .option('--out-file <path>', 'Write the diff to a file instead of stdout, json if --output is not given')
+    .option('--layout <file_path>', 'Storage layout of the source contract, a Hardhat artifact or a build-info of solc with the storageLayout output. Used to show the changed variables')
+    .option('--contract <name>', 'Contract in the build-info given by --layout, either Name or source/File.sol:Name')
+    .option('--mapping-keys <file_path>', 'Json array of mapping keys, e.g. addresses, whose mapping entries are shown by --layout')
+    .option('--export-patch <file_path>', 'Write the diff together with the block header and the proof of the changed keys to a file that synchronize --from-patch applies without access to the source chain')
+    .option('--headers-from <number>', 'First block whose header is added to the patch, needed if the relay contract is in header mode and lacks the headers before the block of the patch')
+    .option('--patch-account-encrypted-json <file_path>', 'Encrypted json file of the account that signs the patch, synchronize --from-patch checks the signature with --patch-exporter. Other signers are configured as patchSigner in the config file')
+    .option('--password-file <file_path>', 'File that holds the password to decrypt the patch account')
+    .option('--password-env <name>', 'Environment variable that holds the password to decrypt the patch account', DEFAULT_PASSWORD_ENV)
+    .option('--password-stdin', 'Read the password to decrypt the patch account from stdin')
+    .option('--insecure-password', 'Accept the password as command line argument or config value')
+    .action(async (srcContractArg: string | undefined, proxyContractArg: string | undefined, options: TxContractInteractionOptions) => {
+        const manifest = options.manifest ? loadManifest(options.manifest) : undefined;
+        const srcContractAddress = srcContractArg ?? manifest?.data.srcChain.contract;
+        const proxyContractAddress = proxyContractArg ?? manifest?.data.proxyContract;
+        if (!srcContractAddress) {
+            throw new ConfigError('No source contract address given. Pass it as argument or use --manifest.');
+        }
         let adjustedOptions = options;
         // override options here if config file was added
         if (adjustedOptions.configFile) {
             adjustedOptions = overrideFileOptions<TxContractInteractionOptions>(adjustedOptions.configFile, adjustedOptions);
         }
         logger.setSettings({ minLevel: adjustedOptions.logLevel });
+        if (adjustedOptions.output && !adjustedOptions.outFile) {
+            // the report on stdout must stay parseable, so the log goes to stderr
+            logger.setSettings({ stdOut: process.stderr });
+        }
 
         const contractAddressMap: ContractAddressMap = {
             srcContract: srcContractAddress,
@@ -373,27 +629,143 @@ stateDiff
         };
         const targetRPCConfig: RPCConfig = {
             gasLimit: adjustedOptions.gasLimit,
+            gasSafetyMargin: adjustedOptions.gasSafetyMargin !== undefined ? parseFloat(adjustedOptions.gasSafetyMargin) : undefined,
             blockNr: adjustedOptions.targetBlocknr,
-            targetAccountEncryptedJsonPath: adjustedOptions.targetAccountEncryptedJson,
-            targetAccountPassword: adjustedOptions.targetAccountPassword,
         };
         const srcRPCConfig: RPCConfig = {
             blockNr: adjustedOptions.srcBlocknr,
+            finality: finalityOf(adjustedOptions),
+            keyIndex: adjustedOptions.keyIndex,
         };
         const batchSize = adjustedOptions.batchSize ? BigNumber.from(adjustedOptions.batchSize).toNumber() : 50;
         const chainProxy = new ChainProxy(contractAddressMap, srcConnectionInfo, srcRPCConfig, targetConnectionInfo, targetRPCConfig, batchSize);
-        if (adjustedOptions.diffMode === 'srcTx') {
+        progressBars.subscribe(chainProxy.events);
+        await checkManifestChains(manifest, chainProxy);
+        if (usesSrcTxs(adjustedOptions)) {
             await chainProxy.init();
         } else {
             await chainProxy.lightInit();
         }
 
-        const diff = await chainProxy.getDiff((adjustedOptions.diffMode ?? 'srcTx') as GetDiffMethod, { srcBlock: adjustedOptions.srcBlocknr, targetBlock: adjustedOptions.targetBlocknr });
+        const decoder = storageLayoutDecoderOf(adjustedOptions);
+        const diffMode = (adjustedOptions.diffMode ?? 'srcTx') as GetDiffMethod;
+        const diff = await chainProxy.getDiff(diffMode, { srcBlock: adjustedOptions.srcBlocknr, targetBlock: adjustedOptions.targetBlocknr });
+
+        let variables: Array<DecodedChange> | undefined;
+        if (decoder && diff.blocks) {
+            const { fromBlock, toBlock } = diff.blocks;
+            // the srcTx diffs contain the changes of the txs in the blocks, the others compare the state at both blocks
+            const decoded = usesSrcTxs(adjustedOptions)
+                ? await decoder.decodeDiff(diff, createStorageReader(chainProxy.srcProvider, srcContractAddress, fromBlock - 1), createStorageReader(chainProxy.srcProvider, srcContractAddress, toBlock))
+                : await decoder.decodeDiff(diff, createStorageReader(chainProxy.srcProvider, srcContractAddress, fromBlock), createStorageReader(chainProxy.targetProvider, proxyContractAddress ?? srcContractAddress, toBlock));
+            if (decoded.unknownSlots.length > 0) logger.debug('Slots that belong to no known variable:', decoded.unknownSlots);
+            variables = decoded.changes;
+        }
+
+        const report = createDiffReport(diff, srcContractAddress, diffMode, usesSrcTxs(adjustedOptions) ? undefined : proxyContractAddress ?? srcContractAddress, variables);
+        if (adjustedOptions.exportPatch) {
+            if (diff.isEmpty() || !diff.blocks) {
+                logger.info('There are no changes to be exported.');
+            } else {
+                // synchronize migrates the srcTx diffs to their last block and the others to the block of the source contract
+                const proof = await chainProxy.buildSyncProof(diff.getKeys(), diff.fromKeys, usesSrcTxs(adjustedOptions) ? diff.blocks.toBlock : diff.blocks.fromBlock);
+                const headersFrom = adjustedOptions.headersFrom !== undefined ? await chainProxy.getBlockNumber(adjustedOptions.headersFrom) : undefined;
+                const patchSigner = adjustedOptions.patchSigner
+                    ?? (adjustedOptions.patchAccountEncryptedJson ? { type: 'encryptedJson' as const, path: adjustedOptions.patchAccountEncryptedJson } : undefined);
+                let signer: Signer | undefined;
+                if (patchSigner) {
+                    // the password options apply to the patch account, state-diff has no target account
+                    const password = await resolvePassword({ ...adjustedOptions, targetSigner: patchSigner, targetAccountEncryptedJson: undefined });
+                    signer = createSigner(patchSigner, chainProxy.srcProvider, password);
+                } else {
+                    logger.warn('The patch is not signed, synchronize --from-patch can only authenticate it in header relay mode. Sign it with --patch-account-encrypted-json or patchSigner.');
+                }
+                const patch = await SyncPatch.create(report, proof, chainProxy.srcProvider, headersFrom, signer);
+                if (!patch.save(adjustedOptions.exportPatch)) {
+                    throw new ConfigError(`Could not write the patch to ${adjustedOptions.exportPatch}.`);
+                }
+                logger.info(`Wrote the patch of ${proof.keys.length} keys at block ${proof.blockNumber} to ${adjustedOptions.exportPatch}.`);
+            }
+        }
+
+        if (adjustedOptions.output || adjustedOptions.outFile) {
+            const formatted = formatDiffReport(report, (adjustedOptions.output ?? 'json') as DiffOutputFormat);
+            if (!adjustedOptions.outFile) {
+                process.stdout.write(formatted);
+            } else if (!new FileHandler(adjustedOptions.outFile, false).write(formatted)) {
+                throw new ConfigError(`Could not write the diff to ${adjustedOptions.outFile}.`);
+            } else {
+                logger.info(`Wrote ${report.summary.total} diffs to ${adjustedOptions.outFile}.`);
+            }
+            return;
+        }
+
+        // the srcTx diff methods tell which tx wrote the value
+        logger.info('Adds:', diff.adds().map((add) => ({ key: add.key, value: add.value, ...(add.provenance && { writtenBy: add.provenance }) })));
+        logger.info('Changes:', diff.changes().map((change) => ({
+            key: change.key, srcValue: change.srcValue, targetValue: change.targetValue, ...(change.provenance && { writtenBy: change.provenance }),
+        })));
+        logger.info('Deletions:', diff.removes().map((remove) => ({ key: remove.key, value: remove.value, ...(remove.provenance && { writtenBy: remove.provenance }) })));
+        if (variables) {
+            logger.info('Variables:', variables.map((variable) => ({
+                variable: variable.label, type: variable.type, previousValue: variable.previousValue, newValue: variable.newValue,
+            })));
+        }
+    });
+
+const storage: Command = program.command('storage') as Command;
+storage.description('Inspects the storage of contracts with their storage layout.');
+
+let storageDump: Command = storage.command('dump') as Command;
+storageDump = commonOptions(storageDump);
+storageDump
+    .description('Prints the decoded variables of a contract. Mappings only contain the entries of the keys given by --mapping-keys that are not zero.')
+    .argument('[contract_address]', 'can be omitted when using --manifest')
+    .requiredOption('--layout <file_path>', 'Storage layout of the contract, a Hardhat artifact or a build-info of solc with the storageLayout output')
+    .option('--contract <name>', 'Contract in the build-info given by --layout, either Name or source/File.sol:Name')
+    .option('--mapping-keys <file_path>', 'Json array of mapping keys, e.g. addresses, whose mapping entries are shown')
+    .addOption(
+        new Option('--chain <chain>', 'Chain of the contract, the proxy contract is read from the target chain')
+            .choices(['src', 'target'])
+            .default('src'),
+    )
+    .option('--target-blocknr <number>', 'block number of target chain to use')
+    .option('--max-elements <n>', 'Amount of elements of an array that are shown', DEFAULT_MAX_ELEMENTS.toString())
+    .option('--out-file <path>', 'Write the variables as json to a file instead of logging them')
+    .option('--manifest <file_path>', 'Deployment manifest written by fork, used instead of the contract address argument')
+    .action(async (contractArg: string | undefined, options: TxContractInteractionOptions) => {
+        const manifest = options.manifest ? loadManifest(options.manifest) : undefined;
+        let adjustedOptions = options;
+        // override options here if config file was added
+        if (adjustedOptions.configFile) {
+            adjustedOptions = overrideFileOptions<TxContractInteractionOptions>(adjustedOptions.configFile, adjustedOptions);
+        }
+        logger.setSettings({ minLevel: adjustedOptions.logLevel });
+
+        const onTarget = adjustedOptions.chain === 'target';
+        const contractAddress = contractArg ?? (onTarget ? manifest?.data.proxyContract : manifest?.data.srcChain.contract);
+        if (!contractAddress) {
+            throw new ConfigError('No contract address given. Pass it as argument or use --manifest.');
+        }
+        const decoder = storageLayoutDecoderOf(adjustedOptions);
+        if (!decoder) {
+            throw new ConfigError('No storage layout given. Pass it with --layout.');
+        }
+        const provider = new JsonRpcProvider({
+            url: onTarget ? adjustedOptions.targetChainRpcUrl : adjustedOptions.srcChainRpcUrl,
+            timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+        });
+        const block = await toBlockNumber((onTarget ? adjustedOptions.targetBlocknr : adjustedOptions.srcBlocknr) ?? 'latest', provider);
 
-        if (diff === undefined) return;
-        logger.info('Adds:', diff.adds().map((add) => ({ key: add.key, value: add.value })));
-        logger.info('Changes:', diff.changes().map((change) => ({ key: change.key, srcValue: change.srcValue, targetValue: change.targetValue })));
-        logger.info('Deletions:', diff.removes().map((remove) => ({ key: remove.key, value: remove.value })));
+        const variables = await decoder.dump(createStorageReader(provider, contractAddress, block), BigNumber.from(adjustedOptions.maxElements ?? DEFAULT_MAX_ELEMENTS).toNumber());
+        if (!adjustedOptions.outFile) {
+            logger.info(`Variables of ${contractAddress} at block ${block}:`);
+            variables.forEach((variable) => logger.info(`${variable.label} (${variable.type}): ${variable.value}`));
+        } else if (!new FileHandler(adjustedOptions.outFile, false).writeJSON({ contract: contractAddress, block, variables })) {
+            throw new ConfigError(`Could not write the variables to ${adjustedOptions.outFile}.`);
+        } else {
+            logger.info(`Wrote ${variables.length} variables to ${adjustedOptions.outFile}.`);
+        }
     });
 
 let synchronize: Command = program.command('synchronize') as Command;
@@ -401,96 +773,601 @@ synchronize = commonOptions(synchronize);
 synchronize
     .alias('s')
     .description('Synchronizes the storage of a proxy contract with its source contracts storage up to an optionally provided block nr on the source chain.')
-    .arguments('<proxy_contract_address>')
+    .arguments('[proxy_contract_address]')
     .addOption(
-        new Option('--diff-mode <mode>', 'Diff function to use. When using storage, option --src-BlockNr equals block on srcChain and --target-BlockNr block on targetChain. When using srcTx --src-BlockNr describes block from where to replay tx until --target-blockNr.')
-            .choices(['storage', 'srcTx', 'getProof'])
+        new Option('--diff-mode <mode>', 'Diff function to use. When using storage, option --src-BlockNr equals block on srcChain and --target-BlockNr block on targetChain. When using srcTx --src-BlockNr describes block from where to replay tx until --target-blockNr. srcTxBlock works like srcTx, but replays all txs of a block at once. srcTxPrestate works like srcTx, but traces every block of the range with debug_traceBlockByNumber, which Geth-compatible nodes provide, i.e. one request per block whether it has txs to the source contract or not.')
+            .choices(DIFF_METHODS)
             .default('srcTx'),
     )
     .option('--target-blocknr <number>', 'see --diff-mode for further explanation')
     .option('--gas-limit <limit>', 'gas limit for tx on target chain')
+    .option('--gas-safety-margin <share>', 'Share of the target block gas limit that is kept free and added on top of gas estimations', '0.2')
+    .addOption(
+        new Option('--fee-strategy <strategy>', 'How the fees of txs on the target chain are chosen, overrides the strategy of targetChainFees in the config file')
+            .choices(FEE_STRATEGIES),
+    )
+    .option('--max-gas-price <wei>', 'Highest price per gas that is paid on the target chain, sending is deferred while the fees are higher')
+    .option('--stuck-tx-timeout <ms>', 'Time after which a tx on the target chain that was not mined is replaced by one with higher fees', DEFAULT_STUCK_TX_TIMEOUT.toString())
+    .addOption(
+        new Option('--relay-mode <mode>', 'How blocks of the source chain are added to the relay contract. With header, the relay contract derives the state root from the block header and checks its link to the previous header')
+            .choices(RELAY_MODES)
+            .default('stateRoot'),
+    )
+    .option('--confirmations <n>', 'Only use blocks of the source chain with at least n confirmations, or with finalized or safe the blocks that the node reports as such. latest refers to the newest of these blocks')
+    .option('--key-index <file_path>', 'File of an index of all storage keys that the source contract ever wrote, built by tracing its txs and updated by every synchronization. Without trace_replayBlockTransactions, the first build traces every block since the deployment of the contract. Used instead of listing the keys through the source node, which most nodes do not support')
     .option('-b, --batch-size <number>', 'Define how many blocks/txs should be pulled at once', '50')
     .option('--block-batch-size <number>', 'Block counter how many blocks should be synched at once', Number.MAX_SAFE_INTEGER.toString())
     .option('--target-account-encrypted-json <file_path>', 'Encrypted json file path of account to use at target chain to sign txs')
-    .option('--target-account-password <target_account_password', 'Password to decrypt account json file')
-    .action(async (proxyContract: string, options: TxContractInteractionOptions) => {
+    .option('--target-account-password <target_account_password', 'Password to decrypt account json file, only used together with --insecure-password')
+    .option('--password-file <file_path>', 'File that holds the password to decrypt the target account')
+    .option('--password-env <name>', 'Environment variable that holds the password to decrypt the target account', DEFAULT_PASSWORD_ENV)
+    .option('--password-stdin', 'Read the password to decrypt the target account from stdin')
+    .option('--insecure-password', 'Accept the password as command line argument or config value')
+    .option('--dry-run', 'Print the txs that would be sent together with their estimated gas and cost without signing anything')
+    .option('--manifest <file_path>', 'Deployment manifest written by fork, used instead of the contract address arguments')
+    .option('--from-patch <file_path>', 'Apply a patch written by state-diff --export-patch instead of reading the changes from the source chain, which is not connected then')
+    .option('--patch-exporter <address>', 'Account that has to have signed the patch given by --from-patch, required unless the relay contract is in header mode')
+    .action(async (proxyContract: string | undefined, options: TxContractInteractionOptions) => {
+        const manifest = options.manifest ? loadManifest(options.manifest) : undefined;
         let adjustedOptions = options;
         // override options here if config file was added
         if (adjustedOptions.configFile) {
             adjustedOptions = overrideFileOptions<TxContractInteractionOptions>(adjustedOptions.configFile, adjustedOptions);
         }
-        if (!adjustedOptions.targetAccountEncryptedJson || !adjustedOptions.targetAccountPassword) {
-            logger.error('No target account given for signing txs.');
-            process.exit(-1);
+        if (!adjustedOptions.dryRun && !adjustedOptions.targetSigner && !adjustedOptions.targetAccountEncryptedJson) {
+            throw new ConfigError('No target account given for signing txs.');
         }
+        // a dry run signs nothing, so the keystore is not decrypted
+        const targetAccountPassword = adjustedOptions.dryRun ? undefined : await resolvePassword(adjustedOptions);
         logger.setSettings({ minLevel: adjustedOptions.logLevel });
         const contractAddressMap: ContractAddressMap = {
-            proxyContract,
-        };
-        const srcConnectionInfo: ConnectionInfo = {
-            url: adjustedOptions.srcChainRpcUrl,
-            timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+            proxyContract: resolveProxyContract(proxyContract, manifest),
         };
+        const patch = adjustedOptions.fromPatch ? SyncPatch.load(adjustedOptions.fromPatch) : undefined;
         const targetConnectionInfo: ConnectionInfo = {
             url: adjustedOptions.targetChainRpcUrl,
             timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
         };
+        // a patch contains everything that is read from the source chain, so the source chain is not connected
+        const srcConnectionInfo: ConnectionInfo = patch ? targetConnectionInfo : {
+            url: adjustedOptions.srcChainRpcUrl,
+            timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+        };
         const targetRPCConfig: RPCConfig = {
             gasLimit: adjustedOptions.gasLimit,
+            gasSafetyMargin: adjustedOptions.gasSafetyMargin !== undefined ? parseFloat(adjustedOptions.gasSafetyMargin) : undefined,
+            fees: await resolveFeeConfig(adjustedOptions, targetConnectionInfo),
+            stuckTxTimeout: adjustedOptions.stuckTxTimeout ? BigNumber.from(adjustedOptions.stuckTxTimeout).toNumber() : undefined,
+            relayMode: adjustedOptions.relayMode as RelayMode,
             blockNr: adjustedOptions.targetBlocknr,
+            signer: adjustedOptions.targetSigner,
             targetAccountEncryptedJsonPath: adjustedOptions.targetAccountEncryptedJson,
-            targetAccountPassword: adjustedOptions.targetAccountPassword,
+            targetAccountPassword,
+            dryRun: adjustedOptions.dryRun,
         };
         const srcRPCConfig: RPCConfig = {
             blockNr: undefined,
+            finality: finalityOf(adjustedOptions),
+            keyIndex: patch ? undefined : adjustedOptions.keyIndex,
         };
         const batchSize = adjustedOptions.batchSize ? BigNumber.from(adjustedOptions.batchSize).toNumber() : 50;
 
+        const { patchExporter } = adjustedOptions;
+        if (patch && patchExporter !== undefined && !ethers.utils.isAddress(patchExporter)) {
+            throw new ConfigError(`The patch exporter ${patchExporter} is not a valid address.`);
+        } else if (patch && patchExporter === undefined && targetRPCConfig.relayMode !== 'header') {
+            // in header mode the relay contract only accepts headers that link to the ones it stores, in stateRoot mode any state root would be relayed
+            throw new ConfigError('A patch can only be applied in stateRoot relay mode if --patch-exporter gives the account that signed it.');
+        }
+
         const chainProxy = new ChainProxy(contractAddressMap, srcConnectionInfo, srcRPCConfig, targetConnectionInfo, targetRPCConfig, batchSize);
+        progressBars.subscribe(chainProxy.events);
+        const printReplacements = recordReplacements(chainProxy);
+        if (patch) {
+            if (manifest && manifest.data.srcChain.chainId !== patch.data.srcChain.chainId) {
+                throw new ConfigError(`The patch was exported from chain ${patch.data.srcChain.chainId}, but the deployment manifest belongs to source chain ${manifest.data.srcChain.chainId}.`);
+            }
+        } else {
+            await checkManifestChains(manifest, chainProxy);
+        }
         await chainProxy.init();
 
+        if (patch) {
+            patch.verify(chainProxy.srcContractAddress, patchExporter);
+            if (targetRPCConfig.relayMode === 'header') await patch.checkLinkedTo((blockNumber) => chainProxy.getBlockHash(blockNumber));
+            patch.checkFollows((await chainProxy.getCurrentBlockNumber()).toNumber());
+            const { keys, blockNumber } = patch.data.proof;
+            if (adjustedOptions.dryRun) {
+                logger.info(`The patch updates ${keys.length} keys of ${chainProxy.srcContractAddress} to block ${blockNumber}.`);
+                return;
+            }
+            try {
+                await chainProxy.applySyncProof(patch.syncProof, patch.data.headers);
+            } finally {
+                printReplacements();
+            }
+            logger.info(`Applied the patch of ${keys.length} keys at block ${blockNumber}.`);
+            return;
+        }
+
         // prepare for possible batch synch
         if (adjustedOptions.blockBatchSize !== Number.MAX_SAFE_INTEGER.toString() && adjustedOptions.diffMode === 'storage') {
-            logger.error('The option blockBatchSize is not supported with diffmode storage.');
-            process.exit(-1);
-        } else if (adjustedOptions.diffMode === 'srcTx') {
-            adjustedOptions.targetBlocknr = adjustedOptions.targetBlocknr !== undefined ? BigNumber.from(await toBlockNumber(adjustedOptions.targetBlocknr, chainProxy.srcProvider)).toString() : BigNumber.from(await toBlockNumber('latest', chainProxy.srcProvider)).toString();
+            throw new ConfigError('The option blockBatchSize is not supported with diffmode storage.');
+        } else if (usesSrcTxs(adjustedOptions)) {
+            adjustedOptions.targetBlocknr = adjustedOptions.targetBlocknr !== undefined ? BigNumber.from(await chainProxy.getBlockNumber(adjustedOptions.targetBlocknr)).toString() : BigNumber.from(await chainProxy.getBlockNumber('latest')).toString();
         } else {
             adjustedOptions.targetBlocknr = adjustedOptions.targetBlocknr !== undefined ? BigNumber.from(await toBlockNumber(adjustedOptions.targetBlocknr, chainProxy.targetProvider)).toString() : BigNumber.from(await toBlockNumber('latest', chainProxy.targetProvider)).toString();
         }
-        adjustedOptions.srcBlocknr = adjustedOptions.srcBlocknr !== undefined ? BigNumber.from(await toBlockNumber(adjustedOptions.srcBlocknr, chainProxy.srcProvider)).toString() : (await chainProxy.getCurrentBlockNumber()).add(1).toString();
+        adjustedOptions.srcBlocknr = adjustedOptions.srcBlocknr !== undefined ? BigNumber.from(await chainProxy.getBlockNumber(adjustedOptions.srcBlocknr)).toString() : (await chainProxy.getCurrentBlockNumber()).add(1).toString();
 
-        // todo add test for batching blocks
         const blockBatchSize = adjustedOptions.blockBatchSize ? BigNumber.from(adjustedOptions.blockBatchSize) : BigNumber.from(Number.MAX_SAFE_INTEGER.toString());
 
+        if (adjustedOptions.dryRun) {
+            const plan = await chainProxy.planSynchronize((adjustedOptions.diffMode ?? 'srcTx') as GetDiffMethod, { srcBlock: adjustedOptions.srcBlocknr, targetBlock: adjustedOptions.targetBlocknr }, blockBatchSize.toNumber());
+            await plan.print(await chainProxy.getGasPrice());
+            return;
+        }
+
         // do synch
-        let srcBlock = BigNumber.from(adjustedOptions.srcBlocknr);
-        const targetBlock = BigNumber.from(adjustedOptions.targetBlocknr);
-        let batchProgress: CliProgress.SingleBar | undefined;
-        if (!isDebug(logger.settings.minLevel)) {
-            batchProgress = new CliProgress.SingleBar({}, CliProgress.Presets.shades_classic);
-            batchProgress.start(targetBlock.sub(srcBlock).toNumber(), 0);
-        }
-        do {
-            // eslint-disable-next-line no-await-in-loop
-            const changedKeys = await chainProxy.getDiff((adjustedOptions.diffMode ?? 'srcTx') as GetDiffMethod, { srcBlock: adjustedOptions.srcBlocknr, targetBlock: adjustedOptions.targetBlocknr });
-            if (!changedKeys) {
-                logger.error('Could not get changed keys');
+        try {
+            await chainProxy.synchronize((adjustedOptions.diffMode ?? 'srcTx') as GetDiffMethod, { srcBlock: adjustedOptions.srcBlocknr, targetBlock: adjustedOptions.targetBlocknr }, blockBatchSize.toNumber());
+        } finally {
+            printReplacements();
+        }
+        logger.info('Synchronization successful.');
+    });
+
+let multiSynch: Command = program.command('multi-synch') as Command;
+multiSynch = commonOptions(multiSynch);
+multiSynch
+    .alias('m')
+    .description('Synchronizes the proxy contracts of one source contract on all target chains configured as syncTargets in the config file. The diff and proof of the source contract are computed once and sent to every target, a failing target does not stop the others. Only diff mode srcTx is supported.')
+    .argument('[period]', 'Synchronize periodically instead of once, see the period of continuous-synch')
+    .option('--target-blocknr <number>', 'block nr on the source chain to synchronize to (only without period)')
+    .addOption(
+        new Option('--fee-strategy <strategy>', 'How the fees of txs on the target chains are chosen, overrides the strategy of targetChainFees in the config file for targets without fees')
+            .choices(FEE_STRATEGIES),
+    )
+    .option('--max-gas-price <wei>', 'Highest price per gas that is paid on the target chains without fees, sending is deferred while the fees are higher')
+    .option('--stuck-tx-timeout <ms>', 'Time after which a tx on a target chain that was not mined is replaced by one with higher fees', DEFAULT_STUCK_TX_TIMEOUT.toString())
+    .addOption(
+        new Option('--relay-mode <mode>', 'How blocks of the source chain are added to the relay contracts of targets without relayMode. With header, a relay contract derives the state root from the block header and checks its link to the previous header')
+            .choices(RELAY_MODES)
+            .default('stateRoot'),
+    )
+    .option('--confirmations <n>', 'Only use blocks of the source chain with at least n confirmations, or with finalized or safe the blocks that the node reports as such. latest refers to the newest of these blocks')
+    .option('-b, --batch-size <number>', 'Define how many blocks/txs should be pulled at once', '50')
+    .option('--block-batch-size <number>', 'Block counter how many blocks should be synched at once', Number.MAX_SAFE_INTEGER.toString())
+    .option('--target-account-encrypted-json <file_path>', 'Encrypted json file path of account to use at target chains without an account of their own')
+    .option('--target-account-password <target_account_password', 'Password to decrypt account json file, only used together with --insecure-password')
+    .option('--password-file <file_path>', 'File that holds the password to decrypt the target accounts')
+    .option('--password-env <name>', 'Environment variable that holds the password to decrypt the target accounts', DEFAULT_PASSWORD_ENV)
+    .option('--password-stdin', 'Read the password to decrypt the target accounts from stdin')
+    .option('--insecure-password', 'Accept the password as command line argument or config value')
+    .action(async (period: string | undefined, options: TxContractInteractionOptions) => {
+        if (period !== undefined && !CRON.validate(period)) {
+            throw new ConfigError(`No valid period given (${period}). See --help for more information (description of argument period)`);
+        }
+        let adjustedOptions = options;
+        // override options here if config file was added
+        if (adjustedOptions.configFile) {
+            adjustedOptions = overrideFileOptions<TxContractInteractionOptions>(adjustedOptions.configFile, adjustedOptions);
+        }
+        const syncTargets = adjustedOptions.syncTargets ?? [];
+        if (syncTargets.length === 0) {
+            throw new ConfigError('No syncTargets given in the config file.');
+        }
+        const targetNames = syncTargets.map((target) => target.name ?? target.targetChainRpcUrl);
+        const accountOptions: Array<TxContractInteractionOptions> = syncTargets.map((target) => {
+            // a password source of the target replaces the password sources of the command
+            const ownPasswordSource = target.passwordFile !== undefined || target.passwordEnv !== undefined;
+            return {
+                ...adjustedOptions,
+                targetSigner: target.targetSigner ?? adjustedOptions.targetSigner,
+                targetAccountEncryptedJson: target.targetAccountEncryptedJson ?? adjustedOptions.targetAccountEncryptedJson,
+                passwordFile: ownPasswordSource ? target.passwordFile : adjustedOptions.passwordFile,
+                passwordEnv: target.passwordEnv ?? adjustedOptions.passwordEnv,
+                passwordStdin: ownPasswordSource ? undefined : adjustedOptions.passwordStdin,
+            };
+        });
+        accountOptions.forEach((accountOption, i) => {
+            if (!accountOption.targetSigner && !accountOption.targetAccountEncryptedJson) {
+                throw new ConfigError(`No target account given for signing txs on target ${targetNames[i]}.`);
+            }
+            checkPlainTextPasswords(accountOption);
+        });
+        const stdinKeystores = new Set(accountOptions.filter((accountOption) => accountOption.passwordStdin && !accountOption.passwordFile && accountOption.targetAccountPassword === undefined && needsPassword(accountOption)).map(keystoreOf));
+        if (stdinKeystores.size > 1) {
+            throw new ConfigError(`The keystores ${Array.from(stdinKeystores).join(', ')} cannot be decrypted with the one password that --password-stdin reads. Give the targets a passwordFile or passwordEnv of their own.`);
+        }
+        // every keystore is decrypted with the password of its target, targets that share a keystore share its password
+        const passwords = new Map<string, string | undefined>();
+        const targetAccountPasswords: Array<string | undefined> = [];
+        /* eslint-disable no-await-in-loop */
+        // the passwords are resolved one by one so that the prompts do not overlap
+        for (let i = 0; i < accountOptions.length; i += 1) {
+            const keystore = keystoreOf(accountOptions[i]);
+            if (keystore !== undefined && needsPassword(accountOptions[i]) && !passwords.has(keystore)) {
+                passwords.set(keystore, await resolvePassword(accountOptions[i], `the account of target ${targetNames[i]}`));
+            }
+            targetAccountPasswords.push(keystore !== undefined ? passwords.get(keystore) : undefined);
+        }
+        /* eslint-enable no-await-in-loop */
+        logger.setSettings({ minLevel: adjustedOptions.logLevel });
+
+        const srcConnectionInfo: ConnectionInfo = {
+            url: adjustedOptions.srcChainRpcUrl,
+            timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+        };
+        const batchSize = adjustedOptions.batchSize ? BigNumber.from(adjustedOptions.batchSize).toNumber() : 50;
+        const blockBatchSize = adjustedOptions.blockBatchSize ? BigNumber.from(adjustedOptions.blockBatchSize) : BigNumber.from(Number.MAX_SAFE_INTEGER.toString());
+
+        const setUpTarget = async (i: number): Promise<SyncTarget & { printReplacements: () => void }> => {
+            const target = syncTargets[i];
+            const manifest = target.manifest ? loadManifest(target.manifest) : undefined;
+            const targetConnectionInfo: ConnectionInfo = {
+                url: target.targetChainRpcUrl,
+                timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+            };
+            const targetRPCConfig: RPCConfig = {
+                gasLimit: target.gasLimit,
+                gasSafetyMargin: target.gasSafetyMargin !== undefined ? parseFloat(target.gasSafetyMargin) : undefined,
+                fees: target.fees ?? await resolveFeeConfig(adjustedOptions, targetConnectionInfo),
+                stuckTxTimeout: BigNumber.from(target.stuckTxTimeout ?? adjustedOptions.stuckTxTimeout ?? DEFAULT_STUCK_TX_TIMEOUT).toNumber(),
+                relayMode: target.relayMode ?? adjustedOptions.relayMode as RelayMode,
+                signer: accountOptions[i].targetSigner,
+                targetAccountEncryptedJsonPath: accountOptions[i].targetAccountEncryptedJson,
+                targetAccountPassword: targetAccountPasswords[i],
+            };
+            const chainProxy = new ChainProxy({ proxyContract: resolveProxyContract(target.proxyContract, manifest) }, srcConnectionInfo, { finality: finalityOf(adjustedOptions) }, targetConnectionInfo, targetRPCConfig, batchSize);
+            progressBars.subscribe(chainProxy.events);
+            const printReplacements = recordReplacements(chainProxy);
+            await checkManifestChains(manifest, chainProxy);
+            await chainProxy.init();
+            return { name: targetNames[i], chainProxy, printReplacements };
+        };
+        // a target that cannot be set up is reported as failed and set up again before the next synchronization
+        const targets: Array<(SyncTarget & { printReplacements: () => void }) | undefined> = syncTargets.map(() => undefined);
+        const setUpTargets = async (): Promise<Array<TargetSyncResult>> => {
+            const failures = await Promise.all(targets.map(async (target, i): Promise<TargetSyncResult | undefined> => {
+                if (target) return undefined;
+                try {
+                    targets[i] = await setUpTarget(i);
+                    return undefined;
+                } catch (error) {
+                    logger.error(`Could not set up target ${targetNames[i]}: ${error instanceof Error ? error.message : error}`);
+                    return { target: targetNames[i], results: [], error };
+                }
+            }));
+            return failures.filter((failure): failure is TargetSyncResult => failure !== undefined);
+        };
+
+        /**
+         * @returns the result of the first failed target
+         */
+        const synchronizeTargets = async (targetBlock: string | number): Promise<TargetSyncResult | undefined> => {
+            const setupFailures = await setUpTargets();
+            const readyTargets = targets.filter((target): target is SyncTarget & { printReplacements: () => void } => target !== undefined);
+            if (readyTargets.length === 0) return setupFailures[0];
+            const fanOutSync = new FanOutSync(readyTargets, batchSize);
+            progressBars.subscribe(fanOutSync.events);
+            const results = await fanOutSync.synchronize(targetBlock, blockBatchSize.toNumber());
+            readyTargets.forEach((target) => target.printReplacements());
+            results.forEach(({ target, results: syncResults, error }) => {
+                if (error === undefined) logger.info(`Synchronized target ${target} with ${syncResults.length} txs.`);
+            });
+            return [...setupFailures, ...results].find(({ error }) => error !== undefined);
+        };
+
+        if (period === undefined) {
+            const failed = await synchronizeTargets(adjustedOptions.targetBlocknr ?? 'latest');
+            if (failed) {
+                throw failed.error instanceof Error ? failed.error : new SmartSyncError(`Synchronization of target ${failed.target} failed.`, failed.error);
+            }
+            logger.info('Synchronization successful.');
+            return;
+        }
+
+        // if cli is called as a child process, this will be used to kill it.
+        process.on('message', (m) => {
+            if (m === SIGTERM) {
+                process.exit(0);
+            }
+        });
+
+        let synching = false;
+        CRON.schedule(period, async () => {
+            if (synching) {
+                logger.warn('The synchronization of the previous period is still running, skipping this period.');
                 return;
             }
+            synching = true;
+            // failed targets are retried from their current block in the next period
+            try {
+                await synchronizeTargets('latest');
+            } catch (e) {
+                logger.error(`Could not synch changes: ${e instanceof Error ? e.message : e}`);
+            } finally {
+                synching = false;
+            }
+        });
+    });
 
-            // eslint-disable-next-line no-await-in-loop
-            const synchronized = await chainProxy.migrateChangesToProxy(changedKeys.getKeys(), changedKeys.fromKeys, (adjustedOptions.diffMode === 'srcTx') ? adjustedOptions.targetBlocknr : adjustedOptions.srcBlocknr);
-            if (synchronized) {
-                logger.info('Synchronization of the following keys successful:', changedKeys.getKeys());
-            } else {
-                logger.error('Could not synch changes.');
+let backfillHeaders: Command = program.command('backfill-headers') as Command;
+backfillHeaders = commonOptions(backfillHeaders);
+backfillHeaders
+    .alias('bh')
+    .description('Adds the block headers of the source chain between two block nrs to a relay contract so that later headers can be linked to them. Headers that are stored already are skipped.')
+    .argument('<from_blocknr>', 'First block nr of the header chain. Unless the relay contract has no headers yet, the header before it has to be stored already.')
+    .argument('<to_blocknr>', 'Last block nr of the header chain')
+    .argument('[relay_contract_address]', 'can be omitted when using --manifest')
+    .addOption(
+        new Option('--fee-strategy <strategy>', 'How the fees of txs on the target chain are chosen, overrides the strategy of targetChainFees in the config file')
+            .choices(FEE_STRATEGIES),
+    )
+    .option('--max-gas-price <wei>', 'Highest price per gas that is paid on the target chain, sending is deferred while the fees are higher')
+    .option('--stuck-tx-timeout <ms>', 'Time after which a tx on the target chain that was not mined is replaced by one with higher fees', DEFAULT_STUCK_TX_TIMEOUT.toString())
+    .option('--target-account-encrypted-json <file_path>', 'Encrypted json file path of account to use at target chain to sign txs')
+    .option('--target-account-password <target_account_password', 'Password to decrypt account json file, only used together with --insecure-password')
+    .option('--password-file <file_path>', 'File that holds the password to decrypt the target account')
+    .option('--password-env <name>', 'Environment variable that holds the password to decrypt the target account', DEFAULT_PASSWORD_ENV)
+    .option('--password-stdin', 'Read the password to decrypt the target account from stdin')
+    .option('--insecure-password', 'Accept the password as command line argument or config value')
+    .option('--confirmations <n>', 'Only use blocks of the source chain with at least n confirmations, or with finalized or safe the blocks that the node reports as such. latest refers to the newest of these blocks')
+    .option('--manifest <file_path>', 'Deployment manifest written by fork, used instead of the relay contract address argument')
+    .action(async (fromBlock: string, toBlock: string, relayContractAddress: string | undefined, options: TxContractInteractionOptions) => {
+        const manifest = options.manifest ? loadManifest(options.manifest) : undefined;
+        let adjustedOptions = options;
+        // override options here if config file was added
+        if (adjustedOptions.configFile) {
+            adjustedOptions = overrideFileOptions<TxContractInteractionOptions>(adjustedOptions.configFile, adjustedOptions);
+        }
+        if (!adjustedOptions.targetSigner && !adjustedOptions.targetAccountEncryptedJson) {
+            throw new ConfigError('No target account given for signing txs.');
+        }
+        const targetAccountPassword = await resolvePassword(adjustedOptions);
+        logger.setSettings({ minLevel: adjustedOptions.logLevel });
+
+        const relayContract = relayContractAddress ?? manifest?.data.relayContract;
+        if (!relayContract) {
+            throw new ConfigError('No relay contract address given. Pass it as argument or use --manifest.');
+        }
+        const srcConnectionInfo: ConnectionInfo = {
+            url: adjustedOptions.srcChainRpcUrl,
+            timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+        };
+        const targetConnectionInfo: ConnectionInfo = {
+            url: adjustedOptions.targetChainRpcUrl,
+            timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+        };
+        const targetRPCConfig: RPCConfig = {
+            fees: await resolveFeeConfig(adjustedOptions, targetConnectionInfo),
+            stuckTxTimeout: adjustedOptions.stuckTxTimeout ? BigNumber.from(adjustedOptions.stuckTxTimeout).toNumber() : undefined,
+            relayMode: 'header',
+            signer: adjustedOptions.targetSigner,
+            targetAccountEncryptedJsonPath: adjustedOptions.targetAccountEncryptedJson,
+            targetAccountPassword,
+        };
+        const chainProxy = new ChainProxy({ relayContract }, srcConnectionInfo, { finality: finalityOf(adjustedOptions) }, targetConnectionInfo, targetRPCConfig);
+        progressBars.subscribe(chainProxy.events);
+        const printReplacements = recordReplacements(chainProxy);
+        await checkManifestChains(manifest, chainProxy);
+        await chainProxy.init();
+
+        try {
+            const result = await chainProxy.backfillHeaders(fromBlock, toBlock);
+            logger.info(`Added ${result.headers} block headers to ${relayContract} using ${result.gasUsed.toString()} gas.`);
+        } finally {
+            printReplacements();
+        }
+    });
+
+let checkReorgs: Command = program.command('check-reorgs') as Command;
+checkReorgs = commonOptions(checkReorgs);
+checkReorgs
+    .alias('cr')
+    .description('Compares the latest blocks of the relay contract and the block of the proxy contract with the canonical source chain. Exits with code 11 if any of them were reorganized away, unless they are repaired with --repair.')
+    .argument('[proxy_contract_address]', 'can be omitted when using --manifest')
+    .option('--depth <n>', 'Amount of the latest blocks of the relay contract to compare', DEFAULT_REORG_CHECK_DEPTH.toString())
+    .option('--repair', 'Replace the orphaned blocks by the blocks of the canonical chain and synchronize an orphaned proxy contract with the newest final block')
+    .option('--confirmations <n>', 'Only use blocks of the source chain with at least n confirmations, or with finalized or safe the blocks that the node reports as such. Orphaned blocks are only repaired once they are final')
+    .addOption(
+        new Option('--relay-mode <mode>', 'How blocks were added to the relay contract. With header, block hashes are compared as well')
+            .choices(RELAY_MODES)
+            .default('stateRoot'),
+    )
+    .addOption(
+        new Option('--fee-strategy <strategy>', 'How the fees of txs on the target chain are chosen, overrides the strategy of targetChainFees in the config file')
+            .choices(FEE_STRATEGIES),
+    )
+    .option('--max-gas-price <wei>', 'Highest price per gas that is paid on the target chain, sending is deferred while the fees are higher')
+    .option('--stuck-tx-timeout <ms>', 'Time after which a tx on the target chain that was not mined is replaced by one with higher fees', DEFAULT_STUCK_TX_TIMEOUT.toString())
+    .option('--target-account-encrypted-json <file_path>', 'Encrypted json file path of account to use at target chain to sign txs, only needed with --repair')
+    .option('--target-account-password <target_account_password', 'Password to decrypt account json file, only used together with --insecure-password')
+    .option('--password-file <file_path>', 'File that holds the password to decrypt the target account')
+    .option('--password-env <name>', 'Environment variable that holds the password to decrypt the target account', DEFAULT_PASSWORD_ENV)
+    .option('--password-stdin', 'Read the password to decrypt the target account from stdin')
+    .option('--insecure-password', 'Accept the password as command line argument or config value')
+    .option('--manifest <file_path>', 'Deployment manifest written by fork, used instead of the contract address argument')
+    .action(async (proxyContract: string | undefined, options: TxContractInteractionOptions & { depth: string, repair?: boolean }) => {
+        const manifest = options.manifest ? loadManifest(options.manifest) : undefined;
+        let adjustedOptions = options;
+        // override options here if config file was added
+        if (adjustedOptions.configFile) {
+            adjustedOptions = overrideFileOptions<TxContractInteractionOptions & { depth: string, repair?: boolean }>(adjustedOptions.configFile, adjustedOptions);
+        }
+        if (adjustedOptions.repair && !adjustedOptions.targetSigner && !adjustedOptions.targetAccountEncryptedJson) {
+            throw new ConfigError('No target account given for signing txs.');
+        }
+        const targetAccountPassword = adjustedOptions.repair ? await resolvePassword(adjustedOptions) : undefined;
+        logger.setSettings({ minLevel: adjustedOptions.logLevel });
+
+        const srcConnectionInfo: ConnectionInfo = {
+            url: adjustedOptions.srcChainRpcUrl,
+            timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+        };
+        const targetConnectionInfo: ConnectionInfo = {
+            url: adjustedOptions.targetChainRpcUrl,
+            timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+        };
+        const targetRPCConfig: RPCConfig = {
+            relayMode: adjustedOptions.relayMode as RelayMode,
+            fees: adjustedOptions.repair ? await resolveFeeConfig(adjustedOptions, targetConnectionInfo) : undefined,
+            stuckTxTimeout: adjustedOptions.stuckTxTimeout ? BigNumber.from(adjustedOptions.stuckTxTimeout).toNumber() : undefined,
+            signer: adjustedOptions.repair ? adjustedOptions.targetSigner : undefined,
+            targetAccountEncryptedJsonPath: adjustedOptions.repair ? adjustedOptions.targetAccountEncryptedJson : undefined,
+            targetAccountPassword,
+        };
+        const chainProxy = new ChainProxy({ proxyContract: resolveProxyContract(proxyContract, manifest) }, srcConnectionInfo, { finality: finalityOf(adjustedOptions) }, targetConnectionInfo, targetRPCConfig);
+        progressBars.subscribe(chainProxy.events);
+        const printReplacements = recordReplacements(chainProxy);
+        await checkManifestChains(manifest, chainProxy);
+        await chainProxy.init();
+
+        const depth = BigNumber.from(adjustedOptions.depth).toNumber();
+        if (!adjustedOptions.repair) {
+            const check = await chainProxy.checkReorgs(depth);
+            if (check.orphanedBlocks.length > 0) {
+                throw new ReorgError(`Blocks ${check.orphanedBlocks.join(', ')} of the relay contract were reorganized away${check.proxyOrphaned ? `, the proxy contract is synchronized to block ${check.syncedBlock} among them` : ''}. Run check-reorgs --repair to replace them.`);
+            }
+            logger.info(`The latest ${depth} blocks of the relay contract are part of the canonical source chain.`);
+            return;
+        }
+        try {
+            const result = await chainProxy.repairReorgs(depth);
+            if (result.orphanedBlocks.length === 0) {
+                logger.info(`The latest ${depth} blocks of the relay contract are part of the canonical source chain.`);
+                return;
+            }
+            logger.info(`Replaced blocks ${result.replacedBlocks.join(', ') || '-'}${result.sync ? ` and synchronized the proxy contract to block ${result.sync.blockNumber}` : ''} using ${result.gasUsed.toString()} gas.`);
+            const remaining = result.orphanedBlocks.filter((blockNumber) => result.replacedBlocks.indexOf(blockNumber) < 0);
+            if (remaining.length > 0) {
+                throw new ReorgError(`Blocks ${remaining.join(', ')} of the relay contract are orphaned but not final yet, run check-reorgs --repair again later.`);
             }
-            batchProgress?.increment(blockBatchSize.gt(targetBlock.sub(srcBlock)) ? targetBlock.sub(srcBlock).toNumber() : blockBatchSize.toNumber());
-            srcBlock = srcBlock.add(blockBatchSize);
-        } while (adjustedOptions.diffMode !== 'srcTx' && targetBlock.gt(srcBlock));
-        batchProgress?.stop();
+        } finally {
+            printReplacements();
+        }
+    });
+
+/**
+ * @param relayContractAddress relay contract address given as argument, taken from --manifest if undefined
+ * @param signing whether the command sends txs and needs the target account
+ * @returns an initialized chain proxy of the relay contract
+ */
+async function relayChainProxy(relayContractAddress: string | undefined, options: TxContractInteractionOptions, signing: boolean): Promise<ChainProxy> {
+    const manifest = options.manifest ? loadManifest(options.manifest) : undefined;
+    let adjustedOptions = options;
+    // override options here if config file was added
+    if (adjustedOptions.configFile) {
+        adjustedOptions = overrideFileOptions<TxContractInteractionOptions>(adjustedOptions.configFile, adjustedOptions);
+    }
+    if (signing && !adjustedOptions.targetSigner && !adjustedOptions.targetAccountEncryptedJson) {
+        throw new ConfigError('No target account given for signing txs.');
+    }
+    const targetAccountPassword = signing ? await resolvePassword(adjustedOptions) : undefined;
+    logger.setSettings({ minLevel: adjustedOptions.logLevel });
+
+    const relayContract = relayContractAddress ?? manifest?.data.relayContract;
+    if (!relayContract) {
+        throw new ConfigError('No relay contract address given. Pass it as argument or use --manifest.');
+    }
+    const srcConnectionInfo: ConnectionInfo = {
+        url: adjustedOptions.srcChainRpcUrl,
+        timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+    };
+    const targetConnectionInfo: ConnectionInfo = {
+        url: adjustedOptions.targetChainRpcUrl,
+        timeout: BigNumber.from(adjustedOptions.connectionTimeout).toNumber(),
+    };
+    const targetRPCConfig: RPCConfig = signing ? {
+        fees: await resolveFeeConfig(adjustedOptions, targetConnectionInfo),
+        stuckTxTimeout: adjustedOptions.stuckTxTimeout ? BigNumber.from(adjustedOptions.stuckTxTimeout).toNumber() : undefined,
+        signer: adjustedOptions.targetSigner,
+        targetAccountEncryptedJsonPath: adjustedOptions.targetAccountEncryptedJson,
+        targetAccountPassword,
+    } : {};
+    const chainProxy = new ChainProxy({ relayContract }, srcConnectionInfo, {}, targetConnectionInfo, targetRPCConfig);
+    await checkManifestChains(manifest, chainProxy);
+    await chainProxy.init();
+    return chainProxy;
+}
+
+/**
+ * Adds a subcommand of relay that sends a tx as owner of the relay contract.
+ */
+function relayOwnerCommand(relayCommand: Command, name: string): Command {
+    let command: Command = relayCommand.command(name) as Command;
+    command = commonOptions(command);
+    return command
+        .addOption(
+            new Option('--fee-strategy <strategy>', 'How the fees of txs on the target chain are chosen, overrides the strategy of targetChainFees in the config file')
+                .choices(FEE_STRATEGIES),
+        )
+        .option('--max-gas-price <wei>', 'Highest price per gas that is paid on the target chain, sending is deferred while the fees are higher')
+        .option('--stuck-tx-timeout <ms>', 'Time after which a tx on the target chain that was not mined is replaced by one with higher fees', DEFAULT_STUCK_TX_TIMEOUT.toString())
+        .option('--target-account-encrypted-json <file_path>', 'Encrypted json file path of the owner of the relay contract')
+        .option('--target-account-password <target_account_password', 'Password to decrypt account json file, only used together with --insecure-password')
+        .option('--password-file <file_path>', 'File that holds the password to decrypt the target account')
+        .option('--password-env <name>', 'Environment variable that holds the password to decrypt the target account', DEFAULT_PASSWORD_ENV)
+        .option('--password-stdin', 'Read the password to decrypt the target account from stdin')
+        .option('--insecure-password', 'Accept the password as command line argument or config value')
+        .option('--manifest <file_path>', 'Deployment manifest written by fork, used instead of the relay contract address argument');
+}
+
+const relay: Command = program.command('relay') as Command;
+relay.description('Manages the relayers that may add blocks of the source chain to a relay contract. Only the owner of the relay contract, initially its deployer, can change them.');
+
+relayOwnerCommand(relay, 'add-relayer')
+    .description('Allows an account to add blocks to the relay contract.')
+    .argument('<address>', 'account of the new relayer')
+    .argument('[relay_contract_address]', 'can be omitted when using --manifest')
+    .action(async (address: string, relayContractAddress: string | undefined, options: TxContractInteractionOptions) => {
+        const chainProxy = await relayChainProxy(relayContractAddress, options, true);
+        await chainProxy.addRelayer(address);
+        logger.info(`${address} is a relayer now.`);
+    });
+
+relayOwnerCommand(relay, 'remove-relayer')
+    .description('Revokes the permission of an account to add blocks to the relay contract.')
+    .argument('<address>', 'account of the relayer')
+    .argument('[relay_contract_address]', 'can be omitted when using --manifest')
+    .action(async (address: string, relayContractAddress: string | undefined, options: TxContractInteractionOptions) => {
+        const chainProxy = await relayChainProxy(relayContractAddress, options, true);
+        await chainProxy.removeRelayer(address);
+        logger.info(`${address} is no relayer anymore.`);
+    });
+
+relayOwnerCommand(relay, 'transfer-ownership')
+    .description('Hands the management of the relayers over to another account.')
+    .argument('<new_owner>', 'account of the new owner')
+    .argument('[relay_contract_address]', 'can be omitted when using --manifest')
+    .action(async (newOwner: string, relayContractAddress: string | undefined, options: TxContractInteractionOptions) => {
+        const chainProxy = await relayChainProxy(relayContractAddress, options, true);
+        await chainProxy.transferRelayOwnership(newOwner);
+        logger.info(`${newOwner} is the owner now.`);
+    });
+
+let listRelayers: Command = relay.command('list-relayers') as Command;
+listRelayers = commonOptions(listRelayers);
+listRelayers
+    .description('Prints the owner and the relayers of the relay contract.')
+    .argument('[relay_contract_address]', 'can be omitted when using --manifest')
+    .option('--manifest <file_path>', 'Deployment manifest written by fork, used instead of the relay contract address argument')
+    .action(async (relayContractAddress: string | undefined, options: TxContractInteractionOptions) => {
+        const chainProxy = await relayChainProxy(relayContractAddress, options, false);
+        logger.info(`owner: ${await chainProxy.getRelayOwner()}`);
+        logger.info('relayers:', await chainProxy.getRelayers());
     });
 
 program
-    .parse(process.argv);
+    .parseAsync(process.argv)
+    .catch((e) => {
+        progressBars.stopAll();
+        if (e instanceof SmartSyncError) {
+            logger.fatal(e.message);
+            if (e.cause) logger.debug(e.cause);
+        } else {
+            logger.fatal(e);
+        }
+        process.exit(exitCodeOf(e));
+    });
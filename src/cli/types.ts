@@ -0,0 +1,129 @@
+import { TLogLevelName } from 'tslog';
+import { FeeConfig } from '../utils/feeStrategy';
+import { SignerConfig } from '../signerHandler/Types';
+import { RelayMode } from '../chain-proxy';
+
+// options of the CLI commands, kept apart from smart-sync.ts so that importing them does not parse the command line
+
+export interface GeneralOptions {
+    srcChainRpcUrl: string;
+    targetChainRpcUrl: string;
+    connectionTimeout?: string;
+    logLevel?: TLogLevelName;
+    srcBlocknr?: string;
+    targetBlocknr?: string;
+    configFile: string;
+}
+
+export interface ViewContractInteractionOptions extends GeneralOptions {
+    relayContractAddress: string;
+}
+
+export interface TxContractInteractionOptions extends ViewContractInteractionOptions {
+    diffMode?: string;
+    gasLimit?: string;
+    batchSize?: string;
+    batchPerSynch?: string;
+    targetAccountEncryptedJson?: string;
+    targetAccountPassword?: string;
+    passwordFile?: string;
+    passwordEnv?: string;
+    passwordStdin?: boolean;
+    insecurePassword?: boolean;
+    blockBatchSize?: string;
+    keyValuePairPerBatch?: string;
+    maxInFlightTxs?: string;
+    journal?: string;
+    resume?: string;
+    gasSafetyMargin?: string;
+    dryRun?: boolean;
+    manifest?: string;
+    feeStrategy?: string;
+    maxGasPrice?: string;
+    stuckTxTimeout?: string;
+    relayMode?: string;
+    /**
+     * amount of confirmations, `finalized` or `safe`, see `Finality`
+     */
+    confirmations?: string;
+    keyIndex?: string;
+    /**
+     * format of state-diff, see `DiffOutputFormat`
+     */
+    output?: string;
+    outFile?: string;
+    /**
+     * storage layout file, see `loadStorageLayout`
+     */
+    layout?: string;
+    contract?: string;
+    mappingKeys?: string;
+    /**
+     * `src` or `target`, chain of the contract of storage dump
+     */
+    chain?: string;
+    maxElements?: string;
+    /**
+     * patch files of state-diff --export-patch and synchronize --from-patch, see `SyncPatch`
+     */
+    exportPatch?: string;
+    headersFrom?: string;
+    fromPatch?: string;
+    /**
+     * account that signs exported patches, `patchAccountEncryptedJson` is a shorthand for an encryptedJson signer
+     */
+    patchSigner?: SignerConfig;
+    patchAccountEncryptedJson?: string;
+    /**
+     * address of the account whose signature synchronize --from-patch requires
+     */
+    patchExporter?: string;
+    /**
+     * fee configuration per chain id of the target chain, only read from the config file
+     */
+    targetChainFees?: { [chainId: string]: FeeConfig };
+    /**
+     * signer of the txs on the target chain, only read from the config file. Used instead of --target-account-encrypted-json
+     */
+    targetSigner?: SignerConfig;
+    /**
+     * target chains of multi-synch, only read from the config file
+     */
+    syncTargets?: Array<SyncTargetOptions>;
+}
+
+/**
+ * Target chain of multi-synch. Settings that are not given are taken from the options of the command.
+ */
+export interface SyncTargetOptions {
+    /**
+     * name of the target in the logs, its rpc url by default
+     */
+    name?: string;
+    targetChainRpcUrl: string;
+    /**
+     * address of the proxy contract on the target chain, taken from `manifest` if not given
+     */
+    proxyContract?: string;
+    manifest?: string;
+    gasLimit?: string;
+    gasSafetyMargin?: string;
+    /**
+     * fees of the target, its entry of targetChainFees by default
+     */
+    fees?: FeeConfig;
+    stuckTxTimeout?: string;
+    relayMode?: RelayMode;
+    targetSigner?: SignerConfig;
+    targetAccountEncryptedJson?: string;
+    /**
+     * file that holds the password of the keystore of the target, for targets whose keystore has another password than the others
+     */
+    passwordFile?: string;
+    /**
+     * environment variable that holds the password of the keystore of the target
+     */
+    passwordEnv?: string;
+}
+
+export type ConfigTypish = GeneralOptions | TxContractInteractionOptions | ViewContractInteractionOptions;
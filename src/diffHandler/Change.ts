@@ -1,5 +1,5 @@
 import { BigNumberish } from 'ethers';
-import { DiffKind, StorageKeyDiff } from './Types';
+import { DiffKind, StorageKeyDiff, WriteProvenance } from './Types';
 
 class Change implements StorageKeyDiff {
     public key: BigNumberish;
@@ -8,12 +8,15 @@ class Change implements StorageKeyDiff {
 
     public targetValue: BigNumberish;
 
+    public provenance?: WriteProvenance;
+
     public diffKind: DiffKind = DiffKind.Change;
 
-    constructor(key: BigNumberish, srcValue: BigNumberish, targetValue: BigNumberish) {
+    constructor(key: BigNumberish, srcValue: BigNumberish, targetValue: BigNumberish, provenance?: WriteProvenance) {
         this.key = key;
         this.srcValue = srcValue;
         this.targetValue = targetValue;
+        this.provenance = provenance;
     }
 
     kind(): DiffKind {
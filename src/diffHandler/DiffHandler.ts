@@ -1,34 +1,46 @@
 import { ethers } from 'ethers';
-import assert from 'assert';
 import { JsonRpcProvider } from '@ethersproject/providers';
-import * as CliProgress from 'cli-progress';
-import {
-    getAllKeys, isDebug, toBlockNumber, toParityQuantity,
-} from '../utils/utils';
+import { getAllKeys, mapConcurrently, toParityQuantity } from '../utils/utils';
+import { Finality, toFinalBlockNumber } from '../utils/finality';
 import { logger } from '../utils/logger';
-import TransactionHandler from '../utils/transactionHandler';
+import TransactionHandler, { StorageWrite } from '../utils/transactionHandler';
 import StorageDiff from './StorageDiff';
 import Remove from './Remove';
 import Change from './Change';
 import Add from './Add';
-import { ProcessedParameters, StorageKeyDiff } from './Types';
+import {
+    DiffBlockRange, DiffHandlerEvents, ProcessedParameters, StorageKeyDiff, WriteProvenance,
+} from './Types';
 import GetProof from '../proofHandler/GetProof';
+import {
+    ConfigError, isMethodNotFoundError, ProofConstructionError, RpcCapabilityError, RpcError,
+} from '../errors';
+import TypedEventEmitter from '../utils/typedEventEmitter';
+import KeyIndexEnumerator from '../keyEnumerator/KeyIndexEnumerator';
 
-async function processParameters(srcAddress: string, srcProvider: JsonRpcProvider, srcBlock?: string | number, targetAddress?: string, targetProvider?: JsonRpcProvider, targetBlock?: string | number): Promise<ProcessedParameters> {
-    assert(ethers.utils.isAddress(srcAddress), 'contract address is not a valid address');
+/**
+ * Amount of `eth_getProof` requests that are sent at once per diff by default
+ */
+export const DEFAULT_DIFF_CONCURRENCY = 4;
+
+async function processParameters(srcAddress: string, srcProvider: JsonRpcProvider, srcBlock?: string | number, targetAddress?: string, targetProvider?: JsonRpcProvider, targetBlock?: string | number, srcFinality?: Finality): Promise<ProcessedParameters> {
+    if (!ethers.utils.isAddress(srcAddress)) {
+        throw new ConfigError(`contract address ${srcAddress} is not a valid address`);
+    }
 
     if (targetAddress !== undefined && !ethers.utils.isAddress(targetAddress)) {
-        throw new Error(`address ${targetAddress} is not a valid address`);
+        throw new ConfigError(`address ${targetAddress} is not a valid address`);
     } else if (targetAddress !== undefined && !targetProvider) {
-        throw new Error('targetProvider needs to be defined');
+        throw new ConfigError('targetProvider needs to be defined');
     }
 
     const realTargetAddress = targetAddress ?? srcAddress;
     let realSrcBlock = srcBlock ?? 'latest';
     let realTargetBlock = targetBlock ?? 'latest';
 
-    realSrcBlock = await toBlockNumber(realSrcBlock, srcProvider);
-    if (targetProvider) realTargetBlock = await toBlockNumber(realTargetBlock, targetProvider);
+    // the finality policy only applies to the source chain
+    realSrcBlock = await toFinalBlockNumber(realSrcBlock, srcProvider, srcFinality);
+    if (targetProvider) realTargetBlock = await toFinalBlockNumber(realTargetBlock, targetProvider, targetProvider === srcProvider ? srcFinality : undefined);
 
     return {
         srcAddress,
@@ -38,6 +50,66 @@ async function processParameters(srcAddress: string, srcProvider: JsonRpcProvide
     };
 }
 
+function blockRangeOf(processedParameters: ProcessedParameters): DiffBlockRange {
+    // both blocks are resolved to numbers by processParameters
+    return { fromBlock: processedParameters.srcBlock, toBlock: Number(processedParameters.targetBlock) };
+}
+
+/**
+ * Builds the diff of a contract from the storage that was written by its txs.
+ * @param writes the storage writes of every tx, in the order of the blocks and txs
+ * @param oldKeys the keys of the contract before the first tx
+ * @param oldProof the proof of `oldKeys` before the first tx
+ * @param blocks the first and the last block whose txs were taken into account
+ * @throws ProofConstructionError if `oldProof` lacks one of `oldKeys`
+ */
+function diffFromStorageWrites(writes: Array<StorageWrite>, oldKeys: Array<string>, oldProof: GetProof, blocks: DiffBlockRange): StorageDiff {
+    const diffs: StorageKeyDiff[] = [];
+
+    // the latest written value of every written key and the tx that wrote it
+    const lastWrites = new Map<string, { value: string, provenance: WriteProvenance }>();
+    writes.forEach(({
+        storage, txHash, blockNumber, txIndex,
+    }) => {
+        Object.entries(storage).forEach(([key, value]) => {
+            const intermediateWrites = (lastWrites.get(key)?.provenance.intermediateWrites ?? -1) + 1;
+            lastWrites.set(key, {
+                value,
+                provenance: {
+                    blockNumber, txHash, txIndex, intermediateWrites,
+                },
+            });
+        });
+    });
+    const oldValues = new Map<string, string>();
+    oldProof.storageProof.forEach((proof) => oldValues.set(ethers.utils.hexZeroPad(proof.key, 32).toLowerCase(), proof.value));
+    const oldKeySet = new Set(oldKeys.map((key) => ethers.utils.hexZeroPad(key, 32).toLowerCase()));
+
+    // gather diffs
+    lastWrites.forEach(({ value, provenance }, key) => {
+        const paddedKey = ethers.utils.hexZeroPad(key, 32).toLowerCase();
+        if (!oldKeySet.has(paddedKey)) {
+            // newly added key
+            diffs.push(new Add(key, value, provenance));
+            return;
+        }
+        const oldValue = oldValues.get(paddedKey);
+        if (oldValue === undefined) {
+            throw new ProofConstructionError(`Could not find storage proof for key ${key}`);
+        }
+        if (ethers.BigNumber.from(value).isZero()) {
+            // removed key
+            diffs.push(new Remove(key, oldValue, provenance));
+        } else if (!ethers.BigNumber.from(value).eq(oldValue)) {
+            // changed key, unless the value equals the old state again
+            diffs.push(new Change(key, oldValue, value, provenance));
+        }
+    });
+
+    // todo need to add the toKeys array (if it is needed)
+    return new StorageDiff(diffs, oldKeys, [], blocks);
+}
+
 class DiffHandler {
     /**
      * The provider used to access the source chain
@@ -58,16 +130,103 @@ class DiffHandler {
      */
     private readonly batchSize: number;
 
+    /**
+     * Emits the progress of the diffs, see `DiffHandlerEvents`
+     */
+    readonly events: TypedEventEmitter<DiffHandlerEvents>;
+
+    /**
+     * Finality policy of the source chain, `latest` resolves to the newest final block and newer blocks are rejected
+     * @private
+     */
+    private readonly srcFinality?: Finality;
+
+    /**
+     * How many requests for storage values are sent at once
+     * @private
+     */
+    private readonly concurrency: number;
+
+    /**
+     * Index of the keys of the source contract, used instead of listing the keys through the source node
+     * @private
+     */
+    private readonly keyIndex?: KeyIndexEnumerator;
+
     /**
      *
      * @param srcProvider an `ethers` JsonRpcProvider used to connect to the source chain
      * @param targetProvider an `ethers` JsonRpcProvider used to connect to the target chain
      * @param batchSize how many keys to retrieve per request [parity_liststoragekeys](https://openethereum.github.io/JSONRPC-parity-module#parity_liststoragekeys)
+     * @param events emitter to use for the events, e.g. the one of a `ChainProxy`
+     * @param srcFinality finality policy of the source chain, any block is used if undefined
+     * @param concurrency how many requests for storage values are sent at once, each request asks for `batchSize` keys
+     * @param keyIndex index of the keys of the source contract, the txs of every srcTx diff are added to it
      */
-    constructor(srcProvider: JsonRpcProvider, targetProvider: JsonRpcProvider = srcProvider, batchSize = 50) {
+    constructor(srcProvider: JsonRpcProvider, targetProvider: JsonRpcProvider = srcProvider, batchSize = 50, events = new TypedEventEmitter<DiffHandlerEvents>(), srcFinality?: Finality, concurrency = DEFAULT_DIFF_CONCURRENCY, keyIndex?: KeyIndexEnumerator) {
         this.srcProvider = srcProvider;
         this.targetProvider = targetProvider;
         this.batchSize = batchSize;
+        this.events = events;
+        this.srcFinality = srcFinality;
+        this.concurrency = concurrency;
+        this.keyIndex = keyIndex;
+    }
+
+    /**
+     * `getAllKeys` that emits `keysEnumerated`. The keys of the source chain are read from the key index if one is given.
+     */
+    private async listKeys(contract: string, provider: JsonRpcProvider, block: number | string): Promise<Array<string>> {
+        const keys = await getAllKeys(contract, provider, block, this.batchSize, provider === this.srcProvider ? this.keyIndex : undefined);
+        this.events.emit('keysEnumerated', { contract, block, keys: keys.length });
+        return keys;
+    }
+
+    /**
+     * Adds the keys that were written by the txs of the source contract to the key index, if there is one.
+     */
+    private async recordWrites(srcAddress: string, writes: Array<StorageWrite>, processedParameters: ProcessedParameters) {
+        if (!this.keyIndex || srcAddress.toLowerCase() !== this.keyIndex.index.data.srcContract.toLowerCase()) return;
+        const { fromBlock, toBlock } = blockRangeOf(processedParameters);
+        await this.keyIndex.recordWrites(writes, fromBlock, toBlock);
+    }
+
+    /**
+     * `eth_getProof` that emits `proofFetched`
+     */
+    private async fetchProof(contract: string, provider: JsonRpcProvider, keys: Array<string>, block: number | string): Promise<GetProof> {
+        const proof = new GetProof(await provider.send('eth_getProof', [contract, keys, toParityQuantity(block)]));
+        this.events.emit('proofFetched', { contract, block, keys: keys.length });
+        return proof;
+    }
+
+    /**
+     * Fetches the values of `keys` through `eth_getProof`, `batchSize` keys per request and at most `concurrency` requests at once.
+     * @param onFetched called with the amount of keys of every answered request
+     * @returns the value of every key, both padded to 32 bytes. Keys are in lower case.
+     * @throws RpcCapabilityError if the node does not provide `eth_getProof`
+     */
+    private async fetchValues(contract: string, provider: JsonRpcProvider, keys: Array<string>, block: number | string, onFetched: (keys: number) => void): Promise<Map<string, string>> {
+        const batches: Array<Array<string>> = [];
+        for (let i = 0; i < keys.length; i += this.batchSize) {
+            batches.push(keys.slice(i, i + this.batchSize));
+        }
+        const proofs = await mapConcurrently(batches, this.concurrency, async (batch) => {
+            let proof: GetProof;
+            try {
+                proof = await this.fetchProof(contract, provider, batch, block);
+            } catch (e) {
+                if (isMethodNotFoundError(e)) throw new RpcCapabilityError('eth_getProof', provider.connection.url, e);
+                throw new RpcError(`Could not get the storage values of ${contract} from ${provider.connection.url}.`, e);
+            }
+            onFetched(batch.length);
+            return proof;
+        });
+        const values = new Map<string, string>();
+        proofs.forEach((proof) => proof.storageProof.forEach((storageProof) => {
+            values.set(ethers.utils.hexZeroPad(storageProof.key, 32).toLowerCase(), ethers.utils.hexZeroPad(ethers.BigNumber.from(storageProof.value).toHexString(), 32));
+        }));
+        return values;
     }
 
     /**
@@ -77,6 +236,7 @@ class DiffHandler {
      * If `srcAddress` contains an additional storage key and value, this is represented as `Remove`.
      * If both contracts contain the storage key in question but its value differs in `srcAddress` and `targetAddress`,
      * this is represented as a `Change` where the `Change` `srcValue` is set to the value of the `srcAddress`'s storage.
+     * The values of both contracts are fetched through `eth_getProof` in batches of `batchSize` keys, see `concurrency`.
      * @param srcAddress the address of the contract to get the diff for
      * @param targetAddress the address of the contract that `srcAddress` is compared against
      * @param targetBlock the block number of the targeted block of this comparison
@@ -84,44 +244,53 @@ class DiffHandler {
      * @returns the diff between the storage of the two contracts at their specific blocks as list of `StorageDiff`
      */
     async getDiffFromStorage(srcAddress: string, targetAddress?: string, srcBlock?: string | number, targetBlock?: string | number): Promise<StorageDiff> {
-        let processedParameters: ProcessedParameters;
-        try {
-            processedParameters = await processParameters(srcAddress, this.srcProvider, srcBlock, targetAddress, this.targetProvider, targetBlock);
-        } catch (e) {
-            logger.error(e);
-            return new StorageDiff([], [], []);
-        }
+        const processedParameters: ProcessedParameters = await processParameters(srcAddress, this.srcProvider, srcBlock, targetAddress, this.targetProvider, targetBlock, this.srcFinality);
 
-        const toKeys: Array<string> = await getAllKeys(processedParameters.targetAddress, this.targetProvider, processedParameters.targetBlock, this.batchSize);
-        const fromKeys: Array<string> = await getAllKeys(processedParameters.srcAddress, this.srcProvider, processedParameters.srcBlock, this.batchSize);
+        const toKeys: Array<string> = await this.listKeys(processedParameters.targetAddress, this.targetProvider, processedParameters.targetBlock);
+        const fromKeys: Array<string> = await this.listKeys(processedParameters.srcAddress, this.srcProvider, processedParameters.srcBlock);
 
-        const diffs: StorageKeyDiff[] = [];
+        // the values of both contracts are fetched at once, the progress covers both of them
+        const total = fromKeys.length + toKeys.length;
+        let done = 0;
+        const onFetched = (keys: number) => {
+            done += keys;
+            this.events.emit('progress', { task: 'fetchStorageValues', done, total });
+        };
+        this.events.emit('progress', { task: 'fetchStorageValues', done, total });
+        const [srcValues, targetValues] = await Promise.all([
+            this.fetchValues(processedParameters.srcAddress, this.srcProvider, fromKeys, processedParameters.srcBlock, onFetched),
+            this.fetchValues(processedParameters.targetAddress, this.targetProvider, toKeys, processedParameters.targetBlock, onFetched),
+        ]);
+        const valueOf = (values: Map<string, string>, key: string): string => {
+            const value = values.get(key.toLowerCase());
+            if (value === undefined) {
+                throw new ProofConstructionError(`Could not find storage proof for key ${key}`);
+            }
+            return value;
+        };
 
-        /* eslint-disable no-await-in-loop */
-        for (let i = 0; i < fromKeys.length; i += 1) {
-            const key: string = fromKeys[i];
-            const index: number = toKeys.indexOf(key);
-            if (index !== -1) {
-                toKeys.splice(index, 1);
+        const diffs: StorageKeyDiff[] = [];
+        const fromKeySet = new Set(fromKeys.map((key) => key.toLowerCase()));
+        const toKeySet = new Set(toKeys.map((key) => key.toLowerCase()));
+        fromKeys.forEach((key) => {
+            const valueFrom = valueOf(srcValues, key);
+            if (toKeySet.has(key.toLowerCase())) {
                 // check if there are any differences in the values
-                const valueFrom = await this.srcProvider.getStorageAt(processedParameters.srcAddress, key, processedParameters.srcBlock);
-                const valueTo = await this.targetProvider.getStorageAt(processedParameters.targetAddress, key, processedParameters.targetBlock);
+                const valueTo = valueOf(targetValues, key);
                 if (valueFrom !== valueTo) {
                     diffs.push(new Change(key, valueFrom, valueTo));
                 }
             } else {
                 // key is only present in `sourceAddress`
-                diffs.push(new Remove(key, await this.srcProvider.getStorageAt(processedParameters.srcAddress, key, processedParameters.srcBlock)));
+                diffs.push(new Remove(key, valueFrom));
             }
-        }
+        });
         // keys that are present in block `target` but not in `srcBlock`.
-        /* eslint-disable no-restricted-syntax */
-        for (const key of toKeys) {
-            diffs.push(new Add(key, await this.targetProvider.getStorageAt(processedParameters.targetAddress, key, processedParameters.targetBlock)));
-        }
-        /* eslint-enable no-await-in-loop */
-        /* eslint-enable no-restricted-syntax */
-        return new StorageDiff(diffs, fromKeys, toKeys);
+        const onlyToKeys = toKeys.filter((key) => !fromKeySet.has(key.toLowerCase()));
+        onlyToKeys.forEach((key) => {
+            diffs.push(new Add(key, valueOf(targetValues, key)));
+        });
+        return new StorageDiff(diffs, fromKeys, onlyToKeys, blockRangeOf(processedParameters));
     }
 
     /**
@@ -130,100 +299,114 @@ class DiffHandler {
      * If `srcAddress` contains an additional storage key and value, this is represented as `Add`.
      * If `srcAddress` nullifies a storage key and value, this is represented as `Remove`.
      * If key already exists at `srcAddress` and its value differs in `srcAddress`, then
-     * this is represented as a `Change` where the `Change` `srcValue` is set to the value of the `srcAddress`'s storage.
+     * this is represented as a `Change` where the `Change` `srcValue` is set to the value of the `srcAddress`'s storage before `srcBlock`.
+     * Every diff carries the `provenance` of the tx that wrote its final value.
      * @param srcAddress the address of the contract to get the diff for
      * @param latestSrcBlock the block number of the targeted block of this comparison
      * @param earliestSrcBlock the number of the block that is the base for this comparison
      * @returns the diff between the storage of the two contracts at their specific blocks as list of `StorageDiff`
      */
     async getDiffFromSrcContractTxs(srcAddress: string, latestSrcBlock?: string | number, earliestSrcBlock?: string | number): Promise<StorageDiff> {
-        let processedParameters: ProcessedParameters;
-        try {
-            processedParameters = await processParameters(srcAddress, this.srcProvider, earliestSrcBlock, srcAddress, this.srcProvider, latestSrcBlock);
-        } catch (e) {
-            logger.error(e);
-            return new StorageDiff([], [], []);
-        }
+        const processedParameters: ProcessedParameters = await processParameters(srcAddress, this.srcProvider, earliestSrcBlock, srcAddress, this.srcProvider, latestSrcBlock, this.srcFinality);
 
-        const diffs: StorageKeyDiff[] = [];
         const srcTxHandler = new TransactionHandler(processedParameters.srcAddress, this.srcProvider, this.batchSize);
 
         // getting all tx from srcAddress
-        const txs = await srcTxHandler.getTransactions(processedParameters.targetBlock, processedParameters.srcBlock);
-        const oldKeys = await getAllKeys(srcAddress, this.srcProvider, processedParameters.srcBlock - 1);
-        const oldProof = new GetProof(await this.srcProvider.send('eth_getProof', [srcAddress, oldKeys, toParityQuantity(processedParameters.srcBlock - 1)]));
-
-        const changedStorage: { [ key: string ]: string } = {};
+        const txs = await srcTxHandler.getTransactionPositions(processedParameters.targetBlock, processedParameters.srcBlock);
+        const oldKeys = await this.listKeys(srcAddress, this.srcProvider, processedParameters.srcBlock - 1);
+        const oldProof = await this.fetchProof(srcAddress, this.srcProvider, oldKeys, processedParameters.srcBlock - 1);
 
         // replay storage changes
         logger.info(`Replaying ${txs.length} transactions...`);
-        let txStorages: Array<{ [ key: string ]: string } | undefined> = [];
-        let progressBar: CliProgress.SingleBar | undefined;
-        if (!isDebug(logger.settings.minLevel)) {
-            progressBar = new CliProgress.SingleBar({}, CliProgress.Presets.shades_classic);
-            progressBar.start(txs.length, 0);
-        }
-        while (txs.length > 0) {
+        const writes: Array<StorageWrite> = [];
+        const total = txs.length;
+        let done = 0;
+        this.events.emit('progress', { task: 'replayTransactions', done: 0, total });
+        while (done < total) {
+            const currTxs = txs.slice(done, done + this.batchSize);
             // eslint-disable-next-line no-await-in-loop
-            const currTxs = await Promise.all(txs.splice(0, this.batchSize).map((tx) => srcTxHandler.replayTransaction(tx)));
-            txStorages = txStorages.concat(currTxs);
-            progressBar?.increment(currTxs.length);
+            const txStorages = await Promise.all(currTxs.map((tx) => srcTxHandler.replayTransaction(tx.txHash)));
+            txStorages.forEach((storage, i) => {
+                if (storage) {
+                    logger.debug('srcTx txStorage: ', storage);
+                    writes.push({ ...currTxs[i], storage });
+                }
+            });
+            done += currTxs.length;
+            this.events.emit('progress', { task: 'replayTransactions', done, total });
         }
-        progressBar?.stop();
-        txStorages.forEach((storage) => {
-            if (storage) {
-                logger.debug('srcTx txStorage: ', storage);
-
-                Object.entries(storage).forEach(([key, value]) => {
-                    changedStorage[key] = value;
-                });
-            }
-        });
         logger.info('Done.');
+        await this.recordWrites(srcAddress, writes, processedParameters);
 
-        // gather diffs
-        const newKeys = Object.keys(changedStorage);
-        newKeys.forEach((key) => {
-            const oldIndex = oldKeys.indexOf(key);
-            if (oldIndex === -1) {
-                // newly added key
-                diffs.push(new Add(key, changedStorage[key]));
-            } else if (!changedStorage[key].match(/0x[0]{64}/g)) {
-                // check if value is equal the old state again
-                const oldValue = oldProof.storageProof.findIndex((proof) => ethers.utils.hexZeroPad(changedStorage[key], 32) === ethers.utils.hexZeroPad(proof.value, 32) && ethers.utils.hexZeroPad(proof.key, 32) === ethers.utils.hexZeroPad(key, 32));
-
-                if (oldValue < 0) {
-                    // changed key
-                    diffs.push(new Change(key, 0, changedStorage[key]));
-                }
-            } else {
-                // removed key
-                diffs.push(new Remove(key, 0));
-            }
-        });
+        return diffFromStorageWrites(writes, oldKeys, oldProof, blockRangeOf(processedParameters));
+    }
 
-        // todo need to add the toKeys array (if it is needed)
-        return new StorageDiff(diffs, oldKeys, []);
+    /**
+     * Like `getDiffFromSrcContractTxs`, but replays all txs of a block with a single `trace_replayBlockTransactions` request
+     * instead of one `trace_replayTransaction` request per tx.
+     * @param srcAddress the address of the contract to get the diff for
+     * @param latestSrcBlock the block number of the targeted block of this comparison
+     * @param earliestSrcBlock the number of the block that is the base for this comparison
+     * @returns the diff between the storage of the two contracts at their specific blocks as list of `StorageDiff`
+     */
+    async getDiffFromSrcContractBlocks(srcAddress: string, latestSrcBlock?: string | number, earliestSrcBlock?: string | number): Promise<StorageDiff> {
+        const processedParameters: ProcessedParameters = await processParameters(srcAddress, this.srcProvider, earliestSrcBlock, srcAddress, this.srcProvider, latestSrcBlock, this.srcFinality);
+
+        const srcTxHandler = new TransactionHandler(processedParameters.srcAddress, this.srcProvider, this.batchSize);
+        const oldKeys = await this.listKeys(srcAddress, this.srcProvider, processedParameters.srcBlock - 1);
+        const oldProof = await this.fetchProof(srcAddress, this.srcProvider, oldKeys, processedParameters.srcBlock - 1);
+
+        const writes = await srcTxHandler.replayBlockStorageWrites(
+            processedParameters.targetBlock,
+            processedParameters.srcBlock,
+            this.concurrency,
+            (done, total) => this.events.emit('progress', { task: 'replayBlocks', done, total }),
+        );
+        logger.info('Done.');
+        await this.recordWrites(srcAddress, writes, processedParameters);
+
+        return diffFromStorageWrites(writes, oldKeys, oldProof, blockRangeOf(processedParameters));
+    }
+
+    /**
+     * Like `getDiffFromSrcContractTxs`, but takes the storage writes from the prestateTracer of `debug_traceBlockByNumber` in diff mode
+     * instead of `trace_filter` and `trace_replayTransaction`, so that it also works with Geth-compatible nodes.
+     * Every block between `earliestSrcBlock` and `latestSrcBlock` is traced.
+     * @param srcAddress the address of the contract to get the diff for
+     * @param latestSrcBlock the block number of the targeted block of this comparison
+     * @param earliestSrcBlock the number of the block that is the base for this comparison
+     * @returns the diff between the storage of the two contracts at their specific blocks as list of `StorageDiff`
+     */
+    async getDiffFromSrcContractPrestate(srcAddress: string, latestSrcBlock?: string | number, earliestSrcBlock?: string | number): Promise<StorageDiff> {
+        const processedParameters: ProcessedParameters = await processParameters(srcAddress, this.srcProvider, earliestSrcBlock, srcAddress, this.srcProvider, latestSrcBlock, this.srcFinality);
+
+        const srcTxHandler = new TransactionHandler(processedParameters.srcAddress, this.srcProvider, this.batchSize);
+        const oldKeys = await this.listKeys(srcAddress, this.srcProvider, processedParameters.srcBlock - 1);
+        const oldProof = await this.fetchProof(srcAddress, this.srcProvider, oldKeys, processedParameters.srcBlock - 1);
+
+        logger.info(`Tracing blocks ${processedParameters.srcBlock} to ${processedParameters.targetBlock}...`);
+        const writes = await srcTxHandler.traceStorageWrites(
+            processedParameters.targetBlock,
+            processedParameters.srcBlock,
+            this.concurrency,
+            (done, total) => this.events.emit('progress', { task: 'traceBlocks', done, total }),
+        );
+        logger.info('Done.');
+        await this.recordWrites(srcAddress, writes, processedParameters);
+
+        return diffFromStorageWrites(writes, oldKeys, oldProof, blockRangeOf(processedParameters));
     }
 
     async getDiffFromProof(srcAddress: string, latestSrcBlock: string | number, earliestSrcBlock: string | number, targetAddress: string = srcAddress): Promise<StorageDiff> {
-        let processedParameters: ProcessedParameters;
-        try {
-            processedParameters = await processParameters(srcAddress, this.srcProvider, earliestSrcBlock, targetAddress, this.targetProvider, latestSrcBlock);
-        } catch (e) {
-            logger.error(e);
-            return new StorageDiff([], [], []);
-        }
+        const processedParameters: ProcessedParameters = await processParameters(srcAddress, this.srcProvider, earliestSrcBlock, targetAddress, this.targetProvider, latestSrcBlock, this.srcFinality);
 
         const diffs: StorageKeyDiff[] = [];
 
-        const oldKeys = await getAllKeys(srcAddress, this.srcProvider, processedParameters.srcBlock);
-        const newKeys = await getAllKeys(targetAddress, this.targetProvider, processedParameters.targetBlock);
+        const oldKeys = await this.listKeys(srcAddress, this.srcProvider, processedParameters.srcBlock);
+        const newKeys = await this.listKeys(targetAddress, this.targetProvider, processedParameters.targetBlock);
 
-        const paritySrcBlock = toParityQuantity(processedParameters.srcBlock);
-        const parityTargetBlock = toParityQuantity(processedParameters.targetBlock);
-        const oldProof = new GetProof(await this.srcProvider.send('eth_getProof', [srcAddress, oldKeys, paritySrcBlock]));
-        const newProof = new GetProof(await this.targetProvider.send('eth_getProof', [targetAddress, newKeys, parityTargetBlock]));
+        const oldProof = await this.fetchProof(srcAddress, this.srcProvider, oldKeys, processedParameters.srcBlock);
+        const newProof = await this.fetchProof(targetAddress, this.targetProvider, newKeys, processedParameters.targetBlock);
 
         /* eslint-disable no-await-in-loop */
         for (let i = 0; i < newKeys.length; i += 1) {
@@ -231,9 +414,7 @@ class DiffHandler {
             const index: number = oldProof.storageProof.findIndex((storageProof) => key === ethers.utils.hexZeroPad(storageProof.key, 32));
             const newStorageProof = newProof.storageProof.find((storageProof) => key === ethers.utils.hexZeroPad(storageProof.key, 32));
             if (!newStorageProof) {
-                logger.error(`Could not find storage proof for key ${key}`);
-                // eslint-disable-next-line no-continue
-                continue;
+                throw new ProofConstructionError(`Could not find storage proof for key ${key}`);
             }
             if (index !== -1) {
                 // check if there are any differences in the values
@@ -251,7 +432,7 @@ class DiffHandler {
         for (const proof of oldProof.storageProof) {
             diffs.push(new Remove(ethers.utils.hexZeroPad(proof.key, 32), proof.value));
         }
-        return new StorageDiff(diffs, oldKeys, newKeys);
+        return new StorageDiff(diffs, oldKeys, newKeys, blockRangeOf(processedParameters));
     }
 }
 
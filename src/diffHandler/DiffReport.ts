@@ -0,0 +1,149 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+import StorageDiff from './StorageDiff';
+import { DecodedChange } from '../storageLayout/Types';
+import { StorageKeyDiff, WriteProvenance } from './Types';
+
+/**
+ * Version of the `DiffReport` schema, raised whenever a field is renamed, removed or changes its meaning
+ */
+export const DIFF_REPORT_VERSION = 1;
+
+export type DiffOutputFormat = 'json' | 'ndjson' | 'csv';
+
+export const DIFF_OUTPUT_FORMATS: Array<DiffOutputFormat> = ['json', 'ndjson', 'csv'];
+
+export type DiffReportKind = 'add' | 'change' | 'remove';
+
+export type DiffReportEntry = {
+    kind: DiffReportKind;
+    /**
+     * storage key, zero-padded to 32 bytes like all values of the report
+     */
+    key: string;
+    /**
+     * value at `fromBlock`, zero for added keys
+     */
+    previousValue: string;
+    /**
+     * value at `toBlock`, zero for removed keys
+     */
+    newValue: string;
+    fromBlock: number | null;
+    toBlock: number | null;
+    /**
+     * the tx that wrote `newValue`, only for the srcTx diff methods
+     */
+    provenance?: WriteProvenance;
+};
+
+export type DiffReportSummary = {
+    adds: number;
+    changes: number;
+    removes: number;
+    total: number;
+};
+
+export type DiffReport = {
+    version: number;
+    srcContract: string;
+    /**
+     * contract the source contract was compared with, undefined for the srcTx diff methods
+     */
+    targetContract?: string;
+    diffMode: string;
+    fromBlock: number | null;
+    toBlock: number | null;
+    summary: DiffReportSummary;
+    diffs: Array<DiffReportEntry>;
+    /**
+     * changed variables, only if the diff was decoded with a storage layout
+     */
+    variables?: Array<DecodedChange>;
+};
+
+const CSV_COLUMNS: Array<keyof DiffReportEntry> = ['kind', 'key', 'previousValue', 'newValue', 'fromBlock', 'toBlock'];
+
+const CSV_PROVENANCE_COLUMNS: Array<keyof WriteProvenance> = ['blockNumber', 'txHash', 'txIndex', 'intermediateWrites'];
+
+function toWord(value: BigNumberish): string {
+    return ethers.utils.hexZeroPad(BigNumber.from(value).toHexString(), 32);
+}
+
+function provenanceOf(keyDiff: StorageKeyDiff): { provenance?: WriteProvenance } {
+    return keyDiff.provenance ? { provenance: keyDiff.provenance } : {};
+}
+
+/**
+ * @param diff diff of `getDiff`, the block range is taken from `diff.blocks`
+ * @param diffMode diff method that computed `diff`
+ * @param variables changed variables of `diff`, see `StorageLayoutDecoder.decodeDiff`
+ */
+export function createDiffReport(diff: StorageDiff, srcContract: string, diffMode: string, targetContract?: string, variables?: Array<DecodedChange>): DiffReport {
+    const fromBlock = diff.blocks?.fromBlock ?? null;
+    const toBlock = diff.blocks?.toBlock ?? null;
+    const zero = toWord(0);
+    const diffs: Array<DiffReportEntry> = [
+        ...diff.adds().map((add) => ({
+            kind: 'add' as DiffReportKind, key: toWord(add.key), previousValue: zero, newValue: toWord(add.value), fromBlock, toBlock, ...provenanceOf(add),
+        })),
+        ...diff.changes().map((change) => ({
+            kind: 'change' as DiffReportKind, key: toWord(change.key), previousValue: toWord(change.srcValue), newValue: toWord(change.targetValue), fromBlock, toBlock, ...provenanceOf(change),
+        })),
+        ...diff.removes().map((remove) => ({
+            kind: 'remove' as DiffReportKind, key: toWord(remove.key), previousValue: toWord(remove.value), newValue: zero, fromBlock, toBlock, ...provenanceOf(remove),
+        })),
+    ];
+    return {
+        version: DIFF_REPORT_VERSION,
+        srcContract,
+        targetContract,
+        diffMode,
+        fromBlock,
+        toBlock,
+        summary: {
+            adds: diff.adds().length,
+            changes: diff.changes().length,
+            removes: diff.removes().length,
+            total: diffs.length,
+        },
+        diffs,
+        variables,
+    };
+}
+
+/**
+ * json: the report as one object.
+ * ndjson: one line per object, a `meta` line with the fields of the report except for `summary`, `diffs` and `variables`, a `diff` line per entry,
+ * a `variable` line per changed variable with the variable in its `variable` field and a final `summary` line.
+ * csv: `#` comment lines with the meta data and the summary, followed by a header line and a line per entry. The variables are left out,
+ * the fields of the provenance are added as columns if any entry has one.
+ * @returns the report in `format`, ending with a newline
+ */
+export function formatDiffReport(report: DiffReport, format: DiffOutputFormat): string {
+    const {
+        summary, diffs, variables, ...meta
+    } = report;
+    switch (format) {
+        case 'ndjson':
+            return [
+                { type: 'meta', ...meta },
+                ...diffs.map((entry) => ({ type: 'diff', ...entry })),
+                ...(variables ?? []).map((variable) => ({ type: 'variable', variable })),
+                { type: 'summary', ...summary },
+            ].map((line) => `${JSON.stringify(line)}\n`).join('');
+        case 'csv': {
+            const provenanceColumns = diffs.some((entry) => entry.provenance) ? CSV_PROVENANCE_COLUMNS : [];
+            return [
+                ...Object.entries(meta).filter(([, value]) => value !== undefined && value !== null).map(([field, value]) => `# ${field}: ${value}`),
+                ...Object.entries(summary).map(([field, value]) => `# ${field}: ${value}`),
+                [...CSV_COLUMNS, ...provenanceColumns].join(','),
+                ...diffs.map((entry) => [
+                    ...CSV_COLUMNS.map((column) => entry[column] ?? ''),
+                    ...provenanceColumns.map((column) => entry.provenance?.[column] ?? ''),
+                ].join(',')),
+            ].map((line) => `${line}\n`).join('');
+        }
+        default:
+            return `${JSON.stringify(report, null, 4)}\n`;
+    }
+}
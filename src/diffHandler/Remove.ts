@@ -1,16 +1,19 @@
 import { BigNumberish } from 'ethers';
-import { DiffKind, StorageKeyDiff } from './Types';
+import { DiffKind, StorageKeyDiff, WriteProvenance } from './Types';
 
 class Remove implements StorageKeyDiff {
     public key: BigNumberish;
 
     public value: BigNumberish;
 
+    public provenance?: WriteProvenance;
+
     public diffKind: DiffKind = DiffKind.Remove;
 
-    constructor(key: BigNumberish, value: BigNumberish) {
+    constructor(key: BigNumberish, value: BigNumberish, provenance?: WriteProvenance) {
         this.key = key;
         this.value = value;
+        this.provenance = provenance;
     }
 
     kind(): DiffKind {
@@ -2,7 +2,7 @@ import { BigNumberish } from 'ethers';
 import Add from './Add';
 import Change from './Change';
 import Remove from './Remove';
-import { DiffKind, StorageKeyDiff } from './Types';
+import { DiffBlockRange, DiffKind, StorageKeyDiff } from './Types';
 
 class StorageDiff {
     public diffs: StorageKeyDiff[];
@@ -11,15 +11,19 @@ class StorageDiff {
 
     public toKeys: Array<string>;
 
+    public blocks?: DiffBlockRange;
+
     /**
     * @Param diffs: key/value differences between two contract states
     * @param fromKeys: all keys from one contract state
     * @param toKeys: all keys from contract state that is compared to fromKeys contract state
+    * @param blocks: the blocks of both contract states, if known
     */
-    constructor(diffs: StorageKeyDiff[], fromKeys: Array<string>, toKeys: Array<string>) {
+    constructor(diffs: StorageKeyDiff[], fromKeys: Array<string>, toKeys: Array<string>, blocks?: DiffBlockRange) {
         this.diffs = diffs;
         this.fromKeys = fromKeys;
         this.toKeys = toKeys;
+        this.blocks = blocks;
     }
 
     /**
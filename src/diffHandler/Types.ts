@@ -1,4 +1,5 @@
 import { BigNumberish } from 'ethers';
+import { ProgressEvent } from '../utils/typedEventEmitter';
 
 export type ProcessedParameters = {
     srcAddress: string;
@@ -7,6 +8,31 @@ export type ProcessedParameters = {
     targetBlock: number | string;
 };
 
+/**
+ * Blocks that a diff compares. Both are blocks of the source chain for the srcTx diff methods,
+ * `toBlock` is a block of the target chain when the source contract is compared with a contract on the target chain.
+ */
+export type DiffBlockRange = {
+    fromBlock: number;
+    toBlock: number;
+};
+
+/**
+ * The tx that wrote the final value of a key within the block range of a srcTx diff
+ */
+export type WriteProvenance = {
+    blockNumber: number;
+    txHash: string;
+    /**
+     * position of the tx in its block
+     */
+    txIndex: number;
+    /**
+     * how often the key was written within the block range before the final write
+     */
+    intermediateWrites: number;
+};
+
 /* eslint-disable no-shadow */
 /* eslint-disable no-unused-vars */
 export enum DiffKind {
@@ -23,8 +49,27 @@ export interface StorageKeyDiff {
      */
     key: BigNumberish;
 
+    /**
+     * The tx that wrote the value, only for the srcTx diff methods
+     */
+    provenance?: WriteProvenance;
+
     /**
      * What kind of change this is
      */
     kind(): DiffKind;
 }
+
+export type DiffHandlerEvents = {
+    /**
+     * all storage keys of `contract` at `block` were listed
+     */
+    keysEnumerated: { contract: string; block: number | string; keys: number };
+
+    /**
+     * `eth_getProof` returned the proofs of `keys` storage keys of `contract` at `block`
+     */
+    proofFetched: { contract: string; block: number | string; keys: number };
+
+    progress: ProgressEvent;
+};
@@ -0,0 +1,174 @@
+/* eslint-disable max-classes-per-file */
+import { ethers } from 'ethers';
+
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * JSON-RPC error code for a method that the node does not provide
+ */
+const METHOD_NOT_FOUND_CODE = -32601;
+
+/**
+ * Base class of all errors thrown by smart-sync.
+ */
+export class SmartSyncError extends Error {
+    /**
+     * the error that caused this error, if any
+     */
+    readonly cause?: unknown;
+
+    constructor(message: string, cause?: unknown) {
+        super(message);
+        this.name = new.target.name;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Invalid or missing configuration, e.g. an invalid address, an unreadable account file or a missing option.
+ */
+export class ConfigError extends SmartSyncError {}
+
+/**
+ * An RPC request to the source or target chain failed.
+ */
+export class RpcError extends SmartSyncError {}
+
+/**
+ * The node does not provide an RPC method that is required, e.g. `parity_listStorageKeys` or `trace_filter`.
+ */
+export class RpcCapabilityError extends RpcError {
+    readonly method: string;
+
+    constructor(method: string, url: string, cause?: unknown) {
+        super(`The node at ${url} does not support ${method}.`, cause);
+        this.method = method;
+    }
+}
+
+/**
+ * A storage or account proof could not be built from the responses of `eth_getProof`.
+ */
+export class ProofConstructionError extends SmartSyncError {}
+
+/**
+ * A tx on the target chain reverted, either while estimating its gas or after it was mined.
+ */
+export class TargetTxRevertedError extends SmartSyncError {
+    /**
+     * decoded revert reason, undefined if the contract did not return one
+     */
+    readonly reason?: string;
+
+    /**
+     * hash of the reverted tx, undefined if the tx was not sent
+     */
+    readonly txHash?: string;
+
+    constructor(description: string, reason?: string, txHash?: string, cause?: unknown) {
+        super(`${description} reverted${reason ? `: ${reason}` : ''}${txHash ? ` (tx ${txHash})` : ''}`, cause);
+        this.reason = reason;
+        this.txHash = txHash;
+    }
+}
+
+/**
+ * A tx does not fit into the gas budget of the target chain, even when it is split as far as possible.
+ */
+export class GasLimitExceededError extends SmartSyncError {}
+
+/**
+ * The relay contract did not accept the migrated or synchronized state.
+ */
+export class VerificationError extends SmartSyncError {}
+
+/**
+ * An operation was called in a state that does not allow it, e.g. synchronizing a proxy contract that was not migrated yet.
+ */
+export class InvalidStateError extends SmartSyncError {}
+
+/**
+ * The relay contract or the proxy contract holds blocks of the source chain that were reorganized away.
+ */
+export class ReorgError extends SmartSyncError {}
+
+/**
+ * A storage patch was modified after it was exported, is not signed by the expected exporter or its parts do not belong together.
+ */
+export class PatchIntegrityError extends SmartSyncError {}
+
+/**
+ * A tx on the target chain was not mined, even after its fees were raised as far as the fee configuration allows.
+ */
+export class StuckTxError extends SmartSyncError {}
+
+/**
+ * @param data return data of a reverted call
+ * @returns the reason encoded as `Error(string)` or `Panic(uint256)`, undefined if the data holds neither
+ */
+export function decodeRevertReason(data: string): string | undefined {
+    try {
+        if (data.startsWith(ERROR_STRING_SELECTOR)) {
+            return ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4))[0];
+        }
+        if (data.startsWith(PANIC_SELECTOR)) {
+            return `panic code ${ethers.utils.defaultAbiCoder.decode(['uint256'], ethers.utils.hexDataSlice(data, 4))[0].toHexString()}`;
+        }
+    } catch (e) {
+        // not decodable
+    }
+    return undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+/**
+ * @param error error of unknown shape, e.g. thrown by ethers
+ * @param path names of the nested fields
+ * @returns the field at `path`, undefined if `error` has no such field
+ */
+export function errorField(error: unknown, ...path: Array<string>): unknown {
+    let value = error;
+    for (let i = 0; i < path.length; i += 1) {
+        if (!isObject(value)) return undefined;
+        value = value[path[i]];
+    }
+    return value;
+}
+
+/**
+ * @returns the lower case text of the fields at `paths` of `error` that are strings
+ */
+export function errorText(error: unknown, ...paths: Array<Array<string>>): string {
+    return paths.map((path) => errorField(error, ...path)).filter((field): field is string => typeof field === 'string').join(' ').toLowerCase();
+}
+
+/**
+ * @param error error thrown by ethers for a reverted call or tx
+ * @returns the revert reason given by the contract, undefined if there is none
+ */
+export function revertReasonOf(error: unknown): string | undefined {
+    // ethers nests the JSON-RPC error differently depending on the call
+    const candidates = [['data'], ['error', 'data'], ['error', 'error', 'data'], ['error', 'body'], ['body']].map((path) => errorField(error, ...path));
+    for (let i = 0; i < candidates.length; i += 1) {
+        const candidate = candidates[i];
+        const data = typeof candidate === 'string' ? candidate.match(/0x(08c379a0|4e487b71)[0-9a-fA-F]*/)?.[0] : undefined;
+        const reason = data ? decodeRevertReason(data) : undefined;
+        if (reason) return reason;
+    }
+    const reason = errorField(error, 'reason');
+    return typeof reason === 'string' ? reason : undefined;
+}
+
+/**
+ * @param error error thrown by ethers for an RPC request
+ * @returns true if the node does not provide the requested method
+ */
+export function isMethodNotFoundError(error: unknown): boolean {
+    const code = errorField(error, 'error', 'code') ?? errorField(error, 'code');
+    const message = errorText(error, ['message'], ['error', 'message'], ['body']);
+    return code === METHOD_NOT_FOUND_CODE || message.includes('method not found') || message.includes('does not exist/is not available');
+}
@@ -0,0 +1,165 @@
+import {
+    ChainProxy, SyncProof, SyncResult,
+} from './chain-proxy';
+import DiffHandler from './diffHandler/DiffHandler';
+import { DiffHandlerEvents } from './diffHandler/Types';
+import TypedEventEmitter from './utils/typedEventEmitter';
+import { logger } from './utils/logger';
+import { ConfigError, GasLimitExceededError } from './errors';
+
+export type SyncTarget = {
+    /**
+     * name of the target in logs and results, e.g. the name of its chain
+     */
+    name: string;
+    /**
+     * initialized chain proxy of the target's proxy contract, its source chain must be the source chain of all other targets
+     */
+    chainProxy: ChainProxy;
+};
+
+export type TargetSyncResult = {
+    target: string;
+    /**
+     * one result per updateStorage tx that was sent to the target, also filled if the target failed later on
+     */
+    results: Array<SyncResult>;
+    /**
+     * the error the target failed with, undefined if it was synchronized
+     */
+    error?: unknown;
+};
+
+export type FanOutSyncEvents = DiffHandlerEvents & {
+    /**
+     * `target` was synchronized up to `blockNumber`
+     */
+    targetSynced: { target: string; blockNumber: number; results: Array<SyncResult> };
+
+    /**
+     * `target` failed with `error`, the other targets are still synchronized
+     */
+    targetFailed: { target: string; error: unknown };
+};
+
+type TargetState = SyncTarget & { results: Array<SyncResult>; error?: unknown; currentBlock: number };
+
+function pendingTargets(states: Array<TargetState>, lastBlock: number): Array<TargetState> {
+    return states.filter((state) => state.error === undefined && state.currentBlock < lastBlock);
+}
+
+/**
+ * Synchronizes the proxy contracts of one source contract on several target chains.
+ * The diff of the source contract and the proof of its storage are computed once per block range and submitted to every target.
+ * A target that fails is left out of the remaining block ranges while the other targets are still synchronized.
+ * Only the `srcTx` diff mode is supported since the other modes compare the source contract with a single proxy contract.
+ */
+class FanOutSync {
+    readonly targets: Array<SyncTarget>;
+
+    private differ: DiffHandler;
+
+    /**
+     * Emits the progress of the shared diff and the outcome per target. Txs are emitted by the chain proxy of each target.
+     */
+    readonly events = new TypedEventEmitter<FanOutSyncEvents>();
+
+    /**
+     * @param targets targets to synchronize, at least one
+     * @param batchSize how many txs are replayed at once
+     * @throws ConfigError if no targets are given or their proxy contracts mirror different source contracts
+     */
+    constructor(targets: Array<SyncTarget>, batchSize: number = 50) {
+        if (targets.length === 0) {
+            throw new ConfigError('No targets given to synchronize.');
+        }
+        const { srcContractAddress } = targets[0].chainProxy;
+        const otherSource = targets.find((target) => target.chainProxy.srcContractAddress?.toLowerCase() !== srcContractAddress?.toLowerCase());
+        if (otherSource) {
+            throw new ConfigError(`The proxy contract of target ${otherSource.name} mirrors ${otherSource.chainProxy.srcContractAddress} instead of ${srcContractAddress}.`);
+        }
+        this.targets = targets;
+        this.differ = new DiffHandler(targets[0].chainProxy.srcProvider, targets[0].chainProxy.srcProvider, batchSize, this.events);
+    }
+
+    /**
+     * Synchronizes every target up to `targetBlock` of the source chain. Starting at the target that is furthest behind,
+     * the changes of at most `maxBlockRange` blocks are diffed and proven once and applied to every target that is not synchronized up to the end of the range yet.
+     * A target whose gas budget is too small for the shared updateStorage tx is synchronized on its own with smaller block ranges.
+     * @param targetBlock block of the source chain to synchronize to
+     * @param maxBlockRange maximum amount of blocks that are synchronized with one tx
+     * @returns one result per target in the order of `targets`, failed targets carry their error, e.g. an InvalidStateError if the chain proxy of the target is not initialized
+     */
+    async synchronize(targetBlock: string | number = 'latest', maxBlockRange: number = Number.MAX_SAFE_INTEGER): Promise<Array<TargetSyncResult>> {
+        const { chainProxy: srcChainProxy } = this.targets[0];
+        // the finality policy of the source chain is taken from the first target as well
+        const lastBlock = await srcChainProxy.getBlockNumber(targetBlock);
+
+        const states: Array<TargetState> = await Promise.all(this.targets.map(async (target) => {
+            const state: TargetState = { ...target, results: [], currentBlock: 0 };
+            try {
+                state.currentBlock = (await target.chainProxy.getCurrentBlockNumber()).toNumber();
+            } catch (error) {
+                // also an InvalidStateError of a chain proxy that is not initialized only fails its own target
+                this.fail(state, error);
+            }
+            return state;
+        }));
+
+        let pending = pendingTargets(states, lastBlock);
+        while (pending.length > 0) {
+            const fromBlock = Math.min(...pending.map((state) => state.currentBlock));
+            const upToBlock = Math.min(fromBlock + maxBlockRange, lastBlock);
+            // eslint-disable-next-line no-await-in-loop
+            const diff = await this.differ.getDiffFromSrcContractTxs(srcChainProxy.srcContractAddress, upToBlock, fromBlock + 1);
+            const changedKeys = diff.getKeys();
+            // the proof is built by the chain proxy of any target since it only reads the source chain
+            // eslint-disable-next-line no-await-in-loop
+            const proof = changedKeys.length > 0 ? await pending[0].chainProxy.buildSyncProof(changedKeys, diff.fromKeys, upToBlock) : undefined;
+            if (proof) logger.info(`Synchronizing ${changedKeys.length} keys up to block ${upToBlock} on ${pending.length} targets.`);
+
+            // the keys that changed since `fromBlock` are a superset of the changes of targets that are further ahead, so they get the same proof
+            // eslint-disable-next-line no-await-in-loop
+            await Promise.all(pending.filter((state) => state.currentBlock < upToBlock).map((state) => this.applyProof(state, proof, upToBlock, maxBlockRange)));
+            pending = pendingTargets(states, lastBlock);
+        }
+
+        states.filter((state) => state.error === undefined).forEach((state) => {
+            this.events.emit('targetSynced', { target: state.name, blockNumber: lastBlock, results: state.results });
+        });
+        return states.map(({ name, results, error }) => ({ target: name, results, error }));
+    }
+
+    /**
+     * Applies `proof` to the target of `state`. Failures are recorded in `state` instead of being thrown.
+     */
+    private async applyProof(state: TargetState, proof: SyncProof | undefined, upToBlock: number, maxBlockRange: number) {
+        if (!proof) {
+            // eslint-disable-next-line no-param-reassign
+            state.currentBlock = upToBlock;
+            return;
+        }
+        try {
+            try {
+                state.results.push(await state.chainProxy.applySyncProof(proof));
+            } catch (e) {
+                if (!(e instanceof GasLimitExceededError)) throw e;
+                logger.info(`Changes until block ${upToBlock} do not fit into one tx on target ${state.name}, synchronizing it on its own.`);
+                state.results.push(...await state.chainProxy.synchronize('srcTx', { targetBlock: upToBlock }, maxBlockRange));
+            }
+            // eslint-disable-next-line no-param-reassign
+            state.currentBlock = upToBlock;
+        } catch (error) {
+            this.fail(state, error);
+        }
+    }
+
+    private fail(state: TargetState, error: unknown) {
+        logger.error(`Synchronization of target ${state.name} failed: ${error instanceof Error ? error.message : error}`);
+        // eslint-disable-next-line no-param-reassign
+        state.error = error;
+        this.events.emit('targetFailed', { target: state.name, error });
+    }
+}
+
+export default FanOutSync;
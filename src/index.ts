@@ -0,0 +1,70 @@
+// library entry point of smart-sync, the CLI is in cli/smart-sync.ts
+export {
+    ChainProxy, encodeBlockHeader, RELAY_MODES, DEFAULT_REORG_CHECK_DEPTH, DIFF_METHODS, SRC_TX_DIFF_METHODS,
+} from './chain-proxy';
+export type {
+    ContractAddressMap, RPCConfig, GetDiffMethod, MigrationResult, SyncResult, SyncProof, ChainProxyEvents, RelayMode, HeaderBackfillResult, ReorgCheckResult, ReorgRepairResult,
+} from './chain-proxy';
+export { default as FanOutSync } from './fan-out-sync';
+export type { SyncTarget, TargetSyncResult, FanOutSyncEvents } from './fan-out-sync';
+export { default as DiffHandler, DEFAULT_DIFF_CONCURRENCY } from './diffHandler/DiffHandler';
+export { default as StorageDiff } from './diffHandler/StorageDiff';
+export { default as Add } from './diffHandler/Add';
+export { default as Change } from './diffHandler/Change';
+export { default as Remove } from './diffHandler/Remove';
+export { DiffKind } from './diffHandler/Types';
+export type {
+    StorageKeyDiff, DiffHandlerEvents, DiffBlockRange, WriteProvenance,
+} from './diffHandler/Types';
+export {
+    createDiffReport, formatDiffReport, DIFF_OUTPUT_FORMATS, DIFF_REPORT_VERSION,
+} from './diffHandler/DiffReport';
+export type {
+    DiffOutputFormat, DiffReport, DiffReportEntry, DiffReportKind, DiffReportSummary,
+} from './diffHandler/DiffReport';
+export {
+    default as GetProof, decodeAccount, decodeStorageProof, encodeAccount, formatProofNodes,
+} from './proofHandler/GetProof';
+export type {
+    Account, BlockHeader, IGetProof, StorageProof,
+} from './proofHandler/Types';
+export {
+    FINALITY_TAGS, getFinalBlockNumber, parseFinality, toFinalBlockNumber,
+} from './utils/finality';
+export type { Finality, FinalityTag } from './utils/finality';
+export { createKeyEnumerator, detectKeyEnumerator, KEY_ENUMERATORS } from './keyEnumerator/KeyEnumeratorFactory';
+export { default as ParityKeyEnumerator } from './keyEnumerator/ParityKeyEnumerator';
+export { default as StorageRangeKeyEnumerator, DEFAULT_NEXT_BLOCK_TIMEOUT } from './keyEnumerator/StorageRangeKeyEnumerator';
+export type { KeyEnumerator, KeyEnumeratorName } from './keyEnumerator/Types';
+export { default as KeyIndex, KEY_INDEX_VERSION } from './keyEnumerator/KeyIndex';
+export type { KeyIndexData } from './keyEnumerator/KeyIndex';
+export { default as KeyIndexEnumerator, DEFAULT_INDEX_CONFIRMATIONS } from './keyEnumerator/KeyIndexEnumerator';
+export { default as StorageLayoutDecoder, createStorageReader, DEFAULT_MAX_ELEMENTS } from './storageLayout/StorageLayoutDecoder';
+export { isStorageLayout, loadMappingKeys, loadStorageLayout } from './storageLayout/StorageLayoutLoader';
+export type {
+    DecodedChange, DecodedValue, DecodedVariable, StorageLayout, StorageLayoutEntry, StorageLayoutType, StorageLocation, StorageReader,
+} from './storageLayout/Types';
+export { default as SyncPatch, SYNC_PATCH_VERSION } from './utils/syncPatch';
+export type { SyncPatchData } from './utils/syncPatch';
+export { default as TransactionPlan } from './utils/transactionPlan';
+export type { PlannedTransaction } from './utils/transactionPlan';
+export { default as MigrationJournal } from './utils/migrationJournal';
+export { default as DeploymentManifest } from './utils/deploymentManifest';
+export type { DeploymentManifestData } from './utils/deploymentManifest';
+export { default as FeeStrategy } from './utils/feeStrategy';
+export type { FeeConfig, FeeOverrides, FeeStrategyName } from './utils/feeStrategy';
+export { default as TxWatchdog } from './utils/txWatchdog';
+export type { TxReplacement, WatchedReceipt } from './utils/txWatchdog';
+export { createDryRunSigner, createSigner, SIGNER_TYPES } from './signerHandler/SignerFactory';
+export { default as RemoteSigner } from './signerHandler/RemoteSigner';
+export type {
+    SignerConfig, SignerType, EncryptedJsonSignerConfig, PrivateKeySignerConfig, MnemonicSignerConfig, KeystoreDirSignerConfig, RemoteSignerConfig,
+} from './signerHandler/Types';
+export { default as TypedEventEmitter } from './utils/typedEventEmitter';
+export type { ProgressEvent, ProgressTask } from './utils/typedEventEmitter';
+export { PROXY_INTERFACE } from './config';
+export { logger } from './utils/logger';
+export * from './errors';
+export type {
+    ConfigTypish, GeneralOptions, TxContractInteractionOptions, ViewContractInteractionOptions, SyncTargetOptions,
+} from './cli/types';
@@ -0,0 +1,71 @@
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { ethers } from 'ethers';
+import { isMethodNotFoundError, RpcCapabilityError, RpcError } from '../errors';
+import { logger } from '../utils/logger';
+import ParityKeyEnumerator from './ParityKeyEnumerator';
+import StorageRangeKeyEnumerator from './StorageRangeKeyEnumerator';
+import { KeyEnumerator, KeyEnumeratorName } from './Types';
+
+/**
+ * in the order in which they are tried by `detectKeyEnumerator`
+ */
+export const KEY_ENUMERATORS: Array<Exclude<KeyEnumeratorName, 'keyIndex'>> = ['parity', 'storageRange'];
+
+const detectedEnumerators = new WeakMap<JsonRpcProvider, Promise<KeyEnumerator>>();
+
+/**
+ * @param name enumerator that only needs the node, a `KeyIndexEnumerator` is created with its `KeyIndex` instead
+ */
+export function createKeyEnumerator(name: Exclude<KeyEnumeratorName, 'keyIndex'>, provider: JsonRpcProvider): KeyEnumerator {
+    switch (name) {
+        case 'storageRange':
+            return new StorageRangeKeyEnumerator(provider);
+        default:
+            return new ParityKeyEnumerator(provider);
+    }
+}
+
+/**
+ * @returns whether the node knows `method`, any JSON-RPC error other than an unknown method means that it does
+ * @throws RpcError if the node did not answer at all
+ */
+async function supports(provider: JsonRpcProvider, method: string, params: Array<unknown>): Promise<boolean> {
+    try {
+        await provider.send(method, params);
+    } catch (e: any) {
+        if (isMethodNotFoundError(e)) return false;
+        if (typeof (e?.error?.code ?? e?.code) !== 'number') {
+            throw new RpcError(`Could not reach the node at ${provider.connection.url}.`, e);
+        }
+    }
+    return true;
+}
+
+async function probeKeyEnumerator(provider: JsonRpcProvider): Promise<KeyEnumerator> {
+    if (await supports(provider, 'parity_listStorageKeys', [ethers.constants.AddressZero, 1, null, 'latest'])) {
+        return createKeyEnumerator('parity', provider);
+    }
+    const latest = await provider.send('eth_getBlockByNumber', ['latest', false]);
+    if (await supports(provider, 'debug_storageRangeAt', [latest.hash, 0, ethers.constants.AddressZero, ethers.constants.HashZero, 1])) {
+        return createKeyEnumerator('storageRange', provider);
+    }
+    throw new RpcCapabilityError('parity_listStorageKeys or debug_storageRangeAt', provider.connection.url);
+}
+
+/**
+ * Picks the first of `KEY_ENUMERATORS` whose RPC method the node of `provider` supports. The result is remembered per provider.
+ * @throws RpcCapabilityError if the node supports none of them
+ */
+export async function detectKeyEnumerator(provider: JsonRpcProvider): Promise<KeyEnumerator> {
+    let enumerator = detectedEnumerators.get(provider);
+    if (!enumerator) {
+        enumerator = probeKeyEnumerator(provider);
+        detectedEnumerators.set(provider, enumerator);
+        // a failed detection, e.g. because the node was not reachable, is repeated the next time
+        enumerator.then(
+            ({ name }) => logger.debug(`Listing storage keys at ${provider.connection.url} with ${name}.`),
+            () => detectedEnumerators.delete(provider),
+        );
+    }
+    return enumerator;
+}
@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+import FileHandler from '../utils/fileHandler';
+import { logger } from '../utils/logger';
+import { ConfigError } from '../errors';
+
+export const KEY_INDEX_VERSION = 1;
+
+export type KeyIndexData = {
+    version: number;
+    srcContract: string;
+    /**
+     * block up to which every key that the contract wrote is part of `keys`, undefined while nothing was indexed
+     */
+    indexedBlock?: number;
+    /**
+     * every storage key that the contract wrote up to `indexedBlock`, including keys that were cleared again
+     */
+    keys: Array<string>;
+};
+
+/**
+ * The storage keys that a source contract ever wrote, kept on disk so that they only have to be traced once.
+ */
+class KeyIndex {
+    readonly filePath: string;
+
+    readonly data: KeyIndexData;
+
+    private readonly keySet: Set<string>;
+
+    private constructor(filePath: string, data: KeyIndexData) {
+        this.filePath = filePath;
+        this.data = data;
+        this.keySet = new Set(data.keys);
+    }
+
+    /**
+     * @param filePath index of a previous run, a new index is written there if the file does not exist
+     * @param srcContract contract whose keys are indexed
+     * @throws ConfigError if the file is no key index or belongs to another contract
+     */
+    static open(filePath: string, srcContract: string): KeyIndex {
+        const fh = new FileHandler(filePath, false);
+        if (!fh.exists()) {
+            const index = new KeyIndex(filePath, { version: KEY_INDEX_VERSION, srcContract, keys: [] });
+            index.save();
+            return index;
+        }
+        const data = fh.getJSON<KeyIndexData>();
+        if (!data || data.version !== KEY_INDEX_VERSION || !Array.isArray(data.keys)) {
+            throw new ConfigError(`${filePath} is not a key index of version ${KEY_INDEX_VERSION}.`);
+        }
+        if (data.srcContract.toLowerCase() !== srcContract.toLowerCase()) {
+            throw new ConfigError(`The key index at ${filePath} belongs to ${data.srcContract}, not to ${srcContract}.`);
+        }
+        return new KeyIndex(filePath, data);
+    }
+
+    /**
+     * Adds the keys that the contract wrote up to `toBlock` and writes the index to disk.
+     * @param fromBlock first block whose writes are part of `keys`, the deployment block of the contract if undefined
+     * @returns false if the keys were ignored because the writes of the blocks between `indexedBlock` and `fromBlock` are missing
+     */
+    record(keys: Array<string>, toBlock: number, fromBlock?: number): boolean {
+        const { indexedBlock } = this.data;
+        if (fromBlock !== undefined && (indexedBlock === undefined || fromBlock > indexedBlock + 1)) return false;
+        keys.map((key) => ethers.utils.hexZeroPad(key, 32).toLowerCase()).forEach((key) => {
+            if (!this.keySet.has(key)) {
+                this.keySet.add(key);
+                this.data.keys.push(key);
+            }
+        });
+        this.data.indexedBlock = Math.max(indexedBlock ?? toBlock, toBlock);
+        this.save();
+        return true;
+    }
+
+    save() {
+        if (!new FileHandler(this.filePath, false).writeJSON(this.data)) {
+            logger.warn(`Could not write key index to ${this.filePath}.`);
+        }
+    }
+}
+
+export default KeyIndex;
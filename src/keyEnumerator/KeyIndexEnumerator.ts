@@ -0,0 +1,157 @@
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber, ethers } from 'ethers';
+import { RpcCapabilityError, RpcError } from '../errors';
+import { logger } from '../utils/logger';
+import TransactionHandler, { StorageWrite } from '../utils/transactionHandler';
+import { findDeploymentBlock, mapConcurrently, toBlockNumber } from '../utils/utils';
+import { Finality, getFinalBlockNumber } from '../utils/finality';
+import { detectKeyEnumerator } from './KeyEnumeratorFactory';
+import KeyIndex from './KeyIndex';
+import { KeyEnumerator, KeyEnumeratorName } from './Types';
+
+/**
+ * Confirmations a block needs before the keys written in it are recorded in the index if no finality policy is given
+ */
+export const DEFAULT_INDEX_CONFIRMATIONS = 12;
+
+/**
+ * Amount of blocks that are traced before the index is written to disk, so that an interrupted indexing resumes after the last written chunk
+ */
+const INDEX_CHUNK_BLOCKS = 10000;
+
+/**
+ * Lists the storage keys of the source contract from a `KeyIndex` instead of asking the node for them,
+ * so it works with any node that can trace txs. Blocks that are not indexed yet are traced first,
+ * with `trace_replayBlockTransactions` if the node supports it and with the prestateTracer of `debug_traceBlockByNumber` otherwise.
+ * Only blocks that are final according to the finality policy are recorded in the index, since a reorg of a recorded block is never noticed.
+ * Newer blocks are traced again whenever their keys are listed.
+ * The keys of other contracts are listed with the enumerator that `detectKeyEnumerator` picks.
+ */
+class KeyIndexEnumerator implements KeyEnumerator {
+    readonly name: KeyEnumeratorName = 'keyIndex';
+
+    readonly index: KeyIndex;
+
+    private readonly provider: JsonRpcProvider;
+
+    private readonly concurrency: number;
+
+    private readonly finality: Finality;
+
+    /**
+     * whether the node supports `trace_replayBlockTransactions`, undefined until the first blocks were traced
+     */
+    private replaysBlocks?: boolean;
+
+    /**
+     * @param provider provider of the source chain
+     * @param concurrency amount of blocks that are traced and of `eth_getProof` requests that are sent at once
+     * @param finality finality policy of the source chain, which decides up to which block the index is recorded
+     */
+    constructor(provider: JsonRpcProvider, index: KeyIndex, concurrency: number = 1, finality: Finality = DEFAULT_INDEX_CONFIRMATIONS) {
+        this.provider = provider;
+        this.index = index;
+        this.concurrency = concurrency;
+        this.finality = finality;
+    }
+
+    /**
+     * The index contains every key that was ever written, so the keys whose value is zero at `block` are left out.
+     */
+    async listKeys(contractAddress: string, block: string, batchSize: number): Promise<Array<string>> {
+        if (contractAddress.toLowerCase() !== this.index.data.srcContract.toLowerCase()) {
+            return (await detectKeyEnumerator(this.provider)).listKeys(contractAddress, block, batchSize);
+        }
+        const blockNumber = await toBlockNumber(block, this.provider);
+        await this.update(Math.min(blockNumber, await getFinalBlockNumber(this.provider, this.finality)));
+
+        const keys = [...this.index.data.keys];
+        const { indexedBlock } = this.index.data;
+        if (indexedBlock !== undefined && blockNumber > indexedBlock) {
+            // the blocks that are not final yet are not part of the index
+            const indexedKeys = new Set(keys);
+            (await this.traceWrites(blockNumber, indexedBlock + 1)).flatMap(({ storage }) => Object.keys(storage))
+                .map((key) => ethers.utils.hexZeroPad(key, 32).toLowerCase())
+                .forEach((key) => {
+                    if (!indexedKeys.has(key)) {
+                        indexedKeys.add(key);
+                        keys.push(key);
+                    }
+                });
+        }
+        const batches: Array<Array<string>> = [];
+        for (let i = 0; i < keys.length; i += batchSize) {
+            batches.push(keys.slice(i, i + batchSize));
+        }
+        const values = await mapConcurrently(batches, this.concurrency, async (batch) => {
+            try {
+                const proof = await this.provider.send('eth_getProof', [contractAddress, batch, ethers.utils.hexValue(blockNumber)]);
+                return proof.storageProof as Array<{ key: string, value: string }>;
+            } catch (e) {
+                throw new RpcError(`Could not get the values of the indexed keys of ${contractAddress} at block ${blockNumber}.`, e);
+            }
+        });
+        return values.flat()
+            .filter(({ value }) => !BigNumber.from(value).isZero())
+            .map(({ key }) => ethers.utils.hexZeroPad(key, 32));
+    }
+
+    /**
+     * Traces the blocks after the indexed block up to `toBlock`, or all blocks since the deployment of the contract if nothing was indexed yet.
+     * The index is written to disk after every `INDEX_CHUNK_BLOCKS` blocks.
+     * @param toBlock final block up to which the index is recorded
+     */
+    async update(toBlock: number): Promise<void> {
+        const { indexedBlock, srcContract } = this.index.data;
+        if (indexedBlock !== undefined && indexedBlock >= toBlock) return;
+        let fromBlock: number;
+        if (indexedBlock !== undefined) {
+            fromBlock = indexedBlock + 1;
+            logger.info(`Indexing the storage keys of ${srcContract} from block ${fromBlock} to ${toBlock}...`);
+        } else {
+            const deploymentBlock = await findDeploymentBlock(srcContract, this.provider);
+            // a contract that is not deployed yet has no keys to index
+            fromBlock = deploymentBlock < 0 ? toBlock + 1 : deploymentBlock;
+            logger.info(`Indexing the storage keys of ${srcContract} up to block ${toBlock}...`);
+        }
+        if (fromBlock > toBlock) this.index.record([], toBlock);
+        for (let chunkStart = fromBlock; chunkStart <= toBlock; chunkStart += INDEX_CHUNK_BLOCKS) {
+            const chunkEnd = Math.min(chunkStart + INDEX_CHUNK_BLOCKS - 1, toBlock);
+            // eslint-disable-next-line no-await-in-loop
+            const writes = await this.traceWrites(chunkEnd, chunkStart);
+            // the first chunk of a new index starts at the deployment of the contract
+            this.index.record(writes.flatMap(({ storage }) => Object.keys(storage)), chunkEnd, this.index.data.indexedBlock === undefined ? undefined : chunkStart);
+            if (chunkEnd < toBlock) logger.debug(`Indexed the storage keys of ${srcContract} up to block ${chunkEnd}.`);
+        }
+        logger.info(`Done, the index contains ${this.index.data.keys.length} keys.`);
+    }
+
+    /**
+     * Adds the keys of storage writes that were traced for a diff to the index, as far as their blocks are final.
+     * @param fromBlock first block whose writes are part of `writes`
+     * @param toBlock last block whose writes are part of `writes`
+     */
+    async recordWrites(writes: Array<StorageWrite>, fromBlock: number, toBlock: number): Promise<void> {
+        const finalBlock = Math.min(toBlock, await getFinalBlockNumber(this.provider, this.finality));
+        if (finalBlock < fromBlock) return;
+        this.index.record(writes.filter(({ blockNumber }) => blockNumber <= finalBlock).flatMap(({ storage }) => Object.keys(storage)), finalBlock, fromBlock);
+    }
+
+    private async traceWrites(toBlock: number, fromBlock?: number): Promise<Array<StorageWrite>> {
+        const txHandler = new TransactionHandler(this.index.data.srcContract, this.provider);
+        if (this.replaysBlocks !== false) {
+            try {
+                const writes = await txHandler.replayBlockStorageWrites(toBlock, fromBlock, this.concurrency);
+                this.replaysBlocks = true;
+                return writes;
+            } catch (e) {
+                if (this.replaysBlocks || !(e instanceof RpcCapabilityError)) throw e;
+                logger.debug(`Tracing blocks with debug_traceBlockByNumber since ${e.method} is not supported.`);
+                this.replaysBlocks = false;
+            }
+        }
+        return txHandler.traceStorageWrites(toBlock, fromBlock, this.concurrency);
+    }
+}
+
+export default KeyIndexEnumerator;
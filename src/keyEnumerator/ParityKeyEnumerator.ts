@@ -0,0 +1,45 @@
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { ethers } from 'ethers';
+import { isMethodNotFoundError, RpcCapabilityError, RpcError } from '../errors';
+import { KeyEnumerator, KeyEnumeratorName } from './Types';
+
+/**
+ * Lists the storage keys with `parity_listStorageKeys`, which OpenEthereum provides.
+ */
+class ParityKeyEnumerator implements KeyEnumerator {
+    readonly name: KeyEnumeratorName = 'parity';
+
+    private readonly provider: JsonRpcProvider;
+
+    constructor(provider: JsonRpcProvider) {
+        this.provider = provider;
+    }
+
+    async listKeys(contractAddress: string, block: string, batchSize: number): Promise<Array<string>> {
+        const keys: Array<string> = [];
+        let batch: Array<string> = [];
+        let batchCounter = 1;
+        /* eslint-disable no-await-in-loop */
+        do {
+            const offset = (batchCounter > 1) ? keys[keys.length - 1] : null;
+
+            try {
+                batch = await this.provider.send('parity_listStorageKeys', [
+                    contractAddress, batchSize * batchCounter, offset, block,
+                ]);
+            } catch (e) {
+                if (isMethodNotFoundError(e)) throw new RpcCapabilityError('parity_listStorageKeys', this.provider.connection.url, e);
+                throw new RpcError(`Could not get keys for ${contractAddress} from ${this.provider.connection.url}.`, e);
+            }
+            if (batch === null) {
+                throw new RpcError(`Could not get keys for ${contractAddress}. Is it deployed at the node at ${this.provider.connection.url}?`);
+            }
+            keys.push(...batch);
+            batchCounter += 1;
+        } while (batch.length >= batchSize);
+        /* eslint-enable no-await-in-loop */
+        return keys.map((key) => ethers.utils.hexZeroPad(key, 32));
+    }
+}
+
+export default ParityKeyEnumerator;
@@ -0,0 +1,123 @@
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { ethers } from 'ethers';
+import { isMethodNotFoundError, RpcCapabilityError, RpcError } from '../errors';
+import { logger } from '../utils/logger';
+import { KeyEnumerator, KeyEnumeratorName } from './Types';
+
+type RawBlock = {
+    hash: string;
+    number: string;
+    parentHash: string;
+    transactions: Array<string>;
+};
+
+type StorageRangeResult = {
+    /**
+     * storage slots by the hash of their key, `key` is null if the node has no preimage of the hash
+     */
+    storage: { [ hashedKey: string ]: { key: string | null, value: string } };
+    nextKey: string | null;
+};
+
+const FIRST_HASHED_KEY = ethers.constants.HashZero;
+
+/**
+ * Time in ms that is waited for the block after the listed block by default
+ */
+export const DEFAULT_NEXT_BLOCK_TIMEOUT = 60000;
+
+/**
+ * Lists the storage keys by walking the storage trie with `debug_storageRangeAt`, which Geth and Erigon provide.
+ * The trie only contains the hashes of the keys, so the keys are taken from the preimages returned along with them.
+ * Geth only keeps these preimages when started with `--cache.preimages`.
+ */
+class StorageRangeKeyEnumerator implements KeyEnumerator {
+    readonly name: KeyEnumeratorName = 'storageRange';
+
+    private readonly provider: JsonRpcProvider;
+
+    private readonly nextBlockTimeout: number;
+
+    /**
+     * @param nextBlockTimeout time in ms that is waited for the block after the listed block, see `listKeys`
+     */
+    constructor(provider: JsonRpcProvider, nextBlockTimeout: number = DEFAULT_NEXT_BLOCK_TIMEOUT) {
+        this.provider = provider;
+        this.nextBlockTimeout = nextBlockTimeout;
+    }
+
+    /**
+     * If the listed block contains txs, the keys can only be listed once the next block exists, see `storageAfter`.
+     * @throws RpcCapabilityError if the node does not return the preimages of the hashed keys
+     */
+    async listKeys(contractAddress: string, block: string, batchSize: number): Promise<Array<string>> {
+        const [blockHash, txIndex] = await this.storageAfter(block);
+        const keys: Array<string> = [];
+        let startKey: string | null = FIRST_HASHED_KEY;
+        /* eslint-disable no-await-in-loop */
+        do {
+            let result: StorageRangeResult;
+            try {
+                result = await this.provider.send('debug_storageRangeAt', [blockHash, txIndex, contractAddress, startKey, batchSize]);
+            } catch (e) {
+                if (isMethodNotFoundError(e)) throw new RpcCapabilityError('debug_storageRangeAt', this.provider.connection.url, e);
+                throw new RpcError(`Could not get keys for ${contractAddress} from ${this.provider.connection.url}.`, e);
+            }
+            Object.values(result.storage).forEach(({ key }) => {
+                if (key === null) {
+                    throw new RpcCapabilityError('the preimages of storage keys', this.provider.connection.url);
+                }
+                keys.push(ethers.utils.hexZeroPad(key, 32));
+            });
+            startKey = result.nextKey;
+        } while (startKey !== null);
+        /* eslint-enable no-await-in-loop */
+        return keys;
+    }
+
+    /**
+     * `debug_storageRangeAt` returns the storage before the tx at the given index of a block.
+     * The storage at the end of a block is therefore the storage before the first tx of the next block,
+     * or, for a block without txs, the storage before its own first tx.
+     * @returns hash and tx index that `debug_storageRangeAt` needs to return the storage at the end of `block`
+     */
+    private async storageAfter(block: string): Promise<[string, number]> {
+        const listedBlock = await this.getBlock(block);
+        if (!listedBlock) {
+            throw new RpcError(`Block ${block} is unknown to the node at ${this.provider.connection.url}.`);
+        }
+        if (listedBlock.transactions.length === 0) return [listedBlock.hash, 0];
+
+        const nextBlock = await this.waitForBlock(Number(listedBlock.number) + 1);
+        if (nextBlock.parentHash !== listedBlock.hash) {
+            throw new RpcError(`Block ${Number(listedBlock.number)} was replaced by a reorg while listing the keys.`);
+        }
+        return [nextBlock.hash, 0];
+    }
+
+    private async waitForBlock(blockNumber: number): Promise<RawBlock> {
+        const deadline = Date.now() + this.nextBlockTimeout;
+        let block = await this.getBlock(ethers.utils.hexValue(blockNumber));
+        /* eslint-disable no-await-in-loop */
+        while (!block) {
+            if (Date.now() > deadline) {
+                throw new RpcError(`The keys of block ${blockNumber - 1} can only be listed with debug_storageRangeAt once block ${blockNumber} exists, which was not mined within ${this.nextBlockTimeout} ms.`);
+            }
+            logger.debug(`Waiting for block ${blockNumber} to list the keys of block ${blockNumber - 1}...`);
+            await new Promise((resolve) => { setTimeout(resolve, this.provider.pollingInterval); });
+            block = await this.getBlock(ethers.utils.hexValue(blockNumber));
+        }
+        /* eslint-enable no-await-in-loop */
+        return block;
+    }
+
+    private async getBlock(block: string): Promise<RawBlock | null> {
+        try {
+            return await this.provider.send('eth_getBlockByNumber', [block, false]);
+        } catch (e) {
+            throw new RpcError(`Could not get block ${block} from ${this.provider.connection.url}.`, e);
+        }
+    }
+}
+
+export default StorageRangeKeyEnumerator;
@@ -0,0 +1,20 @@
+/**
+ * parity: `parity_listStorageKeys` of OpenEthereum, storageRange: `debug_storageRangeAt` of Geth-compatible nodes that keep the preimages of the storage keys,
+ * keyIndex: a local index of the keys built by tracing the txs of the source contract
+ */
+export type KeyEnumeratorName = 'parity' | 'storageRange' | 'keyIndex';
+
+/**
+ * Lists the storage keys of a contract with the RPC methods of a specific node.
+ */
+export interface KeyEnumerator {
+    readonly name: KeyEnumeratorName;
+
+    /**
+     * @param contractAddress contract whose keys are listed
+     * @param block block number as hex quantity or block tag
+     * @param batchSize amount of keys that are requested at once
+     * @returns the keys of all storage slots of the contract that are not zero, zero-padded to 32 bytes
+     */
+    listKeys(contractAddress: string, block: string, batchSize: number): Promise<Array<string>>;
+}
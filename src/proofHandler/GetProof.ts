@@ -12,6 +12,7 @@ import { logger } from '../utils/logger';
 import ProofPathBuilder, { addDeletedValue } from './ProofPathBuilder';
 import BranchNode from './BranchNode';
 import ExtensionNode from './ExtensionNode';
+import { ProofConstructionError } from '../errors';
 
 /**
 * Get additional keys that might be needed to rebuild the old MT at the ProxyContract.
@@ -199,8 +200,7 @@ class GetProof implements IGetProof {
                     if (i !== (storageProof.proof.length - 1)) return;
                 }
                 if (!pathNodes || !parentNode) {
-                    this.logger.error('not possible.');
-                    process.exit(-1);
+                    throw new ProofConstructionError(`Could not build the storage proof path of key ${storageProof.key}.`);
                 }
                 if (node.length === 17) {
                     // branch node
@@ -239,8 +239,7 @@ class GetProof implements IGetProof {
             const additionalKeys = getRequiredKeys(pathNodes.root, unchangedKeys);
             if (additionalKeys.length > 0) {
                 if (!this.provider) {
-                    logger.error('Provider not provided and additional keys are needed.');
-                    throw new Error();
+                    throw new ProofConstructionError('Provider not provided and additional keys are needed.');
                 }
                 // add required keys to the proof path object instance
                 const proofs = await this.provider.send('eth_getProof', [this.address, additionalKeys]);
@@ -249,8 +248,7 @@ class GetProof implements IGetProof {
                     storageProof.proof.forEach((rlpNode, i) => {
                         const node = rlp.decode(utils.hexStringToBuffer(rlpNode));
                         if (!pathNodes) {
-                            logger.error('Not possible.');
-                            throw new Error();
+                            throw new ProofConstructionError(`Could not build the storage proof path of additional key ${storageProof.key}.`);
                         }
                         if (!parentNode) parentNode = pathNodes;
                         if (node.length === 17) {
@@ -4,6 +4,7 @@ import { Logger } from 'tslog';
 import * as rlp from 'rlp';
 import { logger } from '../utils/logger';
 import { hexStringToBuffer } from '../utils/utils';
+import { ProofConstructionError } from '../errors';
 import BranchNode from './BranchNode';
 import ExtensionNode from './ExtensionNode';
 import LeafNode from './LeafNode';
@@ -54,8 +55,7 @@ class ProofPathBuilder {
     insertChild(childBranch: ParentNode, node, parentNode: ParentNode, storageKey: string | undefined, isLeaf: Boolean): EmbeddedNode | undefined | null {
         const nodeRef = hexStringToBuffer(ethers.utils.keccak256(rlp.encode(node)));
         if (childBranch instanceof ProofPathBuilder) {
-            this.logger.debug('not possible to be proofpathbuilder in insertChild');
-            process.exit(-1);
+            throw new ProofConstructionError('not possible to be proofpathbuilder in insertChild');
         } else if (childBranch instanceof ExtensionNode) {
             // todo extension root and first child.
             if (!childBranch.child) {
@@ -75,8 +75,7 @@ class ProofPathBuilder {
                     // insert leaf
                     childBranch.children[i] = new LeafNode(node, [storageKey]);
                 } else if (isLeaf) {
-                    logger.error(`Storagekey for ${nodeRef} not defined.`);
-                    throw new Error();
+                    throw new ProofConstructionError(`Storagekey for ${nodeRef.toString('hex')} not defined.`);
                 } else if (node.length === 2 && !childBranch.children[i]) {
                     // insert extension
                     childBranch.children[i] = new ExtensionNode(node, undefined);
@@ -109,8 +108,7 @@ class ProofPathBuilder {
 
         if (this.root instanceof LeafNode) {
             if (this.root instanceof LeafNode) {
-                logger.error('Change of mt not yet implemented.');
-                throw new Error();
+                throw new ProofConstructionError('Change of mt not yet implemented.');
             }
         }
 
@@ -136,8 +134,7 @@ class ProofPathBuilder {
                     // insert leaf
                     this.root.children[i] = new LeafNode(node, [storageKey]);
                 } else if (isLeaf) {
-                    logger.error(`Storagekey for ${nodeRef} not defined.`);
-                    throw new Error();
+                    throw new ProofConstructionError(`Storagekey for ${nodeRef.toString('hex')} not defined.`);
                 } else if (node.length === 2 && !this.root.children[i]) {
                     // insert extension
                     this.root.children[i] = new ExtensionNode(node, undefined);
@@ -172,12 +169,10 @@ class ProofPathBuilder {
 // todo this needs testing with other smart contracts than the simple MappingContract
 export function addDeletedValue(parentNode: ParentNode, storageProof: StorageProof): LeafNode | undefined {
     if (parentNode instanceof ExtensionNode) {
-        logger.error('Can not add deleted value to ExtensionNode');
-        return undefined;
+        throw new ProofConstructionError('Can not add deleted value to ExtensionNode');
     }
     if (parentNode instanceof LeafNode) {
-        logger.error('ParentNode is a leaf node');
-        return undefined;
+        throw new ProofConstructionError('ParentNode is a leaf node');
     }
     const path = ethers.utils.keccak256(ethers.utils.hexZeroPad(storageProof.key, 32));
     let pathPtr = 2; // starts at 2 because of '0x'
@@ -212,8 +207,7 @@ export function addDeletedValue(parentNode: ParentNode, storageProof: StoragePro
         return parentNode.children[pathNibble] as LeafNode ?? undefined;
     }
     if (!(parentNode.root instanceof BranchNode)) {
-        logger.error('Cannot add deleted value to anything else than BranchNode at the moment.');
-        return undefined;
+        throw new ProofConstructionError('Cannot add deleted value to anything else than BranchNode at the moment.');
     }
     parentNode.root.children[pathNibble] = new LeafNode(artificialNode, [storageProof.key]);
     return parentNode.root.children[pathNibble] as LeafNode ?? undefined;
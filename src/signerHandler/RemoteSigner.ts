@@ -0,0 +1,104 @@
+import { Provider, TransactionRequest } from '@ethersproject/abstract-provider';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { ethers, Signer } from 'ethers';
+import {
+    ConfigError, isMethodNotFoundError, RpcCapabilityError, RpcError,
+} from '../errors';
+
+/**
+ * Signer whose key is held by a remote JSON-RPC endpoint. Txs are signed through `eth_signTransaction` and sent by the connected provider.
+ */
+class RemoteSigner extends Signer {
+    readonly url: string;
+
+    private address?: string;
+
+    private requestId = 0;
+
+    /**
+     * @param url url of the JSON-RPC endpoint that signs txs
+     * @param address account of the remote signer, its first account by default
+     * @param provider provider of the chain the signed txs are sent to
+     */
+    constructor(url: string, address?: string, provider?: Provider) {
+        super();
+        this.url = url;
+        if (address && !ethers.utils.isAddress(address)) {
+            throw new ConfigError(`${address} is no valid address of a remote signer.`);
+        }
+        this.address = address ? ethers.utils.getAddress(address) : undefined;
+        ethers.utils.defineReadOnly(this, 'provider', provider);
+    }
+
+    async getAddress(): Promise<string> {
+        if (!this.address) {
+            let accounts: unknown;
+            try {
+                accounts = await this.request('eth_accounts', []);
+            } catch (e) {
+                throw new RpcError(`Could not get the accounts of the remote signer at ${this.url}.`, e);
+            }
+            if (!Array.isArray(accounts)) {
+                throw new RpcError(`The remote signer at ${this.url} returned no list of accounts.`);
+            }
+            if (accounts.length === 0) {
+                throw new ConfigError(`The remote signer at ${this.url} has no accounts.`);
+            }
+            const [account] = accounts;
+            if (typeof account !== 'string' || !ethers.utils.isAddress(account)) {
+                throw new RpcError(`The remote signer at ${this.url} returned the invalid account ${account}.`);
+            }
+            this.address = ethers.utils.getAddress(account);
+        }
+        return this.address;
+    }
+
+    async signMessage(message: ethers.utils.Bytes | string): Promise<string> {
+        const data = typeof message === 'string' ? ethers.utils.toUtf8Bytes(message) : message;
+        const signature = await this.request('eth_sign', [(await this.getAddress()).toLowerCase(), ethers.utils.hexlify(data)]);
+        if (typeof signature !== 'string' || !ethers.utils.isHexString(signature)) {
+            throw new RpcError(`The remote signer at ${this.url} returned no signature of the message.`);
+        }
+        return signature;
+    }
+
+    async signTransaction(transaction: ethers.utils.Deferrable<TransactionRequest>): Promise<string> {
+        const tx = await ethers.utils.resolveProperties(transaction);
+        const request = JsonRpcProvider.hexlifyTransaction({ ...tx, from: await this.getAddress() }, { from: true });
+        let signed: unknown;
+        try {
+            signed = await this.request('eth_signTransaction', [request]);
+        } catch (e) {
+            if (isMethodNotFoundError(e)) throw new RpcCapabilityError('eth_signTransaction', this.url, e);
+            throw new RpcError(`The remote signer at ${this.url} could not sign the tx.`, e);
+        }
+        // geth returns the signed tx together with its fields
+        const raw = typeof signed === 'object' && signed !== null && 'raw' in signed ? signed.raw : signed;
+        if (typeof raw !== 'string' || !ethers.utils.isHexString(raw)) {
+            throw new RpcError(`The remote signer at ${this.url} returned no signed tx.`);
+        }
+        return raw;
+    }
+
+    connect(provider: Provider): RemoteSigner {
+        return new RemoteSigner(this.url, this.address, provider);
+    }
+
+    /**
+     * Sends a JSON-RPC request to the remote signer. A provider is not used since the signer does not need to serve any chain.
+     */
+    private async request(method: string, params: Array<unknown>): Promise<unknown> {
+        this.requestId += 1;
+        const payload = JSON.stringify({
+            jsonrpc: '2.0', id: this.requestId, method, params,
+        });
+        return ethers.utils.fetchJson(this.url, payload, (response) => {
+            if (response.error) {
+                throw Object.assign(new Error(response.error.message), { code: response.error.code, data: response.error.data });
+            }
+            return response.result;
+        });
+    }
+}
+
+export default RemoteSigner;
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { ethers, Signer } from 'ethers';
+import FileHandler from '../utils/fileHandler';
+import { logger } from '../utils/logger';
+import { ConfigError } from '../errors';
+import RemoteSigner from './RemoteSigner';
+import {
+    EncryptedJsonSignerConfig, KeystoreDirSignerConfig, MnemonicSignerConfig, PrivateKeySignerConfig, SignerConfig, SignerType,
+} from './Types';
+
+export const SIGNER_TYPES: Array<SignerType> = ['encryptedJson', 'privateKey', 'mnemonic', 'keystoreDir', 'remote'];
+
+const DEFAULT_PRIVATE_KEY_ENV = 'SMART_SYNC_PRIVATE_KEY';
+const DEFAULT_MNEMONIC_ENV = 'SMART_SYNC_MNEMONIC';
+
+/**
+ * @returns the trimmed content of `file` if given, the value of the environment variable `env` otherwise
+ */
+function readSecret(what: string, env: string, file?: string): string {
+    if (file) {
+        const content = new FileHandler(file).read();
+        if (content === undefined) {
+            throw new ConfigError(`Could not read the ${what} from ${file}.`);
+        }
+        return content.trim();
+    }
+    const value = process.env[env];
+    if (!value) {
+        throw new ConfigError(`No ${what} given in the environment variable ${env}.`);
+    }
+    return value.trim();
+}
+
+function decryptKeystore(encryptedJson: string, password: string | undefined, source: string): ethers.Wallet {
+    if (password === undefined) {
+        throw new ConfigError(`No password given to decrypt json file at ${source}`);
+    }
+    logger.debug('Decrypting account json file...');
+    try {
+        const wallet = ethers.Wallet.fromEncryptedJsonSync(encryptedJson, password);
+        logger.debug('Done.');
+        return wallet;
+    } catch (e) {
+        throw new ConfigError(`Could not decrypt json file at ${source}`, e);
+    }
+}
+
+function encryptedJsonSigner(config: EncryptedJsonSignerConfig, password?: string): ethers.Wallet {
+    const encryptedJson = new FileHandler(config.path).read();
+    if (!encryptedJson) {
+        throw new ConfigError(`Could not access json file at ${config.path}`);
+    }
+    return decryptKeystore(encryptedJson, config.password ?? password, config.path);
+}
+
+function privateKeySigner(config: PrivateKeySignerConfig): ethers.Wallet {
+    const privateKey = readSecret('private key', config.env ?? DEFAULT_PRIVATE_KEY_ENV, config.file);
+    try {
+        return new ethers.Wallet(privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`);
+    } catch (e) {
+        throw new ConfigError(`The private key from ${config.file ?? config.env ?? DEFAULT_PRIVATE_KEY_ENV} is invalid.`, e);
+    }
+}
+
+function mnemonicSigner(config: MnemonicSignerConfig): ethers.Wallet {
+    const mnemonic = readSecret('mnemonic', config.env ?? DEFAULT_MNEMONIC_ENV, config.file);
+    try {
+        return ethers.Wallet.fromMnemonic(mnemonic, config.path);
+    } catch (e) {
+        throw new ConfigError(`The mnemonic from ${config.file ?? config.env ?? DEFAULT_MNEMONIC_ENV} or the derivation path ${config.path} is invalid.`, e);
+    }
+}
+
+function keystoreDirSigner(config: KeystoreDirSignerConfig, password?: string): ethers.Wallet {
+    if (!ethers.utils.isAddress(config.address)) {
+        throw new ConfigError(`${config.address} is no valid address to select a keystore file.`);
+    }
+    const address = ethers.utils.getAddress(config.address);
+    let files: Array<string>;
+    try {
+        files = fs.readdirSync(config.dir);
+    } catch (e) {
+        throw new ConfigError(`Could not read the keystore directory ${config.dir}.`, e);
+    }
+    // keystore files carry the address of their account without checksum and 0x prefix
+    const keystoreFile = files.map((file) => path.join(config.dir, file)).find((file) => {
+        try {
+            const keystore = JSON.parse(fs.readFileSync(file).toString('utf-8'));
+            return typeof keystore.address === 'string' && ethers.utils.getAddress(keystore.address) === address;
+        } catch (e) {
+            return false;
+        }
+    });
+    if (!keystoreFile) {
+        throw new ConfigError(`No keystore file of ${address} found in ${config.dir}.`);
+    }
+    return decryptKeystore(fs.readFileSync(keystoreFile).toString('utf-8'), config.password ?? password, keystoreFile);
+}
+
+/**
+ * @param config signer backend and its settings
+ * @param provider provider of the chain the signer sends txs to
+ * @param password password of keystore backends that do not configure one themselves
+ * @returns a signer connected to `provider`
+ * @throws ConfigError if the signer cannot be created from the config
+ */
+export function createSigner(config: SignerConfig, provider: JsonRpcProvider, password?: string): Signer {
+    switch (config.type) {
+        case 'encryptedJson':
+            return encryptedJsonSigner(config, password).connect(provider);
+        case 'privateKey':
+            return privateKeySigner(config).connect(provider);
+        case 'mnemonic':
+            return mnemonicSigner(config).connect(provider);
+        case 'keystoreDir':
+            return keystoreDirSigner(config, password).connect(provider);
+        case 'remote':
+            return new RemoteSigner(config.url, config.address, provider);
+        default:
+            throw new ConfigError(`Unknown signer type ${(config as SignerConfig).type}, use one of ${SIGNER_TYPES.join(', ')}.`);
+    }
+}
+
+/**
+ * @returns the address of the account of the keystore file at `keystorePath` without decrypting it
+ * @throws ConfigError if the file could not be read or has no valid address
+ */
+function keystoreAddress(keystorePath: string): string {
+    const keystore = new FileHandler(keystorePath).getJSON<{ address?: unknown }>();
+    if (!keystore || typeof keystore.address !== 'string' || !ethers.utils.isAddress(keystore.address)) {
+        throw new ConfigError(`Could not read the address of the account from the json file at ${keystorePath}`);
+    }
+    return ethers.utils.getAddress(keystore.address);
+}
+
+/**
+ * Signer for dry runs that only needs the address of the account. Keystore backends are not decrypted and need no password.
+ * @param config signer backend and its settings
+ * @param provider provider of the chain the txs would be sent to
+ * @returns a `VoidSigner` of the account of keystore backends, the signer of `createSigner` for all other backends
+ * @throws ConfigError if the address of the account cannot be determined from the config
+ */
+export function createDryRunSigner(config: SignerConfig, provider: JsonRpcProvider): Signer {
+    switch (config.type) {
+        case 'encryptedJson':
+            return new ethers.VoidSigner(keystoreAddress(config.path), provider);
+        case 'keystoreDir':
+            if (!ethers.utils.isAddress(config.address)) {
+                throw new ConfigError(`${config.address} is no valid address to select a keystore file.`);
+            }
+            return new ethers.VoidSigner(ethers.utils.getAddress(config.address), provider);
+        default:
+            return createSigner(config, provider);
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ * Encrypted JSON keystore file, the format written by geth and `ethers.Wallet.encrypt`
+ */
+export type EncryptedJsonSignerConfig = {
+    type: 'encryptedJson';
+    path: string;
+    password?: string;
+};
+
+/**
+ * Raw private key as hex string, read from an environment variable or a file
+ */
+export type PrivateKeySignerConfig = {
+    type: 'privateKey';
+    /**
+     * environment variable that holds the private key, SMART_SYNC_PRIVATE_KEY by default
+     */
+    env?: string;
+    /**
+     * file that holds the private key, used instead of `env`
+     */
+    file?: string;
+};
+
+/**
+ * BIP-39 mnemonic, read from an environment variable or a file
+ */
+export type MnemonicSignerConfig = {
+    type: 'mnemonic';
+    /**
+     * environment variable that holds the mnemonic, SMART_SYNC_MNEMONIC by default
+     */
+    env?: string;
+    /**
+     * file that holds the mnemonic, used instead of `env`
+     */
+    file?: string;
+    /**
+     * BIP-32 derivation path, m/44'/60'/0'/0/0 by default
+     */
+    path?: string;
+};
+
+/**
+ * Directory of encrypted JSON keystore files, e.g. the keystore of a geth node
+ */
+export type KeystoreDirSignerConfig = {
+    type: 'keystoreDir';
+    dir: string;
+    /**
+     * address of the account whose keystore file is used
+     */
+    address: string;
+    password?: string;
+};
+
+/**
+ * Signer that holds the key itself and signs txs through `eth_signTransaction`, e.g. clef or a node with an unlocked account
+ */
+export type RemoteSignerConfig = {
+    type: 'remote';
+    url: string;
+    /**
+     * account of the remote signer, its first account by default
+     */
+    address?: string;
+};
+
+export type SignerConfig = EncryptedJsonSignerConfig | PrivateKeySignerConfig | MnemonicSignerConfig | KeystoreDirSignerConfig | RemoteSignerConfig;
+
+export type SignerType = SignerConfig['type'];
@@ -0,0 +1,360 @@
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+import StorageDiff from '../diffHandler/StorageDiff';
+import { ConfigError, RpcError } from '../errors';
+import { logger } from '../utils/logger';
+import { mapConcurrently } from '../utils/utils';
+import {
+    DecodedChange, DecodedValue, DecodedVariable, StorageLayout, StorageLayoutType, StorageLocation, StorageReader,
+} from './Types';
+
+/**
+ * Amount of elements of an array that `dump` decodes by default
+ */
+export const DEFAULT_MAX_ELEMENTS = 100;
+
+/**
+ * Slots after the start of the data of a dynamic array or of `bytes` that are attributed to it.
+ * The data starts at a hash, so no other variable can be stored in this range.
+ */
+const MAX_DATA_SLOTS = BigNumber.from(2).pow(32);
+
+/**
+ * Longest `string` or `bytes` that is decoded, longer values are most likely no strings but garbage
+ */
+const MAX_BYTES_LENGTH = 2 ** 20;
+
+/**
+ * Type of the length of dynamic arrays, which is not always part of the layout
+ */
+const LENGTH_TYPE: StorageLayoutType = { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' };
+
+function toSlot(value: BigNumberish): string {
+    return ethers.utils.hexZeroPad(BigNumber.from(value).toHexString(), 32);
+}
+
+function slotsOf(type: StorageLayoutType): number {
+    return Math.ceil(Number(type.numberOfBytes) / 32);
+}
+
+/**
+ * @returns the element count of a static array like `t_array(t_uint256)3_storage`
+ */
+function staticLengthOf(typeId: string): number {
+    const match = typeId.match(/\)(\d+)_storage$/);
+    if (!match) {
+        throw new ConfigError(`Could not get the length of the static array ${typeId}.`);
+    }
+    return Number(match[1]);
+}
+
+/**
+ * @param word value of the slot
+ * @param offset offset of the value in bytes from the lower-order end of the slot
+ */
+function decodeValue(type: StorageLayoutType, word: string, offset: number): DecodedValue {
+    const size = Number(type.numberOfBytes);
+    const bytes = ethers.utils.arrayify(ethers.utils.hexZeroPad(word, 32));
+    const hex = ethers.utils.hexlify(bytes.slice(32 - offset - size, 32 - offset));
+    const { label } = type;
+    if (label === 'bool') return !BigNumber.from(hex).isZero();
+    if (label === 'address' || label === 'address payable' || label.startsWith('contract ')) return ethers.utils.getAddress(hex);
+    if (/^int\d*$/.test(label)) return BigNumber.from(hex).fromTwos(size * 8).toString();
+    if (/^uint\d*$/.test(label) || label.startsWith('enum ')) return BigNumber.from(hex).toString();
+    return hex;
+}
+
+function isZeroValue(value: DecodedValue): boolean {
+    return value === false || value === '' || value === '0' || /^0x0*$/.test(value.toString());
+}
+
+/**
+ * Encodes a mapping key the way solidity does before hashing it with the slot of the mapping.
+ * @returns undefined if `key` is no value of the key type
+ */
+function encodeMappingKey(key: string, type: StorageLayoutType): string | undefined {
+    try {
+        if (type.encoding === 'bytes') {
+            return type.label === 'string' ? ethers.utils.hexlify(ethers.utils.toUtf8Bytes(key)) : ethers.utils.hexlify(key);
+        }
+        if (type.label === 'bool') {
+            if (key !== 'true' && key !== 'false') return undefined;
+            return ethers.utils.defaultAbiCoder.encode(['bool'], [key === 'true']);
+        }
+        let solidityType = type.label;
+        if (type.label === 'address payable' || type.label.startsWith('contract ')) solidityType = 'address';
+        if (type.label.startsWith('enum ')) solidityType = 'uint8';
+        return ethers.utils.defaultAbiCoder.encode([solidityType], [key]);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * @param provider provider of the chain of the contract
+ * @param block block whose storage is read
+ * @returns a reader that requests every slot only once
+ */
+export function createStorageReader(provider: JsonRpcProvider, contractAddress: string, block: string | number): StorageReader {
+    const values = new Map<string, Promise<string>>();
+    return (slot: string) => {
+        let value = values.get(slot);
+        if (!value) {
+            value = provider.getStorageAt(contractAddress, slot, block).catch((e) => {
+                throw new RpcError(`Could not get the storage of ${contractAddress} at slot ${slot} at block ${block}.`, e);
+            });
+            values.set(slot, value);
+        }
+        return value;
+    };
+}
+
+/**
+ * Maps storage slots of a contract to its variables with the `storageLayout` of solc and decodes their values.
+ * The slots of mapping entries are only known for the keys that are passed as `mappingKeys`,
+ * since only the hash of a key is stored.
+ */
+class StorageLayoutDecoder {
+    readonly layout: StorageLayout;
+
+    private readonly mappingKeys: Array<string>;
+
+    private readonly hashes = new Map<string, string>();
+
+    /**
+     * @param mappingKeys keys of the mappings whose entries are decoded, e.g. addresses or numbers,
+     * each key is tried with every mapping whose key type it fits
+     */
+    constructor(layout: StorageLayout, mappingKeys: Array<string> = []) {
+        this.layout = layout;
+        this.mappingKeys = mappingKeys;
+    }
+
+    /**
+     * @returns the parts of the variables that are stored in `slot`, an empty array if it belongs to no known variable
+     */
+    locate(slot: BigNumberish): Array<StorageLocation> {
+        const target = BigNumber.from(slot);
+        return this.layout.storage.flatMap((entry) => this.locateIn(entry.type, BigNumber.from(entry.slot), entry.label, entry.offset, target));
+    }
+
+    async decode(location: StorageLocation, read: StorageReader): Promise<DecodedValue> {
+        const type = this.typeOf(location.typeId);
+        if (type.encoding === 'bytes') return this.decodeBytes(type, BigNumber.from(location.slot), read);
+        return decodeValue(type, await read(location.slot), location.offset);
+    }
+
+    /**
+     * Decodes the variables that are stored in the slots of `diff`, neighbours in packed slots whose value did not change are left out.
+     * @param readPrevious reader of the storage before the diff
+     * @param readNew reader of the storage after the diff
+     * @param concurrency amount of variables that are decoded at once
+     * @returns the changed variables in the order of the diff and the slots that belong to no known variable
+     */
+    async decodeDiff(diff: StorageDiff, readPrevious: StorageReader, readNew: StorageReader, concurrency: number = 10): Promise<{ changes: Array<DecodedChange>, unknownSlots: Array<string> }> {
+        const locations = new Map<string, StorageLocation>();
+        const unknownSlots: Array<string> = [];
+        diff.getKeys().forEach((key) => {
+            const found = this.locate(key);
+            if (found.length === 0) unknownSlots.push(toSlot(key));
+            // the slots of long strings belong to the same variable
+            found.forEach((location) => locations.set(location.label, location));
+        });
+        const changes = await mapConcurrently(Array.from(locations.values()), concurrency, async (location) => ({
+            label: location.label,
+            type: this.typeOf(location.typeId).label,
+            slot: location.slot,
+            offset: location.offset,
+            previousValue: await this.decode(location, readPrevious),
+            newValue: await this.decode(location, readNew),
+        }));
+        return { changes: changes.filter((change) => change.previousValue !== change.newValue), unknownSlots };
+    }
+
+    /**
+     * Decodes all variables of the contract. Mappings only contain the entries of the known keys.
+     * @param maxElements amount of elements of an array that are decoded, the remaining elements are left out
+     */
+    async dump(read: StorageReader, maxElements: number = DEFAULT_MAX_ELEMENTS): Promise<Array<DecodedVariable>> {
+        const variables: Array<DecodedVariable> = [];
+        for (let i = 0; i < this.layout.storage.length; i += 1) {
+            const entry = this.layout.storage[i];
+            // eslint-disable-next-line no-await-in-loop
+            await this.dumpIn(entry.type, BigNumber.from(entry.slot), entry.label, entry.offset, read, maxElements, variables);
+        }
+        return variables;
+    }
+
+    private typeOf(typeId: string): StorageLayoutType {
+        const type = this.layout.types?.[typeId];
+        if (type) return type;
+        if (typeId === 't_uint256') return LENGTH_TYPE;
+        throw new ConfigError(`The storage layout does not contain the type ${typeId}.`);
+    }
+
+    private hash(data: string): string {
+        let hash = this.hashes.get(data);
+        if (!hash) {
+            hash = ethers.utils.keccak256(data);
+            this.hashes.set(data, hash);
+        }
+        return hash;
+    }
+
+    /**
+     * @returns the first slot of the data of a dynamic array or of a long `string` or `bytes` at `slot`
+     */
+    private dataSlot(slot: BigNumber): BigNumber {
+        return BigNumber.from(this.hash(toSlot(slot)));
+    }
+
+    /**
+     * @returns the slots of the values of the known keys of the mapping at `slot`
+     */
+    private entriesOf(type: StorageLayoutType, slot: BigNumber, label: string): Array<{ slot: BigNumber, label: string }> {
+        const keyType = this.typeOf(type.key ?? '');
+        return this.mappingKeys.flatMap((key) => {
+            const encodedKey = encodeMappingKey(key, keyType);
+            if (encodedKey === undefined) return [];
+            return [{ slot: BigNumber.from(this.hash(ethers.utils.hexConcat([encodedKey, toSlot(slot)]))), label: `${label}[${key}]` }];
+        });
+    }
+
+    /**
+     * @returns slot and offset of element `index` of an array whose elements start at `start`, elements of up to 16 bytes are packed
+     */
+    private elementAt(baseTypeId: string, start: BigNumber, index: number): { slot: BigNumber, offset: number } {
+        const size = Number(this.typeOf(baseTypeId).numberOfBytes);
+        if (size > 16) return { slot: start.add(index * Math.ceil(size / 32)), offset: 0 };
+        const perSlot = Math.floor(32 / size);
+        return { slot: start.add(Math.floor(index / perSlot)), offset: (index % perSlot) * size };
+    }
+
+    private locateIn(typeId: string, slot: BigNumber, label: string, offset: number, target: BigNumber): Array<StorageLocation> {
+        const type = this.typeOf(typeId);
+        const location = {
+            label, typeId, slot: toSlot(slot), offset,
+        };
+        switch (type.encoding) {
+            case 'mapping':
+                return this.entriesOf(type, slot, label).flatMap((entry) => this.locateIn(type.value ?? '', entry.slot, entry.label, 0, target));
+            case 'dynamic_array':
+                if (slot.eq(target)) return [{ ...location, label: `${label}.length`, typeId: 't_uint256' }];
+                return this.locateElement(type.base ?? '', this.dataSlot(slot), undefined, label, target);
+            case 'bytes': {
+                if (slot.eq(target)) return [location];
+                const relative = target.sub(this.dataSlot(slot));
+                return relative.gte(0) && relative.lt(MAX_DATA_SLOTS) ? [location] : [];
+            }
+            default:
+                if (type.members) {
+                    if (target.lt(slot) || target.gte(slot.add(slotsOf(type)))) return [];
+                    return type.members.flatMap((member) => this.locateIn(member.type, slot.add(member.slot), `${label}.${member.label}`, member.offset, target));
+                }
+                if (type.base) {
+                    if (target.lt(slot) || target.gte(slot.add(slotsOf(type)))) return [];
+                    return this.locateElement(type.base, slot, staticLengthOf(typeId), label, target);
+                }
+                return slot.eq(target) ? [location] : [];
+        }
+    }
+
+    /**
+     * @param length element count of a static array, undefined for dynamic arrays
+     */
+    private locateElement(baseTypeId: string, start: BigNumber, length: number | undefined, label: string, target: BigNumber): Array<StorageLocation> {
+        const relative = target.sub(start);
+        if (relative.lt(0) || relative.gte(MAX_DATA_SLOTS)) return [];
+        const size = Number(this.typeOf(baseTypeId).numberOfBytes);
+        if (size > 16) {
+            const index = relative.div(Math.ceil(size / 32)).toNumber();
+            if (length !== undefined && index >= length) return [];
+            return this.locateIn(baseTypeId, this.elementAt(baseTypeId, start, index).slot, `${label}[${index}]`, 0, target);
+        }
+        const perSlot = Math.floor(32 / size);
+        const first = relative.toNumber() * perSlot;
+        const count = Math.min(perSlot, (length ?? first + perSlot) - first);
+        return Array.from({ length: Math.max(count, 0) }, (_, i) => ({
+            label: `${label}[${first + i}]`, typeId: baseTypeId, slot: toSlot(target), offset: i * size,
+        }));
+    }
+
+    private async decodeBytes(type: StorageLayoutType, slot: BigNumber, read: StorageReader): Promise<DecodedValue> {
+        const word = ethers.utils.hexZeroPad(await read(toSlot(slot)), 32);
+        const value = BigNumber.from(word);
+        let data: Uint8Array;
+        if (value.and(1).isZero()) {
+            // short values are stored in the higher-order bytes, the lowest byte holds twice the length
+            data = ethers.utils.arrayify(word).slice(0, value.and(0xff).toNumber() / 2);
+        } else {
+            const length = value.sub(1).div(2);
+            if (length.gt(MAX_BYTES_LENGTH)) return word;
+            const start = this.dataSlot(slot);
+            const words = await Promise.all(Array.from({ length: Math.ceil(length.toNumber() / 32) }, (_, i) => read(toSlot(start.add(i)))));
+            data = ethers.utils.arrayify(ethers.utils.hexConcat(words.map((w) => ethers.utils.hexZeroPad(w, 32)))).slice(0, length.toNumber());
+        }
+        if (type.label !== 'string') return ethers.utils.hexlify(data);
+        try {
+            return ethers.utils.toUtf8String(data);
+        } catch (e) {
+            return ethers.utils.hexlify(data);
+        }
+    }
+
+    private async dumpIn(typeId: string, slot: BigNumber, label: string, offset: number, read: StorageReader, maxElements: number, variables: Array<DecodedVariable>): Promise<void> {
+        const type = this.typeOf(typeId);
+        const dumpAll = async (parts: Array<{ typeId: string, slot: BigNumber, label: string, offset: number }>) => {
+            for (let i = 0; i < parts.length; i += 1) {
+                // eslint-disable-next-line no-await-in-loop
+                await this.dumpIn(parts[i].typeId, parts[i].slot, parts[i].label, parts[i].offset, read, maxElements, variables);
+            }
+        };
+        const elements = (baseTypeId: string, start: BigNumber, length: number) => {
+            if (length > maxElements) logger.warn(`Only decoding the first ${maxElements} of ${length} elements of ${label}.`);
+            return Array.from({ length: Math.min(length, maxElements) }, (_, i) => ({ typeId: baseTypeId, ...this.elementAt(baseTypeId, start, i), label: `${label}[${i}]` }));
+        };
+        switch (type.encoding) {
+            case 'mapping': {
+                const entries = this.entriesOf(type, slot, label);
+                for (let i = 0; i < entries.length; i += 1) {
+                    const entryVariables: Array<DecodedVariable> = [];
+                    // eslint-disable-next-line no-await-in-loop
+                    await this.dumpIn(type.value ?? '', entries[i].slot, entries[i].label, 0, read, maxElements, entryVariables);
+                    // every key fits several key types, so only the entries that were written are of interest
+                    if (entryVariables.some((variable) => !isZeroValue(variable.value))) variables.push(...entryVariables);
+                }
+                return;
+            }
+            case 'dynamic_array': {
+                const length = BigNumber.from(await read(toSlot(slot)));
+                variables.push({
+                    label: `${label}.length`, type: LENGTH_TYPE.label, slot: toSlot(slot), offset: 0, value: length.toString(),
+                });
+                await dumpAll(elements(type.base ?? '', this.dataSlot(slot), length.gt(MAX_DATA_SLOTS) ? maxElements + 1 : length.toNumber()));
+                return;
+            }
+            default:
+                if (type.members) {
+                    await dumpAll(type.members.map((member) => ({
+                        typeId: member.type, slot: slot.add(member.slot), label: `${label}.${member.label}`, offset: member.offset,
+                    })));
+                    return;
+                }
+                if (type.base) {
+                    await dumpAll(elements(type.base, slot, staticLengthOf(typeId)));
+                    return;
+                }
+                variables.push({
+                    label,
+                    type: type.label,
+                    slot: toSlot(slot),
+                    offset,
+                    value: await this.decode({
+                        label, typeId, slot: toSlot(slot), offset,
+                    }, read),
+                });
+        }
+    }
+}
+
+export default StorageLayoutDecoder;
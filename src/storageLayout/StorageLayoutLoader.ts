@@ -0,0 +1,97 @@
+import * as path from 'path';
+import FileHandler from '../utils/fileHandler';
+import { ConfigError } from '../errors';
+import { StorageLayout } from './Types';
+
+type CompilerOutputContract = {
+    storageLayout?: StorageLayout;
+};
+
+type BuildInfo = {
+    output: {
+        contracts: { [ sourceName: string ]: { [ contractName: string ]: CompilerOutputContract } };
+    };
+};
+
+type HardhatArtifact = {
+    contractName: string;
+    sourceName: string;
+    storageLayout?: StorageLayout;
+};
+
+/**
+ * @returns whether `json` is the `storageLayout` output of solc
+ */
+export function isStorageLayout(json: unknown): json is StorageLayout {
+    const layout = json as Partial<StorageLayout> | null | undefined;
+    return Array.isArray(layout?.storage) && layout?.types !== undefined;
+}
+
+function readJSON<T>(filePath: string): T {
+    const json = new FileHandler(filePath, false).getJSON<T>();
+    if (!json) {
+        throw new ConfigError(`Could not read ${filePath}.`);
+    }
+    return json;
+}
+
+/**
+ * @param contract name of the contract, either `Name` or `source/File.sol:Name`
+ */
+function layoutFromBuildInfo(buildInfo: BuildInfo, filePath: string, contract?: string): StorageLayout {
+    const candidates = Object.entries(buildInfo.output.contracts).flatMap(([sourceName, contracts]) => Object.entries(contracts)
+        .filter(([contractName]) => !contract || contract === contractName || contract === `${sourceName}:${contractName}`)
+        .map(([contractName, output]) => ({ name: `${sourceName}:${contractName}`, output })));
+    if (candidates.length === 0) {
+        throw new ConfigError(contract ? `${filePath} does not contain the contract ${contract}.` : `${filePath} does not contain any contract.`);
+    }
+    if (candidates.length > 1) {
+        throw new ConfigError(`${filePath} contains several contracts, choose one of ${candidates.map(({ name }) => name).join(', ')}.`);
+    }
+    const { name, output } = candidates[0];
+    if (!output.storageLayout) {
+        throw new ConfigError(`${filePath} does not contain the storage layout of ${name}, add storageLayout to the outputSelection of the compiler settings.`);
+    }
+    return output.storageLayout;
+}
+
+/**
+ * Loads the storage layout of a contract from one of
+ * - the `storageLayout` output of solc,
+ * - a Hardhat artifact, whose build-info is looked up through the `.dbg.json` file next to it unless the artifact contains the layout,
+ * - a standard-JSON build-info with the compiler output.
+ * @param filePath path to the file
+ * @param contract name of the contract in a build-info, `Name` or `source/File.sol:Name`, can be omitted if there is only one contract
+ * @throws ConfigError if the file contains no storage layout of the contract
+ */
+export function loadStorageLayout(filePath: string, contract?: string): StorageLayout {
+    const json = readJSON<unknown>(filePath);
+    if (isStorageLayout(json)) return json;
+    // the remaining formats are told apart by their fields
+    const file = json as Partial<BuildInfo & HardhatArtifact>;
+    if (isStorageLayout(file.storageLayout)) return file.storageLayout;
+    if (file.output?.contracts) return layoutFromBuildInfo(file as BuildInfo, filePath, contract);
+    if (file.contractName && file.sourceName) {
+        const artifact = file as HardhatArtifact;
+        const dbgPath = filePath.replace(/\.json$/, '.dbg.json');
+        const dbg = readJSON<{ buildInfo?: string }>(dbgPath);
+        if (!dbg.buildInfo) {
+            throw new ConfigError(`${dbgPath} does not reference a build-info.`);
+        }
+        const buildInfoPath = path.resolve(path.dirname(dbgPath), dbg.buildInfo);
+        return layoutFromBuildInfo(readJSON<BuildInfo>(buildInfoPath), buildInfoPath, `${artifact.sourceName}:${artifact.contractName}`);
+    }
+    throw new ConfigError(`${filePath} is neither a storage layout, a Hardhat artifact nor a build-info.`);
+}
+
+/**
+ * @param filePath json file with an array of mapping keys, numbers may also be given as json numbers
+ * @throws ConfigError if the file contains no array
+ */
+export function loadMappingKeys(filePath: string): Array<string> {
+    const keys = readJSON<Array<string | number>>(filePath);
+    if (!Array.isArray(keys)) {
+        throw new ConfigError(`${filePath} does not contain an array of mapping keys.`);
+    }
+    return keys.map((key) => key.toString());
+}
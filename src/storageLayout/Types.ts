@@ -0,0 +1,82 @@
+/**
+ * Variable or struct member of a solc `storageLayout`
+ */
+export type StorageLayoutEntry = {
+    astId: number;
+    contract: string;
+    label: string;
+    /**
+     * offset in bytes from the lower-order end of the slot
+     */
+    offset: number;
+    /**
+     * slot as decimal string, relative to the start of the struct for struct members
+     */
+    slot: string;
+    /**
+     * id of the type in `StorageLayout.types`
+     */
+    type: string;
+};
+
+/**
+ * Type of a solc `storageLayout`, `key` and `value` are set for mappings, `base` for arrays and `members` for structs
+ */
+export type StorageLayoutType = {
+    encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+    label: string;
+    numberOfBytes: string;
+    key?: string;
+    value?: string;
+    base?: string;
+    members?: Array<StorageLayoutEntry>;
+};
+
+/**
+ * `storageLayout` output of solc for a single contract
+ */
+export type StorageLayout = {
+    storage: Array<StorageLayoutEntry>;
+    types: { [ typeId: string ]: StorageLayoutType } | null;
+};
+
+/**
+ * numbers are decimal strings since they may exceed the safe integer range, addresses are checksummed,
+ * fixed-size byte arrays and `bytes` are hex strings
+ */
+export type DecodedValue = string | boolean;
+
+/**
+ * Part of a variable that is stored in a slot, with the label of the full path to it like `balances[0xabc…]` or `items[3].owner`.
+ */
+export type StorageLocation = {
+    label: string;
+    typeId: string;
+    /**
+     * first slot of the variable, for `string` and `bytes` the slot with the length
+     */
+    slot: string;
+    offset: number;
+};
+
+export type DecodedVariable = {
+    label: string;
+    type: string;
+    slot: string;
+    offset: number;
+    value: DecodedValue;
+};
+
+export type DecodedChange = {
+    label: string;
+    type: string;
+    slot: string;
+    offset: number;
+    previousValue: DecodedValue;
+    newValue: DecodedValue;
+};
+
+/**
+ * @returns the value of `slot` as 32 byte hex string
+ */
+export type StorageReader = (slot: string) => Promise<string>;
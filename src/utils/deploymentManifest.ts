@@ -0,0 +1,138 @@
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber } from 'ethers';
+import FileHandler from './fileHandler';
+import { logger } from './logger';
+import MigrationJournal from './migrationJournal';
+import { version as smartSyncVersion } from '../../package.json';
+
+export const DEPLOYMENT_MANIFEST_VERSION = 1;
+
+export type DeploymentSteps<T> = {
+    relayContract?: T;
+    addBlock?: T;
+    logicContract?: T;
+    proxyContract?: T;
+    addStorage?: T;
+    verifyMigrateContract?: T;
+};
+
+export type DeploymentManifestData = {
+    version: number;
+    smartSyncVersion: string;
+    srcChain: {
+        chainId: number;
+        contract: string;
+    };
+    targetChain: {
+        chainId: number;
+    };
+    relayContract: string;
+    logicContract: string;
+    proxyContract: string;
+    srcBlock: number;
+    stateRoot: string;
+    /**
+     * hashes of the txs sent for each step, steps that were not necessary (e.g. because an existing relay contract was used) are missing
+     */
+    txHashes: DeploymentSteps<string | Array<string>>;
+    /**
+     * gas used per step as decimal string
+     */
+    gasUsed: DeploymentSteps<string>;
+};
+
+/**
+ * Describes a contract that was forked to a target chain, so that later commands can refer to it instead of passing addresses.
+ */
+class DeploymentManifest {
+    readonly data: DeploymentManifestData;
+
+    private constructor(data: DeploymentManifestData) {
+        this.data = data;
+    }
+
+    /**
+     * Builds the manifest of a completed migration. The gas used per step is read from the receipts of the journaled txs.
+     * @param journal journal of the completed migration
+     * @param srcProvider provider of the source chain
+     * @param targetProvider provider of the target chain
+     * @returns the manifest or undefined if the migration is not completed yet
+     */
+    static async fromJournal(journal: MigrationJournal, srcProvider: JsonRpcProvider, targetProvider: JsonRpcProvider): Promise<DeploymentManifest | undefined> {
+        const {
+            completed, relayContract, logicContract, proxyContract, srcBlock, stateRoot,
+        } = journal.data;
+        if (!completed || !relayContract || !logicContract || !proxyContract || srcBlock === undefined || !stateRoot) {
+            logger.error(`Migration recorded in ${journal.filePath} is not completed yet.`);
+            return undefined;
+        }
+        const txHashes: DeploymentSteps<string | Array<string>> = { ...journal.data.txHashes };
+        const gasUsed: DeploymentSteps<string> = {};
+        await Promise.all(Object.entries(journal.data.txHashes).map(async ([step, txHash]) => {
+            if (!txHash) return;
+            const receipt = await targetProvider.getTransactionReceipt(txHash);
+            if (receipt) gasUsed[step] = receipt.gasUsed.toString();
+        }));
+        if (journal.data.batches.length > 0) {
+            txHashes.addStorage = journal.data.batches.map((batch) => batch.txHash);
+            const receipts = await Promise.all(txHashes.addStorage.map((txHash) => targetProvider.getTransactionReceipt(txHash)));
+            gasUsed.addStorage = receipts.reduce((sum, receipt) => (receipt ? sum.add(receipt.gasUsed) : sum), BigNumber.from(0)).toString();
+        }
+        return new DeploymentManifest({
+            version: DEPLOYMENT_MANIFEST_VERSION,
+            smartSyncVersion,
+            srcChain: {
+                chainId: (await srcProvider.getNetwork()).chainId,
+                contract: journal.data.srcContract,
+            },
+            targetChain: {
+                chainId: (await targetProvider.getNetwork()).chainId,
+            },
+            relayContract,
+            logicContract,
+            proxyContract,
+            srcBlock,
+            stateRoot,
+            txHashes,
+            gasUsed,
+        });
+    }
+
+    /**
+     * @param filePath path to a manifest that was written by fork
+     * @returns the manifest or undefined if the file could not be read or is no valid manifest
+     */
+    static load(filePath: string): DeploymentManifest | undefined {
+        const data = new FileHandler(filePath).getJSON<DeploymentManifestData>();
+        if (!data) return undefined;
+        if (data.version !== DEPLOYMENT_MANIFEST_VERSION || !data.proxyContract) {
+            logger.error(`${filePath} is not a deployment manifest of version ${DEPLOYMENT_MANIFEST_VERSION}.`);
+            return undefined;
+        }
+        return new DeploymentManifest(data);
+    }
+
+    /**
+     * @returns bool indicating if the manifest could be written
+     */
+    save(filePath: string): boolean {
+        return new FileHandler(filePath, false).writeJSON(this.data);
+    }
+
+    /**
+     * @param srcProvider provider of the source chain
+     * @param targetProvider provider of the target chain
+     * @returns bool indicating if the providers are connected to the chains of the manifest
+     */
+    async matchesChains(srcProvider: JsonRpcProvider, targetProvider: JsonRpcProvider): Promise<boolean> {
+        const srcChainId = (await srcProvider.getNetwork()).chainId;
+        const targetChainId = (await targetProvider.getNetwork()).chainId;
+        if (srcChainId !== this.data.srcChain.chainId || targetChainId !== this.data.targetChain.chainId) {
+            logger.error(`Manifest was written for source chain ${this.data.srcChain.chainId} and target chain ${this.data.targetChain.chainId}, but connected to ${srcChainId} and ${targetChainId}.`);
+            return false;
+        }
+        return true;
+    }
+}
+
+export default DeploymentManifest;
@@ -0,0 +1,187 @@
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+import { logger } from './logger';
+import {
+    ConfigError, isMethodNotFoundError, RpcCapabilityError, RpcError,
+} from '../errors';
+
+/**
+ * provider: fees as suggested by ethers, legacy: a gas price, eip1559: maxFeePerGas and maxPriorityFeePerGas,
+ * feeHistory: EIP-1559 fees derived from a reward percentile of the latest blocks
+ */
+export type FeeStrategyName = 'provider' | 'legacy' | 'eip1559' | 'feeHistory';
+
+export const FEE_STRATEGIES: Array<FeeStrategyName> = ['provider', 'legacy', 'eip1559', 'feeHistory'];
+
+export type FeeConfig = {
+    strategy?: FeeStrategyName;
+    /**
+     * gas price of the legacy strategy, `eth_gasPrice` by default
+     */
+    gasPrice?: BigNumberish;
+    /**
+     * max fee of the eip1559 strategy, twice the latest base fee plus the priority fee by default
+     */
+    maxFeePerGas?: BigNumberish;
+    /**
+     * priority fee of the eip1559 strategy, `eth_maxPriorityFeePerGas` by default
+     */
+    maxPriorityFeePerGas?: BigNumberish;
+    /**
+     * reward percentile of the feeHistory strategy
+     */
+    feeHistoryPercentile?: number;
+    /**
+     * amount of blocks the feeHistory strategy looks at
+     */
+    feeHistoryBlocks?: number;
+    /**
+     * highest price per gas that is paid, sending is deferred while the fees of the chain are higher
+     */
+    maxGasPrice?: BigNumberish;
+    /**
+     * time in ms between two checks of the fees while sending is deferred
+     */
+    deferInterval?: number;
+    /**
+     * percentage the fees of a stuck tx are raised by when it is replaced
+     */
+    feeBumpPercent?: number;
+    /**
+     * how often a stuck tx is replaced at most
+     */
+    maxFeeBumps?: number;
+};
+
+export type FeeOverrides = { gasPrice: BigNumber } | { maxFeePerGas: BigNumber; maxPriorityFeePerGas: BigNumber };
+
+const DEFAULT_FEE_HISTORY_PERCENTILE = 50;
+const DEFAULT_FEE_HISTORY_BLOCKS = 10;
+const DEFAULT_DEFER_INTERVAL = 15000;
+
+type Fees = FeeOverrides & {
+    /**
+     * price per gas that is paid at the current base fee
+     */
+    effectivePrice: BigNumber;
+};
+
+/**
+ * Computes the fee overrides of txs sent to the target chain according to a `FeeConfig`.
+ */
+class FeeStrategy {
+    private provider: JsonRpcProvider;
+
+    private config: FeeConfig;
+
+    private maxGasPrice?: BigNumber;
+
+    /**
+     * @param provider provider of the chain the txs are sent to
+     * @param config fee configuration, the provider strategy without price ceiling is used by default
+     */
+    constructor(provider: JsonRpcProvider, config: FeeConfig = {}) {
+        if (config.strategy && !FEE_STRATEGIES.includes(config.strategy)) {
+            throw new ConfigError(`Unknown fee strategy ${config.strategy}, use one of ${FEE_STRATEGIES.join(', ')}.`);
+        }
+        this.provider = provider;
+        this.config = config;
+        this.maxGasPrice = config.maxGasPrice !== undefined ? BigNumber.from(config.maxGasPrice) : undefined;
+    }
+
+    /**
+     * Waits until the fees of the chain are below the configured ceiling.
+     * @returns the fee fields of the next tx
+     */
+    async overrides(): Promise<FeeOverrides> {
+        for (;;) {
+            // eslint-disable-next-line no-await-in-loop
+            const { effectivePrice, ...overrides } = await this.currentFees();
+            if (!this.maxGasPrice || effectivePrice.lte(this.maxGasPrice)) {
+                return this.capped(overrides as FeeOverrides);
+            }
+            logger.info(`Gas price ${ethers.utils.formatUnits(effectivePrice, 'gwei')} gwei exceeds the ceiling of ${ethers.utils.formatUnits(this.maxGasPrice, 'gwei')} gwei, deferring tx.`);
+            // eslint-disable-next-line no-await-in-loop
+            await new Promise((resolve) => { setTimeout(resolve, this.config.deferInterval ?? DEFAULT_DEFER_INTERVAL); });
+        }
+    }
+
+    /**
+     * @returns the price per gas a tx sent now would pay, used to estimate costs
+     */
+    async gasPrice(): Promise<BigNumber> {
+        const { effectivePrice } = await this.currentFees();
+        return this.maxGasPrice && effectivePrice.gt(this.maxGasPrice) ? this.maxGasPrice : effectivePrice;
+    }
+
+    private async currentFees(): Promise<Fees> {
+        try {
+            switch (this.config.strategy ?? 'provider') {
+                case 'legacy': {
+                    const gasPrice = this.config.gasPrice !== undefined ? BigNumber.from(this.config.gasPrice) : await this.provider.getGasPrice();
+                    return { gasPrice, effectivePrice: gasPrice };
+                }
+                case 'eip1559':
+                    return await this.eip1559Fees(this.config.maxPriorityFeePerGas !== undefined
+                        ? BigNumber.from(this.config.maxPriorityFeePerGas)
+                        : BigNumber.from(await this.provider.send('eth_maxPriorityFeePerGas', [])));
+                case 'feeHistory':
+                    return await this.eip1559Fees(await this.feeHistoryPriorityFee());
+                default: {
+                    const feeData = await this.provider.getFeeData();
+                    if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+                        return await this.eip1559Fees(feeData.maxPriorityFeePerGas, feeData.maxFeePerGas);
+                    }
+                    const gasPrice = feeData.gasPrice ?? await this.provider.getGasPrice();
+                    return { gasPrice, effectivePrice: gasPrice };
+                }
+            }
+        } catch (e) {
+            if (e instanceof RpcError) throw e;
+            throw new RpcError('Could not get the fees of the target chain.', e);
+        }
+    }
+
+    private async eip1559Fees(maxPriorityFeePerGas: BigNumber, defaultMaxFee?: BigNumber): Promise<Fees> {
+        const { baseFeePerGas } = await this.provider.getBlock('latest');
+        if (!baseFeePerGas) {
+            throw new RpcCapabilityError('EIP-1559 fees', this.provider.connection.url);
+        }
+        let maxFeePerGas: BigNumber;
+        if (this.config.maxFeePerGas !== undefined) {
+            maxFeePerGas = BigNumber.from(this.config.maxFeePerGas);
+        } else {
+            maxFeePerGas = defaultMaxFee ?? baseFeePerGas.mul(2).add(maxPriorityFeePerGas);
+        }
+        const effectivePrice = baseFeePerGas.add(maxPriorityFeePerGas);
+        return { maxFeePerGas, maxPriorityFeePerGas, effectivePrice: effectivePrice.lt(maxFeePerGas) ? effectivePrice : maxFeePerGas };
+    }
+
+    /**
+     * @returns the mean of the configured reward percentile over the latest blocks
+     */
+    private async feeHistoryPriorityFee(): Promise<BigNumber> {
+        const blocks = this.config.feeHistoryBlocks ?? DEFAULT_FEE_HISTORY_BLOCKS;
+        const percentile = this.config.feeHistoryPercentile ?? DEFAULT_FEE_HISTORY_PERCENTILE;
+        let history: { reward?: Array<Array<string>> };
+        try {
+            history = await this.provider.send('eth_feeHistory', [ethers.utils.hexValue(blocks), 'latest', [percentile]]);
+        } catch (e) {
+            if (isMethodNotFoundError(e)) throw new RpcCapabilityError('eth_feeHistory', this.provider.connection.url, e);
+            throw new RpcError('Could not get the fee history of the target chain.', e);
+        }
+        const rewards = (history.reward ?? []).map(([reward]) => BigNumber.from(reward));
+        if (rewards.length === 0) return BigNumber.from(0);
+        return rewards.reduce((sum, reward) => sum.add(reward), BigNumber.from(0)).div(rewards.length);
+    }
+
+    /**
+     * The ceiling also bounds the max fee of EIP-1559 txs, so a rising base fee cannot make a pending tx pay more.
+     */
+    private capped(overrides: FeeOverrides): FeeOverrides {
+        if (!this.maxGasPrice || !('maxFeePerGas' in overrides) || overrides.maxFeePerGas.lte(this.maxGasPrice)) return overrides;
+        return { ...overrides, maxFeePerGas: this.maxGasPrice };
+    }
+}
+
+export default FeeStrategy;
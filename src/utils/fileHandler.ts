@@ -4,8 +4,13 @@ import { logger } from './logger';
 class FileHandler {
     private filePath: string;
 
-    constructor(filePath: string) {
+    /**
+     * @param filePath path to the file to read from or write to
+     * @param mustExist whether or not a missing file should be reported (set to false for files that are about to be created)
+     */
+    constructor(filePath: string, mustExist: boolean = true) {
         this.filePath = filePath;
+        if (!mustExist) return;
         try {
             if (!fs.statSync(this.filePath).isFile) {
                 logger.error(`Given filePath ${this.filePath} does not lead to a file`);
@@ -15,6 +20,13 @@ class FileHandler {
         }
     }
 
+    /**
+     * @returns whether a file exists at the path
+     */
+    exists(): boolean {
+        return fs.existsSync(this.filePath);
+    }
+
     getJSON<T>(): T | undefined {
         try {
             const fileContent = this.read();
@@ -34,6 +46,28 @@ class FileHandler {
             return undefined;
         }
     }
+
+    /**
+     * @param content object that is written to the file as pretty printed json
+     * @returns true if the file was written, false otherwise
+     */
+    writeJSON<T>(content: T): boolean {
+        return this.write(JSON.stringify(content, null, 4));
+    }
+
+    /**
+     * @param content the new content of the file, existing content is replaced
+     * @returns true if the file was written, false otherwise
+     */
+    write(content: string): boolean {
+        try {
+            fs.writeFileSync(this.filePath, content);
+            return true;
+        } catch (e) {
+            logger.error(e);
+            return false;
+        }
+    }
 }
 
 export default FileHandler;
@@ -0,0 +1,67 @@
+import { BigNumberish } from 'ethers';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { ConfigError, RpcCapabilityError } from '../errors';
+import { toBlockNumber } from './utils';
+
+export type FinalityTag = 'finalized' | 'safe';
+
+/**
+ * When a block of the source chain is considered final: once it has the given amount of confirmations,
+ * or once the node reports it as `finalized` or `safe` (post-merge chains only).
+ */
+export type Finality = number | FinalityTag;
+
+export const FINALITY_TAGS: Array<FinalityTag> = ['finalized', 'safe'];
+
+/**
+ * @param value amount of confirmations or one of `FINALITY_TAGS`, e.g. the value of --confirmations
+ * @throws ConfigError if the value is neither
+ */
+export function parseFinality(value: string | number): Finality {
+    if (typeof value === 'string' && (FINALITY_TAGS as Array<string>).indexOf(value) > -1) {
+        return value as FinalityTag;
+    }
+    const confirmations = Number(value);
+    if (!Number.isInteger(confirmations) || confirmations < 0) {
+        throw new ConfigError(`${value} is neither an amount of confirmations nor one of ${FINALITY_TAGS.join(', ')}.`);
+    }
+    return confirmations;
+}
+
+/**
+ * @returns the newest block of the chain of `provider` that is final according to `finality`
+ * @throws RpcCapabilityError if the node does not know the `finalized` or `safe` tag
+ */
+export async function getFinalBlockNumber(provider: JsonRpcProvider, finality: Finality): Promise<number> {
+    if (typeof finality === 'number') {
+        return Math.max(await provider.getBlockNumber() - finality, 0);
+    }
+    let block: { number: string } | null;
+    try {
+        block = await provider.send('eth_getBlockByNumber', [finality, false]);
+    } catch (e) {
+        throw new RpcCapabilityError(`the block tag ${finality}`, provider.connection.url, e);
+    }
+    // pre-merge nodes may accept the tag without knowing a block for it
+    if (!block) {
+        throw new RpcCapabilityError(`the block tag ${finality}`, provider.connection.url);
+    }
+    return Number(block.number);
+}
+
+/**
+ * Resolves a block identifier like `toBlockNumber`, but honours `finality`: `latest` and `pending` resolve to the newest final block.
+ * @param val block number or tag
+ * @param finality finality policy of the chain, `toBlockNumber` is used as it is if undefined
+ * @throws ConfigError if `val` is a block number that is not final yet
+ */
+export async function toFinalBlockNumber(val: BigNumberish, provider: JsonRpcProvider, finality?: Finality): Promise<number> {
+    if (finality === undefined) return toBlockNumber(val, provider);
+    if (val === 'latest' || val === 'pending') return getFinalBlockNumber(provider, finality);
+    const blockNumber = await toBlockNumber(val, provider);
+    const finalBlockNumber = await getFinalBlockNumber(provider, finality);
+    if (blockNumber > finalBlockNumber) {
+        throw new ConfigError(`Block ${blockNumber} is not final yet, the newest final block is ${finalBlockNumber}.`);
+    }
+    return blockNumber;
+}
@@ -0,0 +1,114 @@
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber, BigNumberish } from 'ethers';
+import { logger } from './logger';
+import { errorText } from '../errors';
+
+/**
+ * Share of the block gas limit that is kept free, also added on top of every gas estimation
+ */
+export const DEFAULT_GAS_SAFETY_MARGIN = 0.2;
+
+/**
+ * Batch size that is used to extrapolate the gas costs per item
+ */
+const PROBE_BATCH_SIZE = 10;
+
+const GAS_TOO_HIGH_MESSAGES = [
+    'exceeds block gas limit',
+    'gas required exceeds',
+    'gas limit reached',
+    'out of gas',
+    'intrinsic gas too high',
+    'oversized data',
+    'transaction too large',
+    'request entity too large',
+];
+
+/**
+ * @param error error thrown by ethers while estimating or sending a tx
+ * @returns true if the error was caused by a tx that needs too much gas or is too large
+ */
+export function isGasTooHighError(error: unknown): boolean {
+    const message = errorText(error, ['message'], ['reason'], ['error', 'message'], ['body']);
+    return GAS_TOO_HIGH_MESSAGES.some((m) => message.includes(m));
+}
+
+/**
+ * Derives batch sizes and gas limits for txs on the target chain from gas estimations and the target block gas limit.
+ */
+class GasBatcher {
+    private provider: JsonRpcProvider;
+
+    private safetyMargin: number;
+
+    private gasLimitCap?: BigNumber;
+
+    /**
+     * @param provider provider of the chain the txs are sent to
+     * @param safetyMargin share of gas that is kept as margin, between 0 and 1
+     * @param gasLimitCap optional upper bound for the gas limit of a single tx (e.g. the configured --gas-limit)
+     */
+    constructor(provider: JsonRpcProvider, safetyMargin: number = DEFAULT_GAS_SAFETY_MARGIN, gasLimitCap?: BigNumberish) {
+        this.provider = provider;
+        this.safetyMargin = safetyMargin;
+        this.gasLimitCap = gasLimitCap !== undefined ? BigNumber.from(gasLimitCap) : undefined;
+    }
+
+    /**
+     * @returns the gas a single tx may use: the latest block gas limit minus the safety margin, bounded by the gas limit cap
+     */
+    async gasBudget(): Promise<BigNumber> {
+        const { gasLimit } = await this.provider.getBlock('latest');
+        const budget = this.applyMargin(gasLimit, -1);
+        return (this.gasLimitCap && this.gasLimitCap.lt(budget)) ? this.gasLimitCap : budget;
+    }
+
+    /**
+     * @param estimation estimated gas of a tx
+     * @returns the gas limit to send the tx with
+     */
+    async gasLimitFor(estimation: BigNumber): Promise<BigNumber> {
+        const gasLimit = this.applyMargin(estimation, 1);
+        const budget = await this.gasBudget();
+        return gasLimit.gt(budget) ? budget : gasLimit;
+    }
+
+    /**
+     * Estimates how many items fit into one tx by extrapolating the gas costs of a small and a probe batch.
+     * @param estimate returns the estimated gas of a tx that contains the first `size` items
+     * @param maxSize amount of items that need to be sent
+     * @returns the largest batch size that fits into the gas budget, at least 1
+     */
+    async fitBatchSize(estimate: (size: number) => Promise<BigNumber>, maxSize: number): Promise<number> {
+        if (maxSize <= 1) return maxSize;
+        const budget = await this.gasBudget();
+        const probeSize = Math.min(PROBE_BATCH_SIZE, maxSize);
+        const singleGas = await estimate(1);
+        const probeGas = await estimate(probeSize);
+        const gasPerItem = probeGas.sub(singleGas).div(probeSize - 1);
+        const baseGas = singleGas.sub(gasPerItem);
+        return this.fitBatchSizeFromCosts(baseGas, gasPerItem, maxSize, budget);
+    }
+
+    /**
+     * @param baseGas gas of a tx without any items
+     * @param gasPerItem additional gas per item in the tx
+     * @param maxSize amount of items that need to be sent
+     * @param budget gas budget of a single tx, see `gasBudget` by default
+     * @returns the largest batch size that fits into the gas budget, at least 1
+     */
+    async fitBatchSizeFromCosts(baseGas: BigNumber, gasPerItem: BigNumber, maxSize: number, budget?: BigNumber): Promise<number> {
+        if (gasPerItem.lte(0)) return maxSize;
+        const gasBudget = budget ?? await this.gasBudget();
+        const fitting = gasBudget.sub(baseGas).div(this.applyMargin(gasPerItem, 1)).toNumber();
+        logger.debug(`Estimated ${gasPerItem.toString()} gas per item and ${baseGas.toString()} base gas, ${fitting} items fit into a gas budget of ${gasBudget.toString()}.`);
+        return Math.max(1, Math.min(fitting, maxSize));
+    }
+
+    private applyMargin(gas: BigNumber, sign: 1 | -1): BigNumber {
+        const marginPerMille = Math.round(this.safetyMargin * 1000);
+        return gas.mul(1000 + sign * marginPerMille).div(1000);
+    }
+}
+
+export default GasBatcher;
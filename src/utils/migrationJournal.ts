@@ -0,0 +1,119 @@
+import FileHandler from './fileHandler';
+import { logger } from './logger';
+
+export const MIGRATION_JOURNAL_VERSION = 1;
+
+export type JournalBatch = {
+    txHash: string;
+    keyCount: number;
+    confirmed: boolean;
+};
+
+export type MigrationJournalData = {
+    version: number;
+    srcContract: string;
+    relayContract?: string;
+    logicContract?: string;
+    proxyContract?: string;
+    srcBlock?: number;
+    stateRoot?: string;
+    /**
+     * index of the last addStorage batch that was confirmed together with all batches before it, -1 if none
+     */
+    lastConfirmedBatch: number;
+    txHashes: {
+        relayContract?: string;
+        addBlock?: string;
+        logicContract?: string;
+        proxyContract?: string;
+        verifyMigrateContract?: string;
+    };
+    batches: Array<JournalBatch>;
+    completed: boolean;
+};
+
+/**
+ * Keeps track of the steps of a fork on disk so that an interrupted migration can be resumed
+ * without redeploying the relay, logic and proxy contract.
+ */
+class MigrationJournal {
+    readonly filePath: string;
+
+    data: MigrationJournalData;
+
+    private constructor(filePath: string, data: MigrationJournalData) {
+        this.filePath = filePath;
+        this.data = data;
+    }
+
+    /**
+     * @param filePath where the journal is written to, an existing file is overwritten
+     * @param srcContract address of the source contract that is migrated
+     * @returns a new journal that was already written to disk
+     */
+    static create(filePath: string, srcContract: string): MigrationJournal {
+        const journal = new MigrationJournal(filePath, {
+            version: MIGRATION_JOURNAL_VERSION,
+            srcContract,
+            lastConfirmedBatch: -1,
+            txHashes: {},
+            batches: [],
+            completed: false,
+        });
+        journal.save();
+        return journal;
+    }
+
+    /**
+     * @param filePath path to a journal that was written by a previous fork
+     * @returns the journal or undefined if the file could not be read or is no valid journal
+     */
+    static load(filePath: string): MigrationJournal | undefined {
+        const data = new FileHandler(filePath).getJSON<MigrationJournalData>();
+        if (!data) return undefined;
+        if (data.version !== MIGRATION_JOURNAL_VERSION || !data.srcContract) {
+            logger.error(`${filePath} is not a migration journal of version ${MIGRATION_JOURNAL_VERSION}.`);
+            return undefined;
+        }
+        return new MigrationJournal(filePath, data);
+    }
+
+    /**
+     * Merges the given changes into the journal and writes it to disk.
+     */
+    update(changes: Partial<Omit<MigrationJournalData, 'txHashes'>>, txHashes: MigrationJournalData['txHashes'] = {}) {
+        Object.assign(this.data, changes);
+        Object.assign(this.data.txHashes, txHashes);
+        this.save();
+    }
+
+    /**
+     * @returns the index of the new batch inside the journal
+     */
+    addBatch(txHash: string, keyCount: number): number {
+        this.data.batches.push({ txHash, keyCount, confirmed: false });
+        this.save();
+        return this.data.batches.length - 1;
+    }
+
+    /**
+     * @param index index of the batch inside the journal
+     * @param txHash hash of the mined tx, differs from the sent one if the tx was replaced
+     */
+    confirmBatch(index: number, txHash?: string) {
+        this.data.batches[index].confirmed = true;
+        if (txHash) this.data.batches[index].txHash = txHash;
+        let lastConfirmed = this.data.lastConfirmedBatch;
+        while (this.data.batches[lastConfirmed + 1]?.confirmed) lastConfirmed += 1;
+        this.data.lastConfirmedBatch = lastConfirmed;
+        this.save();
+    }
+
+    save() {
+        if (!new FileHandler(this.filePath, false).writeJSON(this.data)) {
+            logger.warn(`Could not write migration journal to ${this.filePath}.`);
+        }
+    }
+}
+
+export default MigrationJournal;
@@ -0,0 +1,111 @@
+import { TransactionRequest, TransactionResponse } from '@ethersproject/abstract-provider';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { Signer } from 'ethers';
+import { logger } from './logger';
+import TxWatchdog, { WatchedReceipt } from './txWatchdog';
+import { InvalidStateError } from '../errors';
+
+/**
+ * Amount of txs that may be sent but not yet mined at the same time
+ */
+export const DEFAULT_MAX_IN_FLIGHT_TXS = 8;
+
+export type PipelinedTx = {
+    response: TransactionResponse;
+    /**
+     * resolves once the tx or one of its replacements was mined, rejects like `TransactionResponse.wait` if it reverted
+     */
+    receipt: Promise<WatchedReceipt>;
+};
+
+/**
+ * Assigns the nonces of the txs of one signer explicitly, so that several txs can be sent without waiting for each other.
+ * At most `maxInFlight` txs are unconfirmed at once. Sent txs are watched by a `TxWatchdog`, which resends dropped and replaces stuck txs,
+ * and the nonce of a tx that could not be sent is filled with an empty tx if higher nonces were already handed out.
+ */
+class NonceManager {
+    private signer: Signer;
+
+    private provider: JsonRpcProvider;
+
+    private maxInFlight: number;
+
+    private watchdog: TxWatchdog;
+
+    private nextNonce?: number;
+
+    /**
+     * settles when the tx with the given nonce was mined or failed
+     */
+    private settled = new Map<number, Promise<void>>();
+
+    /**
+     * @param signer signer of all txs, no other txs of this signer may be sent while the manager is used
+     * @param provider provider of the chain the txs are sent to
+     * @param watchdog watches the sent txs until they are mined
+     * @param maxInFlight amount of txs that may be unconfirmed at once
+     */
+    constructor(signer: Signer, provider: JsonRpcProvider, watchdog: TxWatchdog, maxInFlight: number = DEFAULT_MAX_IN_FLIGHT_TXS) {
+        this.signer = signer;
+        this.provider = provider;
+        this.watchdog = watchdog;
+        this.maxInFlight = Math.max(1, maxInFlight);
+    }
+
+    /**
+     * Fetches the next nonce of the signer, needs to be called before any tx is sent.
+     */
+    async init() {
+        this.nextNonce = await this.provider.getTransactionCount(await this.signer.getAddress(), 'pending');
+    }
+
+    /**
+     * Reserves the next nonce synchronously, so txs get their nonces in the order of the calls even if the calls are not awaited.
+     * @param request tx without nonce
+     * @param description name of the tx in logs
+     * @returns the tx once it was sent
+     */
+    async send(request: TransactionRequest, description: string): Promise<PipelinedTx> {
+        if (this.nextNonce === undefined) {
+            throw new InvalidStateError('NonceManager.init needs to be called before sending txs.');
+        }
+        const nonce = this.nextNonce;
+        this.nextNonce += 1;
+        let markSettled: () => void = () => undefined;
+        this.settled.set(nonce, new Promise((resolve) => { markSettled = resolve; }));
+
+        let response: TransactionResponse;
+        try {
+            await this.settled.get(nonce - this.maxInFlight);
+            this.settled.delete(nonce - this.maxInFlight);
+            response = await this.signer.sendTransaction({ ...request, nonce });
+        } catch (e) {
+            await this.release(nonce);
+            markSettled();
+            throw e;
+        }
+        const receipt = this.watchdog.wait(response, description);
+        receipt.then(markSettled, markSettled);
+        return { response, receipt };
+    }
+
+    /**
+     * Gives back the nonce of a tx that could not be sent. If a higher nonce was already handed out, the nonce is filled with
+     * an empty tx since the higher txs would never be mined otherwise.
+     */
+    private async release(nonce: number) {
+        if (this.nextNonce === nonce + 1) {
+            this.nextNonce = nonce;
+            return;
+        }
+        logger.debug(`Filling the nonce gap at ${nonce} with an empty tx.`);
+        try {
+            const self = await this.signer.getAddress();
+            await (await this.signer.sendTransaction({ to: self, value: 0, nonce })).wait();
+        } catch (e) {
+            logger.error(`Could not fill the nonce gap at ${nonce}, txs with higher nonces will not be mined.`, e);
+        }
+    }
+}
+
+export default NonceManager;
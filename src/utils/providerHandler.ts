@@ -1,6 +1,6 @@
 import { ConnectionInfo } from '@ethersproject/web';
 import { ethers } from 'ethers';
-import { logger } from './logger';
+import { ConfigError } from '../errors';
 
 export type SupportedProviders = string;
 
@@ -18,8 +18,7 @@ class ProviderHandler {
         if (match === null) {
             switch (this.connectionInfo.url as SupportedProviders) {
                 default:
-                    logger.error(`Provider ${this.connectionInfo.url} not supported.`);
-                    throw new Error();
+                    throw new ConfigError(`Provider ${this.connectionInfo.url} not supported.`);
             }
         }
         return new ethers.providers.JsonRpcProvider(this.connectionInfo);
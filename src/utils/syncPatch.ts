@@ -0,0 +1,241 @@
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber, ethers, Signer } from 'ethers';
+import {
+    encodeBlockHeader, GetDiffMethod, SRC_TX_DIFF_METHODS, SyncProof,
+} from '../chain-proxy';
+import { DiffReport } from '../diffHandler/DiffReport';
+import {
+    ConfigError, InvalidStateError, PatchIntegrityError, RpcError,
+} from '../errors';
+import { BlockHeader } from '../proofHandler/Types';
+import FileHandler from './fileHandler';
+import { toParityQuantity } from './utils';
+import { version as smartSyncVersion } from '../../package.json';
+
+export const SYNC_PATCH_VERSION = 1;
+
+/**
+ * Fields of `eth_getBlockByNumber` that are kept in a patch, the fields of `BlockHeader` and the hash
+ */
+const HEADER_FIELDS: Array<keyof BlockHeader | 'hash'> = [
+    'hash', 'parentHash', 'sha3Uncles', 'miner', 'stateRoot', 'transactionsRoot', 'receiptsRoot', 'logsBloom', 'difficulty', 'number', 'gasLimit', 'gasUsed', 'timestamp', 'extraData', 'mixHash', 'nonce', 'baseFeePerGas',
+];
+
+/**
+ * Result of `eth_getBlockByNumber`, only the header fields are kept
+ */
+type RawBlock = BlockHeader & { hash: string } & { [ field: string ]: unknown };
+
+export type SyncPatchData = {
+    version: number;
+    smartSyncVersion: string;
+    srcChain: {
+        chainId: number;
+        contract: string;
+    };
+    /**
+     * the diff whose keys are updated by `proof`
+     */
+    diff: DiffReport;
+    /**
+     * consecutive headers of the source chain up to the block of `proof`. Only the last one is needed unless the relay contract is in header mode
+     * and lacks the headers before it.
+     */
+    headers: Array<BlockHeader & { hash: string }>;
+    /**
+     * `SyncProof` with the rlp encoded proof as hex string
+     */
+    proof: {
+        keys: Array<string>;
+        blockNumber: number;
+        stateRoot: string;
+        rlpProof: string;
+    };
+    /**
+     * keccak256 hash of the json of all other fields except for `signature`
+     */
+    checksum: string;
+    /**
+     * signature of the exporter over `checksum` (EIP-191), undefined if the patch was exported without a signer
+     */
+    signature?: string;
+};
+
+function checksumOf(content: Omit<SyncPatchData, 'checksum' | 'signature'>): string {
+    return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(JSON.stringify(content)));
+}
+
+function sortedKeys(keys: Array<string>): Array<string> {
+    return keys.map((key) => ethers.utils.hexZeroPad(key, 32).toLowerCase()).sort();
+}
+
+/**
+ * Everything that is read from the source chain to synchronize a proxy contract, so that the txs can be signed and sent on a machine without access to the source chain.
+ */
+class SyncPatch {
+    readonly data: SyncPatchData;
+
+    private constructor(data: SyncPatchData) {
+        this.data = data;
+    }
+
+    /**
+     * @param diff report of the diff that `proof` was built for
+     * @param proof proof of the keys of `diff`, see `ChainProxy.buildSyncProof`
+     * @param srcProvider provider of the source chain
+     * @param headersFrom first block whose header is part of the patch, only the header of the block of `proof` if undefined
+     * @param signer exporter that signs the checksum of the patch, so that the patch can be authenticated by `verify`
+     * @throws ConfigError if `headersFrom` is after the block of `proof` or if the patch could not be signed
+     * @throws RpcError if a header could not be fetched
+     */
+    static async create(diff: DiffReport, proof: SyncProof, srcProvider: JsonRpcProvider, headersFrom: number = proof.blockNumber, signer?: Signer): Promise<SyncPatch> {
+        if (headersFrom > proof.blockNumber) {
+            throw new ConfigError(`The headers have to start at or before block ${proof.blockNumber} of the proof.`);
+        }
+        let chainId: number;
+        let blocks: Array<RawBlock>;
+        try {
+            ({ chainId } = await srcProvider.getNetwork());
+            blocks = await Promise.all(Array.from({ length: proof.blockNumber - headersFrom + 1 }, (_, i) => srcProvider.send('eth_getBlockByNumber', [toParityQuantity(headersFrom + i), false])));
+        } catch (e) {
+            throw new RpcError(`Could not get the headers of the blocks ${headersFrom} to ${proof.blockNumber} of the source chain.`, e);
+        }
+        const headers = blocks.map((block) => Object.fromEntries(HEADER_FIELDS.filter((field) => block[field] !== undefined && block[field] !== null).map((field) => [field, block[field]])) as BlockHeader & { hash: string });
+        const content: Omit<SyncPatchData, 'checksum' | 'signature'> = {
+            version: SYNC_PATCH_VERSION,
+            smartSyncVersion,
+            srcChain: {
+                chainId,
+                contract: diff.srcContract,
+            },
+            diff,
+            headers,
+            proof: {
+                keys: proof.keys,
+                blockNumber: proof.blockNumber,
+                stateRoot: proof.stateRoot,
+                rlpProof: ethers.utils.hexlify(proof.rlpProof),
+            },
+        };
+        const checksum = checksumOf(content);
+        if (!signer) return new SyncPatch({ ...content, checksum });
+        let signature: string;
+        try {
+            signature = await signer.signMessage(ethers.utils.arrayify(checksum));
+        } catch (e) {
+            throw new ConfigError('Could not sign the patch.', e);
+        }
+        return new SyncPatch({ ...content, checksum, signature });
+    }
+
+    /**
+     * @param filePath path to a patch that was written by state-diff --export-patch
+     * @throws ConfigError if the file could not be read or is no patch
+     */
+    static load(filePath: string): SyncPatch {
+        const data = new FileHandler(filePath).getJSON<SyncPatchData>();
+        if (!data || data.version !== SYNC_PATCH_VERSION || !data.proof || !Array.isArray(data.headers)) {
+            throw new ConfigError(`${filePath} is not a storage patch of version ${SYNC_PATCH_VERSION}.`);
+        }
+        return new SyncPatch(data);
+    }
+
+    /**
+     * @returns bool indicating if the patch could be written
+     */
+    save(filePath: string): boolean {
+        return new FileHandler(filePath, false).writeJSON(this.data);
+    }
+
+    get syncProof(): SyncProof {
+        const { proof, headers } = this.data;
+        return {
+            keys: proof.keys,
+            blockNumber: proof.blockNumber,
+            blockHash: headers[headers.length - 1].hash,
+            stateRoot: proof.stateRoot,
+            rlpProof: Buffer.from(ethers.utils.arrayify(proof.rlpProof)),
+        };
+    }
+
+    /**
+     * Checks that the patch was not modified since it was exported and that its parts belong together:
+     * the headers are linked and hash to their block hashes, the proof is for the state root of the last header and updates the keys of the diff.
+     * The checksum alone does not authenticate the patch since it can be recomputed after an edit, see `exporter` and `checkLinkedTo`.
+     * The proof itself is verified by the proxy contract.
+     * @param srcContract source contract of the proxy contract that the patch is applied to
+     * @param exporter address of the account that has to have signed the patch, the signature is not checked if undefined
+     * @throws PatchIntegrityError if any check fails
+     */
+    verify(srcContract: string, exporter?: string) {
+        const { checksum, signature, ...content } = this.data;
+        if (checksumOf(content) !== checksum) {
+            throw new PatchIntegrityError('The checksum of the patch does not match its content.');
+        }
+        if (exporter !== undefined) {
+            if (!signature) {
+                throw new PatchIntegrityError(`The patch is not signed, but a signature of ${exporter} is required.`);
+            }
+            let signer: string;
+            try {
+                signer = ethers.utils.verifyMessage(ethers.utils.arrayify(checksum), signature);
+            } catch (e) {
+                throw new PatchIntegrityError('The signature of the patch is malformed.', e);
+            }
+            if (signer.toLowerCase() !== exporter.toLowerCase()) {
+                throw new PatchIntegrityError(`The patch is signed by ${signer} instead of ${exporter}.`);
+            }
+        }
+        if (content.srcChain.contract.toLowerCase() !== srcContract.toLowerCase()) {
+            throw new PatchIntegrityError(`The patch belongs to ${content.srcChain.contract}, but the source contract of the proxy contract is ${srcContract}.`);
+        }
+        content.headers.forEach((header, i) => {
+            if (ethers.utils.keccak256(encodeBlockHeader(header)) !== header.hash) {
+                throw new PatchIntegrityError(`The header of block ${BigNumber.from(header.number).toNumber()} does not match its hash ${header.hash}.`);
+            }
+            if (i > 0 && header.parentHash !== content.headers[i - 1].hash) {
+                throw new PatchIntegrityError(`The header of block ${BigNumber.from(header.number).toNumber()} does not link to the header before it.`);
+            }
+        });
+        const lastHeader = content.headers[content.headers.length - 1];
+        if (!lastHeader || !BigNumber.from(lastHeader.number).eq(content.proof.blockNumber) || lastHeader.stateRoot !== content.proof.stateRoot) {
+            throw new PatchIntegrityError(`The proof is not for the state root of the last header of the patch (block ${content.proof.blockNumber}).`);
+        }
+        const proofKeys = sortedKeys(content.proof.keys);
+        const diffKeys = sortedKeys(content.diff.diffs.map((entry) => entry.key));
+        if (proofKeys.length !== diffKeys.length || proofKeys.some((key, i) => key !== diffKeys[i])) {
+            throw new PatchIntegrityError('The keys of the proof differ from the keys of the diff.');
+        }
+    }
+
+    /**
+     * Checks that the first header of the patch is stored in the relay contract or links to a stored header,
+     * so that the headers of the patch extend the header chain that the relay contract trusts already.
+     * @param getBlockHash returns the hash of the header of a block that is stored in the relay contract, the zero hash if none is stored
+     * @throws PatchIntegrityError if the headers of the patch do not link to the relay contract
+     */
+    async checkLinkedTo(getBlockHash: (blockNumber: number) => Promise<string>) {
+        const [firstHeader] = this.data.headers;
+        const firstBlock = BigNumber.from(firstHeader.number).toNumber();
+        if ((await getBlockHash(firstBlock)) === firstHeader.hash) return;
+        if (firstBlock > 0 && (await getBlockHash(firstBlock - 1)) === firstHeader.parentHash) return;
+        throw new PatchIntegrityError(`The header of block ${firstBlock} does not link to a header of the relay contract, export the patch with --headers-from after the latest header of the relay contract.`);
+    }
+
+    /**
+     * @param syncedBlock block of the source chain that the proxy contract is synchronized to
+     * @throws InvalidStateError if the proxy contract is synchronized beyond the patch already,
+     * or if the patch was built from the txs of a block range that does not start right after `syncedBlock`
+     */
+    checkFollows(syncedBlock: number) {
+        const { diff, proof } = this.data;
+        if (proof.blockNumber <= syncedBlock) {
+            throw new InvalidStateError(`The proxy contract is synchronized up to block ${syncedBlock} already, the patch is for block ${proof.blockNumber}.`);
+        }
+        if (SRC_TX_DIFF_METHODS.indexOf(diff.diffMode as GetDiffMethod) > -1 && diff.fromBlock !== null && diff.fromBlock > syncedBlock + 1) {
+            throw new InvalidStateError(`The patch contains the changes from block ${diff.fromBlock}, but the proxy contract is only synchronized up to block ${syncedBlock}.`);
+        }
+    }
+}
+
+export default SyncPatch;
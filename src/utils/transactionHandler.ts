@@ -1,8 +1,9 @@
 import { JsonRpcProvider } from '@ethersproject/providers';
 import * as CliProgress from 'cli-progress';
 import { logger } from './logger';
+import { isMethodNotFoundError, RpcCapabilityError, RpcError } from '../errors';
 import {
-    findDeploymentBlock, isDebug, toBlockNumber, toParityQuantity,
+    findDeploymentBlock, isDebug, mapConcurrently, toBlockNumber, toParityQuantity,
 } from './utils';
 
 type KeyObject = {
@@ -22,6 +23,63 @@ export type ParityResponseData = {
     }
 };
 
+type PrestateAccount = {
+    storage?: { [ key: string ]: string }
+};
+
+/**
+ * Result of the prestateTracer in diff mode: the touched accounts before and after a tx. Storage slots that were cleared are only part of `pre`.
+ */
+export type PrestateDiff = {
+    pre: { [ address: string ]: PrestateAccount };
+    post: { [ address: string ]: PrestateAccount };
+};
+
+type ParityBlockReplay = Array<ParityResponseData & { transactionHash: string }>;
+
+/**
+ * Position of a tx on the chain
+ */
+export type TxPosition = {
+    txHash: string;
+    blockNumber: number;
+    txIndex: number;
+};
+
+/**
+ * Storage of the contract that was written by a single tx
+ */
+export type StorageWrite = TxPosition & {
+    storage: { [ key: string ]: string };
+};
+
+const ZERO_STORAGE_VALUE = `0x${'0'.repeat(64)}`;
+
+/**
+ * @returns the storage of `contractAddress` that was written according to the stateDiff of a replayed tx, undefined if it was not changed
+ */
+function storageFromStateDiff(response: ParityResponseData, contractAddress: string): undefined | { [ key: string ]: string } {
+    // Ensure the state has been changed
+    if (Object.prototype.hasOwnProperty.call(response.stateDiff, contractAddress.toLowerCase())) {
+        const tx = response.stateDiff[contractAddress.toLowerCase()];
+        if (tx) {
+            logger.debug(tx.storage);
+            const txStorage = tx.storage;
+            const keys = Object.keys(txStorage);
+            const obj: { [ key: string ]: string } = {};
+            keys.forEach((key) => {
+                // First case: normal tx
+                // Second case: deploying tx
+                const keyObject: KeyObject = txStorage[key];
+                if (keyObject['*'] !== undefined) obj[key] = keyObject['*'].to;
+                else if (keyObject['+'] !== undefined) obj[key] = keyObject['+'];
+            });
+            return obj;
+        }
+    }
+    return undefined;
+}
+
 class TransactionHandler {
     private contractAddress: string;
 
@@ -76,36 +134,157 @@ class TransactionHandler {
     }
 
     async replayTransaction(transaction: string): Promise<undefined | { [ key: string ]: string }> {
+        let response: ParityResponseData;
         try {
-            const response: ParityResponseData = await this.provider.send('trace_replayTransaction', [transaction, ['stateDiff']]);
-            // Ensure the state has been changed
-
-            if (Object.prototype.hasOwnProperty.call(response.stateDiff, this.contractAddress.toLowerCase())) {
-                const tx = response.stateDiff[this.contractAddress.toLowerCase()];
-                logger.debug('tx: ', transaction);
-                if (tx) {
-                    logger.debug(tx.storage);
-                    const txStorage = tx.storage;
-                    const keys = Object.keys(txStorage);
-                    const obj: { [ key: string ]: string } = {};
-                    keys.forEach((key) => {
-                        // First case: normal tx
-                        // Second case: deploying tx
-                        const keyObject: KeyObject = txStorage[key];
-                        if (keyObject['*'] !== undefined) obj[key] = keyObject['*'].to;
-                        else if (keyObject['+'] !== undefined) obj[key] = keyObject['+'];
-                    });
-                    return obj;
-                }
+            response = await this.provider.send('trace_replayTransaction', [transaction, ['stateDiff']]);
+        } catch (e) {
+            if (isMethodNotFoundError(e)) throw new RpcCapabilityError('trace_replayTransaction', this.provider.connection.url, e);
+            throw new RpcError(`Could not replay tx ${transaction}.`, e);
+        }
+        logger.debug('tx: ', transaction);
+        return storageFromStateDiff(response, this.contractAddress);
+    }
+
+    /**
+     * Replays every block with a tx to the contract at once with `trace_replayBlockTransactions` instead of replaying each tx on its own,
+     * which needs one request per block instead of one per tx.
+     * @param earliest_block_number first block whose txs are replayed, the deployment block of the contract if not given
+     * @param concurrency amount of blocks that are replayed at once
+     * @param onReplayed called with the amount of replayed and of all blocks whenever a block was replayed
+     * @returns the storage writes of every tx that changed the storage of the contract, in the order of the blocks and txs
+     */
+    async replayBlockStorageWrites(latest_block_number: number | string, earliest_block_number?: number | string, concurrency: number = 1, onReplayed?: (done: number, total: number) => void): Promise<Array<StorageWrite>> {
+        const blockNumbers = [...new Set<number>((await this.filterTraces(latest_block_number, earliest_block_number)).map(({ blockNumber }) => blockNumber))]
+            .sort((a, b) => a - b);
+        logger.info(`Replaying the txs of ${blockNumbers.length} blocks...`);
+        let done = 0;
+        const blockWrites = await mapConcurrently(blockNumbers, concurrency, async (blockNumber) => {
+            const writes = await this.replayBlock(blockNumber);
+            done += 1;
+            onReplayed?.(done, blockNumbers.length);
+            return writes;
+        });
+        return blockWrites.flat();
+    }
+
+    /**
+     * @returns the storage writes of every tx of the block that changed the storage of the contract, in the order of the txs
+     */
+    private async replayBlock(blockNumber: number): Promise<Array<StorageWrite>> {
+        let replays: ParityBlockReplay;
+        try {
+            replays = await this.provider.send('trace_replayBlockTransactions', [toParityQuantity(blockNumber), ['stateDiff']]);
+        } catch (e) {
+            if (isMethodNotFoundError(e)) throw new RpcCapabilityError('trace_replayBlockTransactions', this.provider.connection.url, e);
+            throw new RpcError(`Could not replay block ${blockNumber}.`, e);
+        }
+        const writes: Array<StorageWrite> = [];
+        // the replays are in the order of the txs of the block
+        replays.forEach((replay, txIndex) => {
+            const storage = storageFromStateDiff(replay, this.contractAddress);
+            if (storage) {
+                logger.debug(`tx ${replay.transactionHash} in block ${blockNumber}: `, storage);
+                writes.push({
+                    txHash: replay.transactionHash, blockNumber, txIndex, storage,
+                });
+            }
+        });
+        return writes;
+    }
+
+    /**
+     * Traces every block from `earliest_block_number` to `latest_block_number` with `debug_traceBlockByNumber` and the prestateTracer in diff mode,
+     * which Geth, Erigon and Nethermind provide. Unlike `getTransactions`, txs that change the contract through other contracts are found as well.
+     * @param earliest_block_number first traced block, the deployment block of the contract if not given
+     * @param concurrency amount of blocks that are traced at once
+     * @param onTraced called with the amount of traced and of all blocks whenever a block was traced
+     * @returns the storage writes of every tx that changed the storage of the contract, in the order of the txs
+     */
+    async traceStorageWrites(latest_block_number: number | string, earliest_block_number?: number | string, concurrency: number = 1, onTraced?: (done: number, total: number) => void): Promise<Array<StorageWrite>> {
+        let latest = latest_block_number;
+        if (typeof (latest) === 'string') latest = await toBlockNumber(latest, this.provider);
+        let earliest = (earliest_block_number && earliest_block_number !== 'earliest') ? earliest_block_number : await findDeploymentBlock(this.contractAddress, this.provider);
+        if (typeof (earliest) === 'string') earliest = await toBlockNumber(earliest, this.provider);
+        if (latest < earliest) {
+            logger.debug(`Given latest block number ${latest} older than earliest block number ${earliest}.`);
+            return [];
+        }
+
+        const blockNumbers = Array.from({ length: latest - earliest + 1 }, (_, i) => (earliest as number) + i);
+        let done = 0;
+        const blockWrites = await mapConcurrently(blockNumbers, concurrency, async (blockNumber) => {
+            const writes = await this.traceBlockStorageWrites(blockNumber);
+            done += 1;
+            onTraced?.(done, blockNumbers.length);
+            return writes;
+        });
+        return blockWrites.flat();
+    }
+
+    /**
+     * @returns the storage writes of every tx of the block that changed the storage of the contract, in the order of the txs
+     */
+    private async traceBlockStorageWrites(blockNumber: number): Promise<Array<StorageWrite>> {
+        let traces: Array<{ txHash?: string, result: PrestateDiff }>;
+        try {
+            traces = await this.provider.send('debug_traceBlockByNumber', [toParityQuantity(blockNumber), { tracer: 'prestateTracer', tracerConfig: { diffMode: true } }]);
+        } catch (e) {
+            if (isMethodNotFoundError(e)) throw new RpcCapabilityError('debug_traceBlockByNumber', this.provider.connection.url, e);
+            throw new RpcError(`Could not trace block ${blockNumber}.`, e);
+        }
+        const address = this.contractAddress.toLowerCase();
+        const blockWrites = traces.map(({ txHash, result }, txIndex) => {
+            if (!result?.pre || !result?.post) {
+                // nodes without the diff mode of the prestateTracer only return the prestate
+                throw new RpcCapabilityError('the diff mode of the prestateTracer', this.provider.connection.url);
+            }
+            const preStorage = result.pre[address]?.storage ?? {};
+            const postStorage = result.post[address]?.storage ?? {};
+            const writes: { [ key: string ]: string } = {};
+            // cleared slots are left out of the poststate
+            Object.keys(preStorage).forEach((key) => { writes[key] = ZERO_STORAGE_VALUE; });
+            Object.entries(postStorage).forEach(([key, value]) => { writes[key] = value; });
+            if (Object.keys(writes).length > 0) logger.debug(`tx ${txHash ?? txIndex} in block ${blockNumber}: `, writes);
+            return { txHash, txIndex, storage: writes };
+        }).filter(({ storage }) => Object.keys(storage).length > 0);
+        if (blockWrites.length === 0) return [];
+
+        // Geth before 1.11 leaves out the hashes of the txs
+        let txHashes: Array<string> = [];
+        if (blockWrites.some(({ txHash }) => txHash === undefined)) {
+            try {
+                txHashes = (await this.provider.send('eth_getBlockByNumber', [toParityQuantity(blockNumber), false])).transactions;
+            } catch (e) {
+                throw new RpcError(`Could not get the txs of block ${blockNumber}.`, e);
             }
-        } catch (err) {
-            logger.error(err);
         }
-        return undefined;
+        return blockWrites.map(({ txHash, txIndex, storage }) => ({
+            txHash: txHash ?? txHashes[txIndex], blockNumber, txIndex, storage,
+        }));
     }
 
     async getTransactions(latest_block_number: number | string, earliest_block_number?: number | string): Promise<Array<string>> {
         logger.debug('Called getTransactions');
+        const relatedTxs = await this.filterTraces(latest_block_number, earliest_block_number);
+        return [...new Set<string>(relatedTxs.map(({ transactionHash }) => transactionHash))];
+    }
+
+    /**
+     * Like `getTransactions`, but with the block and index of every tx
+     * @returns the txs to the contract ordered by block and index
+     */
+    async getTransactionPositions(latest_block_number: number | string, earliest_block_number?: number | string): Promise<Array<TxPosition>> {
+        const positions = new Map<string, TxPosition>();
+        (await this.filterTraces(latest_block_number, earliest_block_number)).forEach(({ transactionHash, blockNumber, transactionPosition }) => {
+            positions.set(transactionHash, { txHash: transactionHash, blockNumber, txIndex: transactionPosition });
+        });
+        return [...positions.values()].sort((a, b) => a.blockNumber - b.blockNumber || a.txIndex - b.txIndex);
+    }
+
+    /**
+     * @returns the traces of all calls to the contract between both blocks, gathered with `trace_filter`
+     */
+    private async filterTraces(latest_block_number: number | string, earliest_block_number?: number | string): Promise<Array<{ transactionHash: string, blockNumber: number, transactionPosition: number }>> {
         let latest = latest_block_number;
         if (typeof (latest) === 'string') latest = await toBlockNumber(latest, this.provider);
 
@@ -120,15 +299,21 @@ class TransactionHandler {
 
         // gather all transactions
         logger.info(`Getting all txs related to ${this.contractAddress} from ${latest - earliest + 1} blocks...`);
-        const relatedTxs = await this.provider.send('trace_filter', [{ fromBlock: toParityQuantity(earliest), toBlock: toParityQuantity(latest), toAddress: [this.contractAddress] }]);
+        let relatedTxs;
+        try {
+            relatedTxs = await this.provider.send('trace_filter', [{ fromBlock: toParityQuantity(earliest), toBlock: toParityQuantity(latest), toAddress: [this.contractAddress] }]);
+        } catch (e) {
+            if (isMethodNotFoundError(e)) throw new RpcCapabilityError('trace_filter', this.provider.connection.url, e);
+            throw new RpcError('Could not get relatedTxs through trace_filter.', e);
+        }
         if (relatedTxs === null) {
-            logger.error('Could not get relatedTxs through trace_filter. Most likely the used node was not started with --tracing on');
-            throw new Error();
+            // most likely the used node was not started with --tracing on
+            throw new RpcCapabilityError('trace_filter', this.provider.connection.url);
         }
         logger.debug(`Got ${relatedTxs.length} related txs.`);
         logger.info('Done.');
 
-        return [...new Set<string>(relatedTxs.map(({ transactionHash }) => transactionHash))];
+        return relatedTxs;
     }
 }
 
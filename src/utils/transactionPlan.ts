@@ -0,0 +1,128 @@
+import { TransactionRequest } from '@ethersproject/abstract-provider';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import {
+    BigNumber, BigNumberish, BytesLike, ethers,
+} from 'ethers';
+import { logger } from './logger';
+
+const TX_BASE_GAS = 21000;
+const TX_CREATE_GAS = 32000;
+const CALLDATA_ZERO_BYTE_GAS = 4;
+const CALLDATA_NON_ZERO_BYTE_GAS = 16;
+
+export type GasSource = 'eth_estimateGas' | 'heuristic';
+
+export type PlannedTransaction = {
+    description: string;
+    /**
+     * address or label of the called contract, undefined for contract deployments
+     */
+    to?: string;
+    calldataSize: number;
+    gas: BigNumber;
+    gasSource: GasSource;
+};
+
+/**
+ * @param data calldata of a tx as hex string
+ * @param isDeployment whether or not the tx deploys a contract
+ * @returns the gas a tx with the given calldata costs at least
+ */
+export function intrinsicGas(data: string, isDeployment: boolean = false): BigNumber {
+    const bytes = ethers.utils.arrayify(data);
+    let gas = TX_BASE_GAS + (isDeployment ? TX_CREATE_GAS : 0);
+    bytes.forEach((byte) => {
+        gas += byte === 0 ? CALLDATA_ZERO_BYTE_GAS : CALLDATA_NON_ZERO_BYTE_GAS;
+    });
+    return BigNumber.from(gas);
+}
+
+/**
+ * Collects the txs a command would send to the target chain together with their estimated gas, without signing anything.
+ */
+class TransactionPlan {
+    readonly transactions: Array<PlannedTransaction> = [];
+
+    private provider: JsonRpcProvider;
+
+    private from: string;
+
+    /**
+     * @param provider provider of the chain the txs would be sent to
+     * @param from address of the account that would send the txs
+     */
+    constructor(provider: JsonRpcProvider, from: string) {
+        this.provider = provider;
+        this.from = from;
+    }
+
+    /**
+     * Adds a tx to the plan. Its gas is estimated through `eth_estimateGas`. If the estimation is not possible
+     * (e.g. because the called contract is not deployed yet), the given heuristic is used instead.
+     * @param description what the tx does
+     * @param tx the unsigned tx
+     * @param heuristicGas additional gas on top of the intrinsic gas of the tx that is used if the estimation fails
+     */
+    async add(description: string, tx: TransactionRequest, heuristicGas: BigNumberish = 0) {
+        const data = ethers.utils.hexlify(tx.data ?? '0x');
+        let gas: BigNumber;
+        let gasSource: GasSource = 'eth_estimateGas';
+        try {
+            gas = await this.provider.estimateGas({ ...tx, from: this.from });
+        } catch (e) {
+            logger.debug(`Could not estimate gas for '${description}', using heuristic instead.`);
+            logger.trace(e);
+            gas = intrinsicGas(data, tx.to === undefined).add(heuristicGas);
+            gasSource = 'heuristic';
+        }
+        this.transactions.push({
+            description,
+            to: tx.to,
+            calldataSize: ethers.utils.hexDataLength(data),
+            gas,
+            gasSource,
+        });
+    }
+
+    /**
+     * Adds a tx to the plan whose gas cannot be estimated, e.g. because it calls a contract that is deployed by an earlier tx of the plan.
+     * @param description what the tx does
+     * @param to label of the called contract
+     * @param data calldata of the tx
+     * @param heuristicGas additional gas on top of the intrinsic gas of the tx
+     */
+    addHeuristic(description: string, to: string, data: BytesLike, heuristicGas: BigNumberish = 0) {
+        const hexData = ethers.utils.hexlify(data);
+        this.transactions.push({
+            description,
+            to,
+            calldataSize: ethers.utils.hexDataLength(hexData),
+            gas: intrinsicGas(hexData).add(heuristicGas),
+            gasSource: 'heuristic',
+        });
+    }
+
+    totalGas(): BigNumber {
+        return this.transactions.reduce((sum, tx) => sum.add(tx.gas), BigNumber.from(0));
+    }
+
+    /**
+     * @param gasPrice price per gas, the current gas price of the chain is used by default
+     * @returns the cost of all txs in wei
+     */
+    async totalCost(gasPrice?: BigNumber): Promise<BigNumber> {
+        return this.totalGas().mul(gasPrice ?? await this.provider.getGasPrice());
+    }
+
+    /**
+     * Logs the plan and its total cost
+     */
+    async print(gasPrice?: BigNumber) {
+        const price = gasPrice ?? await this.provider.getGasPrice();
+        const lines = this.transactions.map((tx, i) => `${i}\t${tx.description}\t${tx.to ?? '(deployment)'}\t${tx.calldataSize} bytes\t${tx.gas.toString()} gas (${tx.gasSource})`);
+        logger.info(`Transaction plan (dry run, nothing was signed):\n#\tdescription\tto\tcalldata\tgas\n${lines.join('\n')}`);
+        logger.info(`Total: ${this.transactions.length} txs, ${this.totalGas().toString()} gas, ${ethers.utils.formatEther(await this.totalCost(price))} ETH at ${ethers.utils.formatUnits(price, 'gwei')} gwei`);
+    }
+}
+
+export default TransactionPlan;
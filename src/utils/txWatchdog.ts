@@ -0,0 +1,232 @@
+import { TransactionReceipt, TransactionRequest, TransactionResponse } from '@ethersproject/abstract-provider';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber, ethers, Signer } from 'ethers';
+import { logger } from './logger';
+import { FeeConfig } from './feeStrategy';
+import { InvalidStateError, StuckTxError } from '../errors';
+
+/**
+ * Time in ms after which a tx that was not mined is considered stuck
+ */
+export const DEFAULT_STUCK_TX_TIMEOUT = 180000;
+
+/**
+ * Percentage the fees of a stuck tx are raised by, most nodes require at least 10% to accept a replacement
+ */
+const DEFAULT_FEE_BUMP_PERCENT = 15;
+
+const DEFAULT_MAX_FEE_BUMPS = 5;
+
+/**
+ * Amount of stuck timeouts that a tx whose fees cannot be raised any further is waited for before giving up,
+ * every attempt to send a dropped tx again counts as well
+ */
+const MAX_WAITS_WITHOUT_BUMP = 3;
+
+export type TxReplacement = {
+    description: string;
+    nonce: number;
+    /**
+     * hash of the new tx
+     */
+    txHash: string;
+    /**
+     * hashes of the txs with the same nonce that were sent before, the original tx first
+     */
+    replacedTxs: Array<string>;
+};
+
+export type WatchedReceipt = TransactionReceipt & {
+    /**
+     * hashes of the txs with the same nonce that were sent before the mined one, empty if the original tx was mined
+     */
+    replacedTxs: Array<string>;
+};
+
+/**
+ * @returns a request that sends the same tx again
+ */
+function toRequest(tx: TransactionResponse): TransactionRequest {
+    const request: TransactionRequest = {
+        to: tx.to ?? undefined,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit,
+        nonce: tx.nonce,
+        chainId: tx.chainId,
+    };
+    if (tx.type === 2) {
+        return {
+            ...request, type: 2, maxFeePerGas: tx.maxFeePerGas, maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+        };
+    }
+    return { ...request, gasPrice: tx.gasPrice };
+}
+
+/**
+ * Waits for txs on the target chain. A tx that is not mined within the stuck timeout is replaced by a tx with the same nonce and raised fees,
+ * at most `maxFeeBumps` times and never above `maxGasPrice`. A tx that was dropped by the node is sent again.
+ * Once the fees cannot be raised any further, the tx is waited for `MAX_WAITS_WITHOUT_BUMP` more stuck timeouts, less the times it was sent again.
+ */
+class TxWatchdog {
+    private signer: Signer;
+
+    private provider: JsonRpcProvider;
+
+    private stuckTimeout: number;
+
+    private bumpPercent: number;
+
+    private maxBumps: number;
+
+    private maxGasPrice?: BigNumber;
+
+    private onReplaced?: (replacement: TxReplacement) => void;
+
+    /**
+     * @param signer signer of the watched txs, used to send replacements
+     * @param provider provider of the chain the txs are sent to
+     * @param stuckTimeout time in ms after which a tx that was not mined is replaced
+     * @param fees fee configuration of the target chain, `feeBumpPercent`, `maxFeeBumps` and `maxGasPrice` are used
+     * @param onReplaced called for every replacement
+     */
+    constructor(signer: Signer, provider: JsonRpcProvider, stuckTimeout: number = DEFAULT_STUCK_TX_TIMEOUT, fees: FeeConfig = {}, onReplaced?: (replacement: TxReplacement) => void) {
+        this.signer = signer;
+        this.provider = provider;
+        this.stuckTimeout = stuckTimeout;
+        this.bumpPercent = fees.feeBumpPercent ?? DEFAULT_FEE_BUMP_PERCENT;
+        this.maxBumps = fees.maxFeeBumps ?? DEFAULT_MAX_FEE_BUMPS;
+        this.maxGasPrice = fees.maxGasPrice !== undefined ? BigNumber.from(fees.maxGasPrice) : undefined;
+        this.onReplaced = onReplaced;
+    }
+
+    /**
+     * @param tx sent tx
+     * @param description name of the tx in logs
+     * @returns the receipt of `tx` or of the replacement that was mined
+     * @throws like `TransactionResponse.wait` if the mined tx reverted
+     * @throws StuckTxError if no tx was mined within `MAX_WAITS_WITHOUT_BUMP` stuck timeouts and resends after the fees could not be raised any further
+     */
+    async wait(tx: TransactionResponse, description: string): Promise<WatchedReceipt> {
+        const sent: Array<TransactionResponse> = [tx];
+        let request = toRequest(tx);
+        let waitsWithoutBump = 0;
+        for (;;) {
+            // eslint-disable-next-line no-await-in-loop
+            let receipt = await this.minedReceipt(sent, this.stuckTimeout);
+            if (!receipt) {
+                // eslint-disable-next-line no-await-in-loop
+                const minedNonce = await this.provider.getTransactionCount(tx.from, 'latest');
+                if (minedNonce > tx.nonce) {
+                    // the nonce might have been mined right after the last check
+                    // eslint-disable-next-line no-await-in-loop
+                    receipt = await this.minedReceipt(sent, 0);
+                    if (!receipt) {
+                        throw new InvalidStateError(`Nonce ${tx.nonce} of ${description} was used by another tx than ${sent.map((t) => t.hash).join(', ')}.`);
+                    }
+                }
+            }
+            if (receipt) {
+                const mined = sent.find((t) => t.hash === receipt?.transactionHash) as TransactionResponse;
+                if (receipt.status === 0) {
+                    throw ethers.logger.makeError('transaction failed', ethers.errors.CALL_EXCEPTION, {
+                        transactionHash: mined.hash, transaction: mined, receipt,
+                    });
+                }
+                return Object.assign(receipt, { replacedTxs: sent.filter((t) => t !== mined).map((t) => t.hash) });
+            }
+
+            const latest = sent[sent.length - 1];
+            // eslint-disable-next-line no-await-in-loop
+            if (!await this.provider.getTransaction(latest.hash)) {
+                waitsWithoutBump += 1;
+                if (waitsWithoutBump >= MAX_WAITS_WITHOUT_BUMP) {
+                    throw new StuckTxError(`${description} tx ${latest.hash} with nonce ${tx.nonce} was dropped by the target chain and could not be sent again, it might still be mined later.`);
+                }
+                logger.warn(`${description} tx ${latest.hash} with nonce ${tx.nonce} was dropped by the target chain, resending it.`);
+                try {
+                    // eslint-disable-next-line no-await-in-loop
+                    const resent = await this.signer.sendTransaction(request);
+                    // a signer that signs deterministically sends the same tx again
+                    if (!sent.some((t) => t.hash === resent.hash)) sent.push(resent);
+                } catch (e) {
+                    logger.warn(`Could not resend ${description} tx with nonce ${tx.nonce}: ${e instanceof Error ? e.message : e}`);
+                }
+                // eslint-disable-next-line no-continue
+                continue;
+            }
+            const bumped = sent.length <= this.maxBumps ? this.bump(request) : undefined;
+            if (!bumped) {
+                waitsWithoutBump += 1;
+                if (waitsWithoutBump >= MAX_WAITS_WITHOUT_BUMP) {
+                    throw new StuckTxError(`${description} tx ${latest.hash} with nonce ${tx.nonce} was not mined within ${(waitsWithoutBump * this.stuckTimeout) / 1000}s after its fees reached their limit, it might still be mined later.`);
+                }
+                logger.warn(`${description} tx ${latest.hash} with nonce ${tx.nonce} is still not mined, its fees cannot be raised any further.`);
+                // eslint-disable-next-line no-continue
+                continue;
+            }
+            try {
+                // eslint-disable-next-line no-await-in-loop
+                const replacement = await this.signer.sendTransaction(bumped);
+                const replacedTxs = sent.map((t) => t.hash);
+                sent.push(replacement);
+                request = bumped;
+                logger.warn(`${description} tx ${latest.hash} with nonce ${tx.nonce} was not mined within ${this.stuckTimeout / 1000}s, replaced it by ${replacement.hash} (${TxWatchdog.formatFees(bumped)}).`);
+                this.onReplaced?.({
+                    description, nonce: tx.nonce, txHash: replacement.hash, replacedTxs,
+                });
+            } catch (e) {
+                // e.g. the tx was mined in the meantime
+                logger.debug(`Could not replace tx with nonce ${tx.nonce}: ${e instanceof Error ? e.message : e}`);
+            }
+        }
+    }
+
+    /**
+     * Polls the receipts of the given txs until one of them was mined or the timeout passed.
+     */
+    private async minedReceipt(txs: Array<TransactionResponse>, timeout: number): Promise<TransactionReceipt | undefined> {
+        const deadline = Date.now() + timeout;
+        for (;;) {
+            // eslint-disable-next-line no-await-in-loop
+            const receipts = await Promise.all(txs.map((t) => this.provider.getTransactionReceipt(t.hash)));
+            const receipt = receipts.find((r) => r && r.blockNumber);
+            if (receipt) return receipt;
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) return undefined;
+            // eslint-disable-next-line no-await-in-loop
+            await new Promise((resolve) => { setTimeout(resolve, Math.min(this.provider.pollingInterval, remaining)); });
+        }
+    }
+
+    /**
+     * @returns `request` with raised fees, undefined if the fees already reached `maxGasPrice`
+     */
+    private bump(request: TransactionRequest): TransactionRequest | undefined {
+        const raise = (fee: BigNumber) => fee.mul(100 + this.bumpPercent).div(100);
+        const cap = (fee: BigNumber) => (this.maxGasPrice && fee.gt(this.maxGasPrice) ? this.maxGasPrice : fee);
+        if (request.type === 2) {
+            const maxFeePerGas = BigNumber.from(request.maxFeePerGas);
+            if (this.maxGasPrice && maxFeePerGas.gte(this.maxGasPrice)) return undefined;
+            const bumpedMaxFee = cap(raise(maxFeePerGas));
+            const bumpedPriorityFee = raise(BigNumber.from(request.maxPriorityFeePerGas));
+            return {
+                ...request,
+                maxFeePerGas: bumpedMaxFee,
+                maxPriorityFeePerGas: bumpedPriorityFee.gt(bumpedMaxFee) ? bumpedMaxFee : bumpedPriorityFee,
+            };
+        }
+        const gasPrice = BigNumber.from(request.gasPrice);
+        if (this.maxGasPrice && gasPrice.gte(this.maxGasPrice)) return undefined;
+        return { ...request, gasPrice: cap(raise(gasPrice)) };
+    }
+
+    private static formatFees(request: TransactionRequest): string {
+        if (request.type === 2) {
+            return `max fee ${ethers.utils.formatUnits(request.maxFeePerGas ?? 0, 'gwei')} gwei, priority fee ${ethers.utils.formatUnits(request.maxPriorityFeePerGas ?? 0, 'gwei')} gwei`;
+        }
+        return `gas price ${ethers.utils.formatUnits(request.gasPrice ?? 0, 'gwei')} gwei`;
+    }
+}
+
+export default TxWatchdog;
@@ -0,0 +1,41 @@
+import { EventEmitter } from 'events';
+
+export type ProgressTask = 'replayTransactions' | 'replayBlocks' | 'traceBlocks' | 'fetchStorageValues' | 'addStorage' | 'addBlockHeader';
+
+export type ProgressEvent = {
+    task: ProgressTask;
+    done: number;
+    total: number;
+};
+
+/**
+ * Wraps an `EventEmitter` so that event names and payloads are checked against `Events`.
+ * Listeners are called synchronously, an error thrown by a listener is thrown by `emit`.
+ */
+class TypedEventEmitter<Events extends object> {
+    private readonly emitter = new EventEmitter();
+
+    on<E extends keyof Events & string>(event: E, listener: (payload: Events[E]) => void): this {
+        this.emitter.on(event, listener);
+        return this;
+    }
+
+    once<E extends keyof Events & string>(event: E, listener: (payload: Events[E]) => void): this {
+        this.emitter.once(event, listener);
+        return this;
+    }
+
+    off<E extends keyof Events & string>(event: E, listener: (payload: Events[E]) => void): this {
+        this.emitter.off(event, listener);
+        return this;
+    }
+
+    /**
+     * @returns bool indicating if the event had listeners
+     */
+    emit<E extends keyof Events & string>(event: E, payload: Events[E]): boolean {
+        return this.emitter.emit(event, payload);
+    }
+}
+
+export default TypedEventEmitter;
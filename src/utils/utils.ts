@@ -2,9 +2,11 @@ import { BigNumberish, ethers } from 'ethers';
 import * as rlp from 'rlp';
 import { JsonRpcProvider } from '@ethersproject/providers';
 import { Input } from 'rlp';
-import { logger } from './logger';
+import { ConfigError } from '../errors';
+import { detectKeyEnumerator } from '../keyEnumerator/KeyEnumeratorFactory';
+import { KeyEnumerator } from '../keyEnumerator/Types';
 
-export const BLOCKNUMBER_TAGS = ['latest', 'earliest', 'pending'];
+export const BLOCKNUMBER_TAGS = ['latest', 'earliest', 'pending', 'finalized', 'safe'];
 export const DEBUG_TAGS = ['silly', 'trace', 'debug'];
 
 export namespace EVMOpcodes {
@@ -44,12 +46,29 @@ export async function toBlockNumber(val: BigNumberish, provider: JsonRpcProvider
     try {
         return ethers.BigNumber.from(val).toNumber();
     } catch (e) {
-        logger.error(`Given val (${val}) is not a valid block identifier.`);
-        logger.error(e);
-        throw new Error();
+        throw new ConfigError(`Given val (${val}) is not a valid block identifier.`, e);
     }
 }
 
+/**
+ * Maps `items` with `fn`, at most `concurrency` calls of `fn` run at once.
+ * @returns the results in the order of `items`
+ */
+export async function mapConcurrently<T, R>(items: Array<T>, concurrency: number, fn: (item: T) => Promise<R>): Promise<Array<R>> {
+    const results: Array<R> = new Array(items.length);
+    let next = 0;
+    const work = async () => {
+        while (next < items.length) {
+            const index = next;
+            next += 1;
+            // eslint-disable-next-line no-await-in-loop
+            results[index] = await fn(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, work));
+    return results;
+}
+
 export function encode(input: Input): Buffer {
     return (input === '0x0')
         ? rlp.encode(Buffer.alloc(0))
@@ -90,29 +109,12 @@ export async function findDeploymentBlock(contractAddress: string, provider: Jso
  * @param provider The provider to use when sending an RPC request
  * @param blockNum the block number to retrieve the storage keys from
  * @param batchSize how many keys to retrieve per request [parity_liststoragekeys](https://openethereum.github.io/JSONRPC-parity-module#parity_liststoragekeys)
+ * @param enumerator how the keys are listed, e.g. from a key index. The `KeyEnumerator` that the node supports if undefined
  * @returns all the storage keys of the contract with `address` at block `blockNum`
  */
-export async function getAllKeys(contractAddress: string, provider: JsonRpcProvider, blockNum: number | string = 'latest', batchSize: number = 50): Promise<string[]> {
-    const keys: Array<string> = [];
-    let batch: Array<string> = [];
-    let batchCounter = 1;
-    const blockNumParity = toParityQuantity(blockNum);
-    /* eslint-disable no-await-in-loop */
-    do {
-        const offset = (batchCounter > 1) ? keys[keys.length - 1] : null;
-
-        batch = await provider.send('parity_listStorageKeys', [
-            contractAddress, batchSize * batchCounter, offset, blockNumParity,
-        ]);
-        if (batch === null) {
-            logger.error(`Could not get keys for ${contractAddress}. Is it deployed at the node at ${provider.connection.url}?`);
-            throw new Error();
-        }
-        keys.push(...batch);
-        batchCounter += 1;
-    } while (batch.length >= batchSize);
-    /* eslint-enable no-await-in-loop */
-    return keys.map((key) => ethers.utils.hexZeroPad(key, 32));
+export async function getAllKeys(contractAddress: string, provider: JsonRpcProvider, blockNum: number | string = 'latest', batchSize: number = 50, enumerator?: KeyEnumerator): Promise<string[]> {
+    const keyEnumerator = enumerator ?? await detectKeyEnumerator(provider);
+    return keyEnumerator.listKeys(contractAddress, toParityQuantity(blockNum), batchSize);
 }
 
 export function hexToAscii(str1) {
@@ -164,14 +166,9 @@ export async function createDeployingByteCode(srcAddress: string, provider: Json
 export async function processPromiseBatches<T>(promises: Array<Promise<T>>, batch: number = 20): Promise<Array<T>> {
     let array: Array<T> = [];
     while (promises.length > 0) {
-        try {
-            // eslint-disable-next-line no-await-in-loop
-            const currBatch = await Promise.all(promises.splice(0, batch));
-            array = array.concat(currBatch);
-        } catch (e) {
-            logger.error(e);
-            process.exit(-1);
-        }
+        // eslint-disable-next-line no-await-in-loop
+        const currBatch = await Promise.all(promises.splice(0, batch));
+        array = array.concat(currBatch);
     }
     return array;
 }
@@ -1,3 +1,6 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { BigNumber, ethers } from 'ethers';
 import { expect } from 'chai';
 import { JsonRpcProvider } from '@ethersproject/providers';
@@ -21,7 +24,10 @@ import Change from '../src/diffHandler/Change';
 import Add from '../src/diffHandler/Add';
 import Remove from '../src/diffHandler/Remove';
 import FileHandler from '../src/utils/fileHandler';
-import { TxContractInteractionOptions } from '../src/cli/smart-sync';
+import { TxContractInteractionOptions } from '../src/cli/types';
+import MigrationJournal from '../src/utils/migrationJournal';
+import DeploymentManifest from '../src/utils/deploymentManifest';
+import { version as appVersion } from '../package.json';
 
 describe('Test CLI', async () => {
     let targetDeployer: SignerWithAddress;
@@ -155,6 +161,129 @@ describe('Test CLI', async () => {
         return expect(newLogicContractAddress.toLowerCase()).to.equal(logicContractAddress.toLowerCase());
     });
 
+    it('should plan fork without signing (dry run)', async () => {
+        logger.setSettings({ name: 'should plan fork without signing' });
+        await (await srcContract.insertMultiple([1, 2, 3], [4, 5, 6])).wait();
+
+        const forkCommand = buildCLICommand('f', srcContract.address, false, logger.settings.minLevel, '--dry-run');
+        logger.debug(`Executing:\n${forkCommand}`);
+
+        const output = execSync(forkCommand);
+        logger.debug(`\n${output}`);
+
+        // relay, addBlock, logic, proxy, addStorage and verifyMigrateContract
+        const matcher = output.toString().match(/Total: (\d+) txs, (\d+) gas/);
+        expect(matcher).to.not.be.null;
+        if (matcher === null) return false;
+        expect(parseInt(matcher[1], 10)).to.equal(6);
+        expect(parseInt(matcher[2], 10)).to.be.greaterThan(0);
+        expect(output.toString()).to.not.match(/Relay contract address/);
+        return expect(new FileHandler(`./${srcContract.address}.journal.json`, false).read()).to.be.undefined;
+    });
+
+    it('should resume fork from journal', async () => {
+        logger.setSettings({ name: 'should resume fork from journal' });
+
+        // journal of a fork that was interrupted right after the relay contract was known
+        const journalPath = path.join(os.tmpdir(), `${srcContract.address}.journal.json`);
+        const journal = MigrationJournal.create(journalPath, srcContract.address);
+        journal.update({ relayContract: relayContract.address });
+
+        const forkCommand = buildCLICommand('f', '', true, logger.settings.minLevel, `--resume ${journalPath}`);
+        logger.debug(`Executing:\n${forkCommand}`);
+
+        const output = execSync(forkCommand);
+        logger.debug(`\n${output}`);
+
+        const matcher = output.toString().match(/[\w\W]+Address of proxyContract: (0x[\w\d]{40})/);
+        expect(matcher).to.not.be.null;
+        if (matcher === null) return false;
+        const proxyContractAddress = matcher[1];
+
+        // the relay contract of the journal was reused
+        const migrated = await relayContract.getMigrationState(proxyContractAddress);
+        expect(migrated).to.be.true;
+
+        const resumedJournal = MigrationJournal.load(journalPath);
+        fs.unlinkSync(journalPath);
+        expect(resumedJournal?.data.completed).to.be.true;
+        expect(resumedJournal?.data.proxyContract).to.equal(proxyContractAddress);
+        return expect(resumedJournal?.data.lastConfirmedBatch).to.equal((resumedJournal?.data.batches.length ?? 0) - 1);
+    });
+
+    it('should write deployment manifest and use it instead of addresses', async () => {
+        logger.setSettings({ name: 'should write deployment manifest' });
+        await (await srcContract.insertMultiple([1, 2, 3], [4, 5, 6])).wait();
+
+        const manifestPath = path.join(os.tmpdir(), `${srcContract.address}.manifest.json`);
+        const forkCommand = buildCLICommand('f', `${srcContract.address} ${relayContract.address}`, true, logger.settings.minLevel, `--manifest ${manifestPath}`);
+        logger.debug(`Executing:\n${forkCommand}`);
+
+        const output = execSync(forkCommand);
+        logger.debug(`\n${output}`);
+
+        const matcher = output.toString().match(/[\w\W]+Address of proxyContract: (0x[\w\d]{40})/);
+        expect(matcher).to.not.be.null;
+        if (matcher === null) return false;
+
+        const manifest = DeploymentManifest.load(manifestPath);
+        expect(manifest).to.not.be.undefined;
+        if (!manifest) return false;
+        expect(manifest.data.proxyContract).to.equal(matcher[1]);
+        expect(manifest.data.relayContract).to.equal(relayContract.address);
+        expect(manifest.data.srcChain.contract).to.equal(srcContract.address);
+        expect(manifest.data.srcChain.chainId).to.equal((await srcProvider.getNetwork()).chainId);
+        expect(manifest.data.targetChain.chainId).to.equal((await targetProvider.getNetwork()).chainId);
+        expect(manifest.data.stateRoot).to.equal((await srcProvider.send('eth_getBlockByNumber', [ethers.utils.hexValue(manifest.data.srcBlock), false])).stateRoot);
+        expect(manifest.data.smartSyncVersion).to.equal(appVersion);
+        // an existing relay contract was given, so it was not deployed
+        expect(manifest.data.txHashes.relayContract).to.be.undefined;
+        expect(BigNumber.from(manifest.data.gasUsed.proxyContract).gt(0)).to.be.true;
+        expect(BigNumber.from(manifest.data.gasUsed.addStorage).gt(0)).to.be.true;
+
+        const blockNrCommand = buildCLICommand('blocknr', '', false, logger.settings.minLevel, `--manifest ${manifestPath}`);
+        logger.debug(`Executing:\n${blockNrCommand}`);
+        const blockNrOutput = execSync(blockNrCommand);
+        logger.debug(`\n${blockNrOutput}`);
+        fs.unlinkSync(manifestPath);
+        const blockNrMatcher = blockNrOutput.toString().match(/Current synched block number: (\d+)/);
+        expect(blockNrMatcher).to.not.be.null;
+        if (blockNrMatcher === null) return false;
+        return expect(parseInt(blockNrMatcher[1], 10)).to.equal(manifest.data.srcBlock);
+    });
+
+    it('should exit with the exit code of ConfigError when forking an address without code', async () => {
+        logger.setSettings({ name: 'should exit with the exit code of ConfigError' });
+
+        const forkCommand = buildCLICommand('f', srcDeployer.address, true, logger.settings.minLevel);
+        logger.debug(`Executing:\n${forkCommand}`);
+
+        let status: number | undefined;
+        try {
+            execSync(forkCommand, { stdio: 'pipe' });
+        } catch (e: any) {
+            logger.debug(`\n${e.stdout}`);
+            status = e.status;
+        }
+        return expect(status).to.equal(2);
+    });
+
+    it('should refuse a password given on the command line without --insecure-password', async () => {
+        logger.setSettings({ name: 'should refuse a password given on the command line' });
+
+        const forkCommand = `${TestCLI.tsNodeExec} ${TestCLI.cliExec} f ${srcContract.address} -c ${TestCLI.defaultTestConfigFile} -l ${logger.settings.minLevel} --target-account-encrypted-json ${TestCLI.targetAccountEncryptedJsonPath} --target-account-password ${TestCLI.targetAccountPassword}`;
+        logger.debug(`Executing:\n${forkCommand}`);
+
+        let status: number | undefined;
+        try {
+            execSync(forkCommand, { stdio: 'pipe' });
+        } catch (e: any) {
+            logger.debug(`\n${e.stdout}`);
+            status = e.status;
+        }
+        return expect(status).to.equal(2);
+    });
+
     it('should synch (diff mode = srcTx, changed values)', async () => {
         logger.setSettings({ name: 'should synch w/ srcTx, changed values' });
         const mapSize = 10;
@@ -185,6 +314,66 @@ describe('Test CLI', async () => {
         return expect(proxyStorageRoot).to.equal(srcStorageRoot);
     });
 
+    it('should plan synch without signing (dry run)', async () => {
+        logger.setSettings({ name: 'should plan synch without signing' });
+        const mapSize = 10;
+        let initialization: InitializationResult;
+
+        try {
+            initialization = await chainProxy.initializeProxyContract(mapSize, TestCLI.MAX_VALUE);
+            expect(initialization.migrationState).to.be.true;
+        } catch (e) {
+            logger.fatal(e);
+            return false;
+        }
+        const proxyStorageRootBefore = (await targetProvider.send('eth_getProof', [initialization.proxyContract.address, []])).storageHash.toLowerCase();
+
+        const changedValues = await chainProxy.changeValues(10, TestCLI.MAX_VALUE);
+        expect(changedValues).to.be.true;
+
+        const synchCommand = buildCLICommand('s', initialization.proxyContract.address, false, logger.settings.minLevel, '--dry-run');
+        logger.debug(`Executing:\n${synchCommand}`);
+
+        const output = execSync(synchCommand);
+        logger.debug(`\n${output}`);
+
+        expect(output.toString()).to.match(/updateStorage \(\d+ keys\)/);
+        const proxyStorageRoot = (await targetProvider.send('eth_getProof', [initialization.proxyContract.address, []])).storageHash.toLowerCase();
+        return expect(proxyStorageRoot).to.equal(proxyStorageRootBefore);
+    });
+
+    it('should synch in block batches (diff mode = srcTx, changed values)', async () => {
+        logger.setSettings({ name: 'should synch in block batches w/ srcTx, changed values' });
+        const mapSize = 10;
+        let initialization: InitializationResult;
+
+        try {
+            initialization = await chainProxy.initializeProxyContract(mapSize, TestCLI.MAX_VALUE);
+            expect(initialization.migrationState).to.be.true;
+        } catch (e) {
+            logger.fatal(e);
+            return false;
+        }
+
+        // every change is mined in its own block
+        for (let i = 0; i < 5; i += 1) {
+            const changedValues = await chainProxy.changeValues(i + 1, TestCLI.MAX_VALUE);
+            expect(changedValues).to.be.true;
+        }
+
+        const synchCommand = buildCLICommand('s', initialization.proxyContract.address, true, logger.settings.minLevel, '--block-batch-size 2');
+        logger.debug(`Executing:\n${synchCommand}`);
+
+        const output = execSync(synchCommand);
+        logger.debug(`\n${output}`);
+
+        const proxyProof = await targetProvider.send('eth_getProof', [initialization.proxyContract.address, []]);
+        const proxyStorageRoot = proxyProof.storageHash.toLowerCase();
+        const srcProof = await srcProvider.send('eth_getProof', [srcContract.address, []]);
+        const srcStorageRoot = srcProof.storageHash.toLowerCase();
+        return expect(proxyStorageRoot).to.equal(srcStorageRoot);
+    });
+
     it('should synch continuously (simple, diff mode = srcTx, changed values)', async () => {
         logger.setSettings({ name: 'should synch continuously w/ srcTx, changed values' });
         const mapSize = 10;
@@ -757,6 +946,26 @@ describe('Test CLI', async () => {
         return true;
     });
 
+    it('should print only the json report on stdout (diff mode = srcTx, --output json)', async () => {
+        logger.setSettings({ name: 'should print only the json report on stdout' });
+        const initialization = await chainProxy.initializeProxyContract(3, TestCLI.MAX_VALUE);
+        expect(initialization.migrationState).to.be.true;
+        const currBlockNr = await srcProvider.getBlockNumber();
+        const addedValue = await chainProxy.addValueAtIndex(4, TestCLI.MAX_VALUE);
+        expect(addedValue.success).to.be.true;
+
+        // info level so that the progress of the srcTx diff is logged as well
+        const diffCommand = buildCLICommand('diff', srcContract.address, false, 'info', `--src-blocknr ${currBlockNr + 1} --output json`);
+        logger.debug(`Executing:\n${diffCommand}`);
+        const stdout = execSync(diffCommand, { stdio: ['ignore', 'pipe', 'pipe'] }).toString();
+
+        const report = JSON.parse(stdout);
+        const realDiff = await differ.getDiffFromSrcContractTxs(srcContract.address, 'latest', currBlockNr + 1);
+        expect(report.srcContract).to.equal(srcContract.address);
+        expect(report.summary.adds).to.equal(realDiff.adds().length);
+        return expect(report.diffs.map((entry: { key: string }) => BigNumber.from(entry.key).toHexString())).to.have.members(realDiff.getKeys().map((key) => BigNumber.from(key).toHexString()));
+    });
+
     it('should get-diff (diff mode = srcTx, with deleted values but not changing merkle tree structure)', async () => {
         logger.setSettings({ name: 'should get-diff w/ srcTx, delete values' });
         const mapSize = 3;
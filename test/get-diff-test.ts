@@ -3,11 +3,45 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { JsonRpcProvider } from '@ethersproject/providers';
 import { BigNumber, ethers } from 'ethers';
 import DiffHandler from '../src/diffHandler/DiffHandler';
+import StorageDiff from '../src/diffHandler/StorageDiff';
+import { createDiffReport, DIFF_REPORT_VERSION, formatDiffReport } from '../src/diffHandler/DiffReport';
 import { SimpleStorage, SimpleStorage__factory } from '../src-gen/types';
 import { logger } from '../src/utils/logger';
-import { TxContractInteractionOptions } from '../src/cli/smart-sync';
+import { RpcCapabilityError } from '../src/errors';
+import { TxContractInteractionOptions } from '../src/cli/types';
 import FileHandler from '../src/utils/fileHandler';
 import { TestCLI } from './test-utils';
+import { PrestateDiff } from '../src/utils/transactionHandler';
+
+/**
+ * Answers debug_traceBlockByNumber like the prestateTracer in diff mode of Geth before 1.11, which leaves out the tx hashes.
+ * The traces are derived from the stateDiffs of trace_replayBlockTransactions, which the OpenEthereum test chains provide.
+ */
+function withStubbedPrestateTracer(provider: JsonRpcProvider): JsonRpcProvider {
+    const stub = Object.create(provider);
+    stub.send = async (method: string, params: Array<any>) => {
+        if (method !== 'debug_traceBlockByNumber') return provider.send(method, params);
+        const replays: Array<{ stateDiff: { [ address: string ]: { storage: { [ key: string ]: any } } } }> = await provider.send('trace_replayBlockTransactions', [params[0], ['stateDiff']]);
+        return replays.map(({ stateDiff }) => {
+            const result: PrestateDiff = { pre: {}, post: {} };
+            Object.entries(stateDiff).forEach(([address, { storage }]) => {
+                const pre: { [ key: string ]: string } = {};
+                const post: { [ key: string ]: string } = {};
+                Object.entries(storage).forEach(([key, keyObject]) => {
+                    const from = keyObject['*']?.from;
+                    const to = keyObject['*']?.to ?? keyObject['+'];
+                    // like Geth, zero values are neither part of the prestate nor of the poststate
+                    if (from !== undefined && !BigNumber.from(from).isZero()) pre[key] = from;
+                    if (to !== undefined && !BigNumber.from(to).isZero()) post[key] = to;
+                });
+                result.pre[address] = { storage: pre };
+                result.post[address] = { storage: post };
+            });
+            return { result };
+        });
+    };
+    return stub;
+}
 
 describe('Get contract storage diff', () => {
     let deployer: SignerWithAddress;
@@ -88,6 +122,24 @@ describe('Get contract storage diff', () => {
         expect(ethers.BigNumber.from(removes[0].key).eq(ethers.BigNumber.from(0))).to.be.true;
     });
 
+    it('Should get a single additional key in diff.getDiffFromSrcContractBlocks after setting a value', async () => {
+        let tx = await storageSrc.setA(1337);
+        let blockNum = tx.blockNumber ?? await provider.getBlockNumber();
+        let diff = await differ.getDiffFromSrcContractBlocks(storageSrc.address, blockNum, blockNum);
+        expect(diff.diffs.length).to.equal(1);
+        const adds = diff.adds();
+        expect(adds.length).to.equal(1);
+        expect(ethers.BigNumber.from(adds[0].key).eq(ethers.BigNumber.from(0))).to.be.true;
+
+        tx = await storageSrc.setA(0x0);
+        blockNum = tx.blockNumber ?? await provider.getBlockNumber();
+        diff = await differ.getDiffFromSrcContractBlocks(storageSrc.address, blockNum, blockNum);
+        expect(diff.diffs.length).to.equal(1);
+        const removes = diff.removes();
+        expect(removes.length).to.equal(1);
+        expect(ethers.BigNumber.from(removes[0].key).eq(ethers.BigNumber.from(0))).to.be.true;
+    });
+
     it('Should get a single changed key in diff.getDiffFromStorage after changing a value in the same contract', async () => {
     // set value at storage slot 0
         await storageSrc.setA(1337);
@@ -120,6 +172,19 @@ describe('Get contract storage diff', () => {
         expect(ethers.BigNumber.from(changed[0].key).eq(ethers.BigNumber.from(0))).to.be.true;
     });
 
+    it('Should get a single changed key in diff.getDiffFromSrcContractBlocks after changing a value in the same contract', async () => {
+        await storageSrc.setA(1337);
+        const tx = await storageSrc.setA(42);
+        const blockNum = tx.blockNumber ?? await provider.getBlockNumber();
+
+        const diff = await differ.getDiffFromSrcContractBlocks(storageSrc.address, 'latest', blockNum);
+        expect(diff.diffs.length).to.equal(1);
+        const changed = diff.changes();
+        expect(changed.length).to.equal(1);
+        expect(ethers.BigNumber.from(changed[0].key).eq(ethers.BigNumber.from(0))).to.be.true;
+        expect(ethers.BigNumber.from(changed[0].targetValue).eq(ethers.BigNumber.from(42))).to.be.true;
+    });
+
     it('Should get correct diff.getDiffFromStorage between different contracts', async () => {
         await storageSrc.setA(42);
         await storageTarget.setA(42);
@@ -162,4 +227,164 @@ describe('Get contract storage diff', () => {
         const changed = diff.changes();
         expect(changed.length).to.equal(5);
     });
+
+    it('Should get all new changes through getDiffFromSrcContractBlocks in block order', async () => {
+        const inserts: any = [];
+        for (let i = 0; i < 10; i += 1) {
+            inserts.push(storageSrc.insert(i, 20));
+        }
+        await Promise.all(inserts);
+        const currBlockNr = await provider.getBlockNumber() + 1;
+        const changes: any = [];
+        for (let i = 0; i < 5; i += 1) {
+            changes.push(storageSrc.insert(i, 30));
+        }
+        await Promise.all(changes);
+        // the later write to the same key wins
+        await (await storageSrc.insert(0, 40)).wait();
+
+        const diff = await differ.getDiffFromSrcContractBlocks(storageSrc.address, 'latest', currBlockNr);
+        expect(diff.diffs.length).to.equal(5);
+        const changed = diff.changes();
+        expect(changed.length).to.equal(5);
+        expect(changed.filter((change) => ethers.BigNumber.from(change.targetValue).eq(40)).length).to.equal(1);
+        const txDiff = await differ.getDiffFromSrcContractTxs(storageSrc.address, 'latest', currBlockNr);
+        return expect(changed.map((change) => [change.key, change.targetValue])).to.have.deep.members(txDiff.changes().map((change) => [change.key, change.targetValue]));
+    });
+
+    it('Should get the previous values and the tx of the last write in the srcTx diffs', async () => {
+        await (await storageSrc.setA(1337)).wait();
+        await (await storageSrc.insert(3, 30)).wait();
+        const blockNum = await provider.getBlockNumber() + 1;
+        await (await storageSrc.setA(7)).wait();
+        const lastChange = await (await storageSrc.setA(42)).wait();
+        const lastRemove = await (await storageSrc.insert(3, 0)).wait();
+
+        const txDiff = await differ.getDiffFromSrcContractTxs(storageSrc.address, 'latest', blockNum);
+        const blockDiff = await differ.getDiffFromSrcContractBlocks(storageSrc.address, 'latest', blockNum);
+        [txDiff, blockDiff].forEach((diff) => {
+            expect(diff.diffs.length).to.equal(2);
+            const [change] = diff.changes();
+            expect(BigNumber.from(change.srcValue).eq(1337)).to.be.true;
+            expect(BigNumber.from(change.targetValue).eq(42)).to.be.true;
+            expect(change.provenance).to.deep.equal({
+                blockNumber: lastChange.blockNumber, txHash: lastChange.transactionHash, txIndex: lastChange.transactionIndex, intermediateWrites: 1,
+            });
+            const [remove] = diff.removes();
+            expect(BigNumber.from(remove.value).eq(30)).to.be.true;
+            expect(remove.provenance).to.deep.equal({
+                blockNumber: lastRemove.blockNumber, txHash: lastRemove.transactionHash, txIndex: lastRemove.transactionIndex, intermediateWrites: 0,
+            });
+        });
+
+        const rows = formatDiffReport(createDiffReport(txDiff, storageSrc.address, 'srcTx'), 'csv').trim().split('\n').filter((line) => !line.startsWith('#'));
+        expect(rows[0]).to.equal('kind,key,previousValue,newValue,fromBlock,toBlock,blockNumber,txHash,txIndex,intermediateWrites');
+        return expect(rows.find((row) => row.startsWith('change'))?.endsWith(`,${lastChange.blockNumber},${lastChange.transactionHash},${lastChange.transactionIndex},1`)).to.be.true;
+    });
+
+    it('Should get the same diff through getDiffFromSrcContractPrestate as through getDiffFromSrcContractTxs', async () => {
+        const inserts: any = [];
+        for (let i = 0; i < 6; i += 1) {
+            inserts.push(storageSrc.insert(i, 20));
+        }
+        await Promise.all(inserts);
+        const currBlockNr = await provider.getBlockNumber() + 1;
+        await (await storageSrc.insert(0, 30)).wait();
+        await (await storageSrc.insert(1, 20)).wait();
+        await (await storageSrc.insert(6, 40)).wait();
+        await (await storageSrc.setA(1337)).wait();
+
+        const diff = await differ.getDiffFromSrcContractTxs(storageSrc.address, 'latest', currBlockNr);
+        let prestateDiff: StorageDiff | undefined;
+        try {
+            prestateDiff = await differ.getDiffFromSrcContractPrestate(storageSrc.address, 'latest', currBlockNr);
+        } catch (e) {
+            // the OpenEthereum test chains do not provide debug_traceBlockByNumber
+            return expect(e).to.be.instanceOf(RpcCapabilityError);
+        }
+        expect(prestateDiff.changes().length).to.equal(1);
+        expect(prestateDiff.adds().length).to.equal(2);
+        return expect(prestateDiff.diffs.map((keyDiff) => [keyDiff.kind(), keyDiff.key])).to.have.deep.members(diff.diffs.map((keyDiff) => [keyDiff.kind(), keyDiff.key]));
+    });
+
+    it('Should get the previous values and the tx of the last write from a stubbed prestateTracer without tx hashes', async () => {
+        await (await storageSrc.setA(1337)).wait();
+        await (await storageSrc.insert(3, 30)).wait();
+        const blockNum = await provider.getBlockNumber() + 1;
+        await (await storageSrc.setA(7)).wait();
+        const lastChange = await (await storageSrc.setA(42)).wait();
+        // the cleared slot is only part of the prestate
+        const lastRemove = await (await storageSrc.insert(3, 0)).wait();
+
+        const prestateDiff = await new DiffHandler(withStubbedPrestateTracer(provider)).getDiffFromSrcContractPrestate(storageSrc.address, 'latest', blockNum);
+        expect(prestateDiff.diffs.length).to.equal(2);
+        const [change] = prestateDiff.changes();
+        expect(BigNumber.from(change.srcValue).eq(1337)).to.be.true;
+        // the value of the poststate wins over the one of the prestate
+        expect(BigNumber.from(change.targetValue).eq(42)).to.be.true;
+        // the tx hashes are taken from eth_getBlockByNumber
+        expect(change.provenance).to.deep.equal({
+            blockNumber: lastChange.blockNumber, txHash: lastChange.transactionHash, txIndex: lastChange.transactionIndex, intermediateWrites: 1,
+        });
+        const [remove] = prestateDiff.removes();
+        expect(BigNumber.from(remove.value).eq(30)).to.be.true;
+        expect(remove.provenance).to.deep.equal({
+            blockNumber: lastRemove.blockNumber, txHash: lastRemove.transactionHash, txIndex: lastRemove.transactionIndex, intermediateWrites: 0,
+        });
+        const blockDiff = await differ.getDiffFromSrcContractBlocks(storageSrc.address, 'latest', blockNum);
+        return expect(prestateDiff.diffs.map((keyDiff) => [keyDiff.kind(), keyDiff.key])).to.have.deep.members(blockDiff.diffs.map((keyDiff) => [keyDiff.kind(), keyDiff.key]));
+    });
+
+    it('Should get the same diff.getDiffFromStorage when the values are fetched in several batches', async () => {
+        const inserts: any = [];
+        for (let i = 0; i < 12; i += 1) {
+            inserts.push(storageSrc.insert(i, 20 + i));
+        }
+        await Promise.all(inserts);
+        await (await storageTarget.insert(0, 20)).wait();
+        await (await storageTarget.insert(1, 99)).wait();
+        await (await storageTarget.insert(100, 1)).wait();
+        const batchedDiffer = new DiffHandler(provider, provider, 5, undefined, undefined, 2);
+
+        const diff = await batchedDiffer.getDiffFromStorage(storageSrc.address, storageTarget.address, 'latest', 'latest');
+
+        // key 0 is equal, key 1 changed, keys 2 to 11 are only in the source and key 100 only in the target
+        expect(diff.changes().length).to.equal(1);
+        expect(ethers.BigNumber.from(diff.changes()[0].srcValue).eq(21)).to.be.true;
+        expect(ethers.BigNumber.from(diff.changes()[0].targetValue).eq(99)).to.be.true;
+        expect(diff.removes().length).to.equal(10);
+        expect(diff.adds().length).to.equal(1);
+        return expect(diff.diffs.map((keyDiff) => keyDiff.key)).to.deep.equal((await differ.getDiffFromStorage(storageSrc.address, storageTarget.address, 'latest', 'latest')).diffs.map((keyDiff) => keyDiff.key));
+    });
+
+    it('Should serialize the diff.getDiffFromStorage with its block range as json, ndjson and csv', async () => {
+        await (await storageSrc.setA(1337)).wait();
+        await (await storageTarget.setA(42)).wait();
+        await (await storageTarget.insert(100, 1)).wait();
+        const diff = await differ.getDiffFromStorage(storageSrc.address, storageTarget.address, 'latest', 'latest');
+        const blockNum = await provider.getBlockNumber();
+
+        const report = createDiffReport(diff, storageSrc.address, 'storage', storageTarget.address);
+        expect(report.version).to.equal(DIFF_REPORT_VERSION);
+        expect(report.fromBlock).to.equal(blockNum);
+        expect(report.toBlock).to.equal(blockNum);
+        expect(report.summary).to.deep.equal({
+            adds: diff.adds().length, changes: 1, removes: diff.removes().length, total: diff.diffs.length,
+        });
+        const change = report.diffs.find((entry) => entry.kind === 'change');
+        expect(change?.key).to.equal(ethers.utils.hexZeroPad('0x0', 32));
+        expect(BigNumber.from(change?.previousValue).eq(1337)).to.be.true;
+        expect(BigNumber.from(change?.newValue).eq(42)).to.be.true;
+
+        expect(JSON.parse(formatDiffReport(report, 'json'))).to.deep.equal(JSON.parse(JSON.stringify(report)));
+
+        const lines = formatDiffReport(report, 'ndjson').trim().split('\n').map((line) => JSON.parse(line));
+        expect(lines.length).to.equal(report.diffs.length + 2);
+        expect(lines[0].type).to.equal('meta');
+        expect(lines[lines.length - 1]).to.deep.equal({ type: 'summary', ...report.summary });
+
+        const rows = formatDiffReport(report, 'csv').trim().split('\n').filter((line) => !line.startsWith('#'));
+        expect(rows[0]).to.equal('kind,key,previousValue,newValue,fromBlock,toBlock');
+        return expect(rows.slice(1)).to.include(`change,${change?.key},${change?.previousValue},${change?.newValue},${blockNum},${blockNum}`);
+    });
 });
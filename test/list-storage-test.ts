@@ -1,4 +1,9 @@
 import { expect } from 'chai';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { JsonRpcProvider } from '@ethersproject/providers';
 import { BigNumber, ethers } from 'ethers';
@@ -6,8 +11,47 @@ import { SimpleStorage, SimpleStorage__factory } from '../src-gen/types';
 import { verifyEthGetProof, TestCLI } from './test-utils';
 import GetProof from '../src/proofHandler/GetProof';
 import FileHandler from '../src/utils/fileHandler';
-import { TxContractInteractionOptions } from '../src/cli/smart-sync';
+import { TxContractInteractionOptions } from '../src/cli/types';
 import { logger } from '../src/utils/logger';
+import { getAllKeys } from '../src/utils/utils';
+import { detectKeyEnumerator } from '../src/keyEnumerator/KeyEnumeratorFactory';
+import KeyIndex from '../src/keyEnumerator/KeyIndex';
+import KeyIndexEnumerator from '../src/keyEnumerator/KeyIndexEnumerator';
+import StorageRangeKeyEnumerator from '../src/keyEnumerator/StorageRangeKeyEnumerator';
+import { RpcCapabilityError, RpcError } from '../src/errors';
+
+type StubHandlers = { [ method: string ]: (params: Array<any>) => any };
+
+/**
+ * Stand-in for a node: answers the methods of `handlers` with their result and every other method as unknown
+ */
+function startStubNode(handlers: StubHandlers): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+            const { id, method, params } = JSON.parse(body);
+            const handler = handlers[method];
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(handler
+                ? { jsonrpc: '2.0', id, result: handler(params) }
+                : { jsonrpc: '2.0', id, error: { code: -32601, message: `the method ${method} does not exist/is not available` } }));
+        });
+    });
+    return new Promise((resolve) => { server.listen(0, '127.0.0.1', () => resolve(server)); });
+}
+
+function stubProvider(server: http.Server): JsonRpcProvider {
+    const provider = new ethers.providers.JsonRpcProvider(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, { chainId: 1337, name: 'stub' });
+    provider.pollingInterval = 10;
+    return provider;
+}
+
+function stubBlock(blockNumber: number, transactions: Array<string> = [], parentHash: string = ethers.utils.id(`block ${blockNumber - 1}`)) {
+    return {
+        number: ethers.utils.hexValue(blockNumber), hash: ethers.utils.id(`block ${blockNumber}`), parentHash, transactions,
+    };
+}
 
 describe('Storage', async () => {
     let deployer: SignerWithAddress;
@@ -72,6 +116,54 @@ describe('Storage', async () => {
         expect(ethers.BigNumber.from(storedValue).toNumber()).to.equal(value);
     });
 
+    it('Should list the same keys through the detected key enumerator', async () => {
+        const enumerator = await detectKeyEnumerator(provider);
+        // the test chains run OpenEthereum
+        expect(enumerator.name).to.equal('parity');
+        const keys = await provider.send('parity_listStorageKeys', [
+            storage.address, 5, null,
+        ]);
+        return expect(await getAllKeys(storage.address, provider, 'latest', 2)).to.deep.equal(keys.map((key) => ethers.utils.hexZeroPad(key, 32)));
+    });
+
+    it('Should list the same keys from a key index that was built from the traces', async () => {
+        const indexPath = path.join(os.tmpdir(), `${storage.address}.keys.json`);
+        try {
+            // without confirmations every block is final
+            const keyIndex = new KeyIndexEnumerator(provider, KeyIndex.open(indexPath, storage.address), 1, 0);
+            expect(await getAllKeys(storage.address, provider, 'latest', 2, keyIndex)).to.have.members(await getAllKeys(storage.address, provider));
+            expect(keyIndex.index.data.indexedBlock).to.equal(await provider.getBlockNumber());
+
+            // the cleared key stays in the index, but is not listed anymore
+            await (await storage.setA(0)).wait();
+            const keys = await getAllKeys(storage.address, provider, 'latest', 2, keyIndex);
+            expect(KeyIndex.open(indexPath, storage.address).data.keys.length).to.equal(keys.length + 1);
+            return expect(keys).to.have.members(await getAllKeys(storage.address, provider));
+        } finally {
+            if (fs.existsSync(indexPath)) fs.unlinkSync(indexPath);
+        }
+    });
+
+    it('Should only record the final blocks in the key index and trace the newer blocks whenever the keys are listed', async () => {
+        const indexPath = path.join(os.tmpdir(), `${storage.address}.keys.json`);
+        try {
+            const keyIndex = new KeyIndexEnumerator(provider, KeyIndex.open(indexPath, storage.address), 1, 2);
+            await getAllKeys(storage.address, provider, 'latest', 2, keyIndex);
+            expect(keyIndex.index.data.indexedBlock).to.equal(await provider.getBlockNumber() - 2);
+
+            await (await storage.insert(7, 70)).wait();
+            const newKey = ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['uint256', 'uint256'], [7, 4]));
+            const keys = await getAllKeys(storage.address, provider, 'latest', 2, keyIndex);
+            expect(keys).to.include(newKey);
+            expect(keys).to.have.members(await getAllKeys(storage.address, provider));
+            // the block of the new key is not final yet
+            expect(KeyIndex.open(indexPath, storage.address).data.keys).to.not.include(newKey);
+            return expect(keyIndex.index.data.indexedBlock).to.equal(await provider.getBlockNumber() - 2);
+        } finally {
+            if (fs.existsSync(indexPath)) fs.unlinkSync(indexPath);
+        }
+    });
+
     it('Should return a valid proof', async () => {
         const keys = await provider.send('parity_listStorageKeys', [
             storage.address, 5, null,
@@ -87,3 +179,118 @@ describe('Storage', async () => {
         expect(await verifyEthGetProof(proof, block.stateRoot)).to.be.true;
     });
 });
+
+describe('Storage key enumerators on a stubbed node', () => {
+    const contract = '0x00000000000000000000000000000000000000aa';
+    let server: http.Server | undefined;
+
+    afterEach(() => {
+        server?.close();
+        server = undefined;
+    });
+
+    it('should page through the storage range with nextKey', async () => {
+        const ranges: Array<Array<any>> = [];
+        server = await startStubNode({
+            eth_getBlockByNumber: ([block]) => (block === '0x10' ? stubBlock(16) : null),
+            debug_storageRangeAt: (params) => {
+                ranges.push(params);
+                return params[3] === ethers.constants.HashZero
+                    ? { storage: { [ethers.utils.id('h0')]: { key: '0x0', value: '0x01' }, [ethers.utils.id('h1')]: { key: '0x01', value: '0x02' } }, nextKey: ethers.utils.id('h2') }
+                    : { storage: { [ethers.utils.id('h2')]: { key: '0x02', value: '0x03' } }, nextKey: null };
+            },
+        });
+        const keys = await new StorageRangeKeyEnumerator(stubProvider(server)).listKeys(contract, '0x10', 2);
+        expect(keys).to.deep.equal(['0x0', '0x01', '0x02'].map((key) => ethers.utils.hexZeroPad(key, 32)));
+        // a block without txs is listed before its own first tx
+        expect(ranges).to.deep.equal([
+            [stubBlock(16).hash, 0, contract, ethers.constants.HashZero, 2],
+            [stubBlock(16).hash, 0, contract, ethers.utils.id('h2'), 2],
+        ]);
+    });
+
+    it('should throw a RpcCapabilityError if the node has no preimage of a key', async () => {
+        server = await startStubNode({
+            eth_getBlockByNumber: () => stubBlock(16),
+            debug_storageRangeAt: () => ({ storage: { [ethers.utils.id('h0')]: { key: null, value: '0x01' } }, nextKey: null }),
+        });
+        let error: unknown;
+        try {
+            await new StorageRangeKeyEnumerator(stubProvider(server)).listKeys(contract, '0x10', 2);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(RpcCapabilityError);
+        return expect((error as RpcCapabilityError).method).to.equal('the preimages of storage keys');
+    });
+
+    it('should list the keys of a block with txs before the first tx of the next block once it is mined', async () => {
+        let polls = 0;
+        const ranges: Array<Array<any>> = [];
+        server = await startStubNode({
+            eth_getBlockByNumber: ([block]) => {
+                if (block === '0x10') return stubBlock(16, [ethers.utils.id('tx')]);
+                polls += 1;
+                // the next block is mined after the third poll
+                return polls > 2 ? stubBlock(17, [], stubBlock(16).hash) : null;
+            },
+            debug_storageRangeAt: (params) => {
+                ranges.push(params);
+                return { storage: { [ethers.utils.id('h0')]: { key: '0x0', value: '0x01' } }, nextKey: null };
+            },
+        });
+        const keys = await new StorageRangeKeyEnumerator(stubProvider(server)).listKeys(contract, '0x10', 2);
+        expect(keys).to.deep.equal([ethers.constants.HashZero]);
+        expect(polls).to.equal(3);
+        return expect(ranges).to.deep.equal([[stubBlock(17).hash, 0, contract, ethers.constants.HashZero, 2]]);
+    });
+
+    it('should throw a RpcError if the listed block was replaced by a reorg', async () => {
+        server = await startStubNode({
+            eth_getBlockByNumber: ([block]) => (block === '0x10' ? stubBlock(16, [ethers.utils.id('tx')]) : stubBlock(17, [], ethers.utils.id('other block 16'))),
+            debug_storageRangeAt: () => ({ storage: {}, nextKey: null }),
+        });
+        let error: unknown;
+        try {
+            await new StorageRangeKeyEnumerator(stubProvider(server)).listKeys(contract, '0x10', 2);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(RpcError);
+        return expect((error as Error).message).to.contain('reorg');
+    });
+
+    it('should throw a RpcError if the next block is not mined in time', async () => {
+        server = await startStubNode({
+            eth_getBlockByNumber: ([block]) => (block === '0x10' ? stubBlock(16, [ethers.utils.id('tx')]) : null),
+            debug_storageRangeAt: () => ({ storage: {}, nextKey: null }),
+        });
+        let error: unknown;
+        try {
+            await new StorageRangeKeyEnumerator(stubProvider(server), 50).listKeys(contract, '0x10', 2);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(RpcError);
+        return expect((error as Error).message).to.contain('was not mined within 50 ms');
+    });
+
+    it('should detect debug_storageRangeAt if the node does not know parity_listStorageKeys', async () => {
+        server = await startStubNode({
+            eth_getBlockByNumber: () => stubBlock(16),
+            debug_storageRangeAt: () => ({ storage: {}, nextKey: null }),
+        });
+        return expect((await detectKeyEnumerator(stubProvider(server))).name).to.equal('storageRange');
+    });
+
+    it('should throw a RpcCapabilityError if the node knows neither method to list keys', async () => {
+        server = await startStubNode({ eth_getBlockByNumber: () => stubBlock(16) });
+        let error: unknown;
+        try {
+            await detectKeyEnumerator(stubProvider(server));
+        } catch (e) {
+            error = e;
+        }
+        return expect(error).to.be.instanceOf(RpcCapabilityError);
+    });
+});
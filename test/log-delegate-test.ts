@@ -10,7 +10,7 @@ import {
     TestProxyContract,
     TestProxyContract__factory,
 } from '../src-gen/types';
-import { TxContractInteractionOptions } from '../src/cli/smart-sync';
+import { TxContractInteractionOptions } from '../src/cli/types';
 import FileHandler from '../src/utils/fileHandler';
 import { TestCLI } from './test-utils';
 import { logger } from '../src/utils/logger';
@@ -4,7 +4,7 @@ import { BigNumber, ethers } from 'ethers';
 import { logger } from '../src/utils/logger';
 import { SimpleStorage, SimpleStorage__factory } from '../src-gen/types';
 import GetProof from '../src/proofHandler/GetProof';
-import { TxContractInteractionOptions } from '../src/cli/smart-sync';
+import { TxContractInteractionOptions } from '../src/cli/types';
 import FileHandler from '../src/utils/fileHandler';
 import { TestCLI } from './test-utils';
 
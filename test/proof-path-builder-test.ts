@@ -4,7 +4,7 @@ import { JsonRpcProvider } from '@ethersproject/providers';
 import { BigNumber, ethers } from 'ethers';
 import { StorageImitator, StorageImitator__factory } from '../src-gen/types';
 import { logger } from '../src/utils/logger';
-import { TxContractInteractionOptions } from '../src/cli/smart-sync';
+import { TxContractInteractionOptions } from '../src/cli/types';
 import FileHandler from '../src/utils/fileHandler';
 import { TestCLI } from './test-utils';
 import { CSVManager } from '../evaluation/eval-utils';
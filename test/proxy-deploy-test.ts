@@ -13,7 +13,7 @@ import GetProof from '../src/proofHandler/GetProof';
 import ProxyContractBuilder from '../src/utils/proxy-contract-builder';
 import { encodeBlockHeader } from '../src/chain-proxy';
 import { TestCLI } from './test-utils';
-import { TxContractInteractionOptions } from '../src/cli/smart-sync';
+import { TxContractInteractionOptions } from '../src/cli/types';
 import FileHandler from '../src/utils/fileHandler';
 
 describe('Deploy proxy and logic contract', async () => {
@@ -0,0 +1,538 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expect } from 'chai';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber, ethers } from 'ethers';
+import { MappingContract, MappingContract__factory, RelayContract__factory } from '../src-gen/types';
+import { logger } from '../src/utils/logger';
+import { TxContractInteractionOptions } from '../src/cli/types';
+import FileHandler from '../src/utils/fileHandler';
+import { TestCLI } from './test-utils';
+import {
+    ChainProxy, ConfigError, ContractAddressMap, createDiffReport, encodeBlockHeader, FanOutSync, InvalidStateError, MigrationResult, PatchIntegrityError, RPCConfig, SyncPatch, TargetTxRevertedError, TxReplacement,
+} from '../src';
+
+describe('SDK', () => {
+    let deployer: SignerWithAddress;
+    let srcContract: MappingContract;
+    let provider: JsonRpcProvider;
+    let chainConfigs: TxContractInteractionOptions | undefined;
+    let chainProxy: ChainProxy;
+
+    before(async () => {
+        const fh = new FileHandler(TestCLI.defaultTestConfigFile);
+        chainConfigs = fh.getJSON<TxContractInteractionOptions>();
+        if (!chainConfigs) {
+            logger.error(`No config available under ${TestCLI.defaultTestConfigFile}`);
+            process.exit(-1);
+        }
+        provider = new ethers.providers.JsonRpcProvider({ url: chainConfigs.srcChainRpcUrl, timeout: BigNumber.from(chainConfigs.connectionTimeout).toNumber() });
+        deployer = await SignerWithAddress.create(provider.getSigner());
+        logger.setSettings({ minLevel: 'info', name: 'sdk-test.ts' });
+    });
+
+    beforeEach(async () => {
+        const factory = new MappingContract__factory(deployer);
+        srcContract = await factory.deploy();
+        await (await srcContract.insertMultiple([1, 2, 3], [4, 5, 6])).wait();
+        if (!chainConfigs) {
+            logger.error(`No config available under ${TestCLI.defaultTestConfigFile}`);
+            process.exit(-1);
+        }
+        const srcProviderConnectionInfo: ethers.utils.ConnectionInfo = {
+            url: chainConfigs.srcChainRpcUrl,
+            timeout: BigNumber.from(chainConfigs.connectionTimeout).toNumber(),
+        };
+        const targetProviderConnectionInfo: ethers.utils.ConnectionInfo = {
+            url: chainConfigs.targetChainRpcUrl,
+            timeout: BigNumber.from(chainConfigs.connectionTimeout).toNumber(),
+        };
+        const contractAddressMap: ContractAddressMap = {
+            srcContract: srcContract.address,
+        };
+        const srcRPCConfig: RPCConfig = {};
+        const targetRPCConfig: RPCConfig = {
+            targetAccountEncryptedJsonPath: TestCLI.targetAccountEncryptedJsonPath,
+            targetAccountPassword: TestCLI.targetAccountPassword,
+            gasLimit: BigNumber.from(chainConfigs.gasLimit).toNumber(),
+        };
+        chainProxy = new ChainProxy(contractAddressMap, srcProviderConnectionInfo, srcRPCConfig, targetProviderConnectionInfo, targetRPCConfig);
+        await chainProxy.init();
+    });
+
+    it('should return the deployed contracts and used gas of a migration', async () => {
+        const result = await chainProxy.migrateSrcContract('latest');
+
+        expect(result.srcContract).to.equal(srcContract.address);
+        expect(result.proxyContract).to.equal(chainProxy.proxyContractAddress);
+        expect((await chainProxy.targetProvider.getCode(result.relayContract)).length).to.be.greaterThan(2);
+        expect((await chainProxy.targetProvider.getCode(result.logicContract)).length).to.be.greaterThan(2);
+        const srcBlock = await provider.send('eth_getBlockByNumber', [ethers.utils.hexValue(result.srcBlock), false]);
+        expect(result.stateRoot).to.equal(srcBlock.stateRoot);
+        return expect(result.gasUsed.gt(0)).to.be.true;
+    });
+
+    it('should return the synchronized keys, block and tx of a synchronization', async () => {
+        await chainProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+
+        const results = await chainProxy.synchronize('srcTx', { targetBlock: 'latest' });
+
+        expect(results).to.have.lengthOf(1);
+        const [result] = results;
+        expect(result.keys).to.have.lengthOf(1);
+        expect(result.blockNumber).to.equal(await provider.getBlockNumber());
+        expect(result.txHash).to.not.be.undefined;
+        expect(result.replacedTxs).to.be.empty;
+        if (!result.txHash) return false;
+        const receipt = await chainProxy.targetProvider.getTransactionReceipt(result.txHash);
+        expect(receipt.status).to.equal(1);
+        return expect(result.gasUsed.gte(receipt.gasUsed)).to.be.true;
+    });
+
+    it('should send storage batches with consecutive nonces while other batches are in flight', async () => {
+        const pipelinedProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, { ...chainProxy.targetRPCConfig, maxInFlightTxs: 2 });
+        await pipelinedProxy.init();
+        const addStorageTxs: Array<string> = [];
+        pipelinedProxy.events.on('txSubmitted', ({ description, txHash }) => {
+            if (description === 'addStorage') addStorageTxs.push(txHash);
+        });
+
+        await pipelinedProxy.migrateSrcContract('latest', 1);
+
+        expect(addStorageTxs).to.have.lengthOf(3);
+        const txs = await Promise.all(addStorageTxs.map((hash) => pipelinedProxy.targetProvider.getTransaction(hash)));
+        const nonces = txs.map((tx) => tx.nonce).sort((a, b) => a - b);
+        expect(nonces).to.deep.equal([nonces[0], nonces[0] + 1, nonces[0] + 2]);
+        return expect(pipelinedProxy.migrationState).to.be.true;
+    });
+
+    it('should send the txs of a migration with the configured gas price', async () => {
+        const gasPrice = (await chainProxy.targetProvider.getGasPrice()).add(1);
+        const legacyProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, { ...chainProxy.targetRPCConfig, fees: { strategy: 'legacy', gasPrice } });
+        await legacyProxy.init();
+        const txHashes: Array<string> = [];
+        legacyProxy.events.on('txSubmitted', ({ txHash }) => txHashes.push(txHash));
+
+        await legacyProxy.migrateSrcContract('latest');
+
+        const txs = await Promise.all(txHashes.map((hash) => legacyProxy.targetProvider.getTransaction(hash)));
+        expect(txs).to.not.be.empty;
+        txs.forEach((tx) => expect(tx.gasPrice?.eq(gasPrice)).to.be.true);
+        return expect(await legacyProxy.getGasPrice()).to.deep.equal(gasPrice);
+    });
+
+    it('should emit the lifecycle events of a migration', async () => {
+        const confirmed: Array<string> = [];
+        let keysEnumerated = 0;
+        let verified: MigrationResult | undefined;
+        chainProxy.events.on('keysEnumerated', ({ keys }) => { keysEnumerated = keys; });
+        chainProxy.events.on('txConfirmed', ({ description }) => confirmed.push(description));
+        chainProxy.events.on('migrationVerified', (result) => { verified = result; });
+
+        const result = await chainProxy.migrateSrcContract('latest');
+
+        expect(keysEnumerated).to.equal(3);
+        expect(confirmed).to.include.members(['deploy relay contract', 'addBlock', 'deploy logic contract', 'deploy proxy contract', 'addStorage', 'verifyMigrateContract']);
+        return expect(verified).to.deep.equal(result);
+    });
+
+    it('should emit syncCompleted after a synchronization', async () => {
+        await chainProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        const submitted: Array<string> = [];
+        let completedKeys = 0;
+        chainProxy.events.on('txSubmitted', ({ description }) => submitted.push(description));
+        chainProxy.events.on('syncCompleted', ({ results }) => { completedKeys = results.reduce((sum, r) => sum + r.keys.length, 0); });
+
+        await chainProxy.synchronize('srcTx', { targetBlock: 'latest' });
+
+        expect(submitted).to.include('updateStorage');
+        return expect(completedKeys).to.equal(1);
+    });
+
+    it('should fan out one proof of the source contract to the proxy contracts of several targets', async () => {
+        await chainProxy.migrateSrcContract('latest');
+        const secondProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, chainProxy.targetRPCConfig);
+        await secondProxy.init();
+        await secondProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        let proofsFetched = 0;
+        [chainProxy, secondProxy].forEach((proxy) => proxy.events.on('proofFetched', () => { proofsFetched += 1; }));
+
+        const fanOutSync = new FanOutSync([{ name: 'first', chainProxy }, { name: 'second', chainProxy: secondProxy }]);
+        const results = await fanOutSync.synchronize('latest');
+
+        expect(proofsFetched).to.equal(1);
+        expect(results.map(({ target }) => target)).to.deep.equal(['first', 'second']);
+        const latestBlock = await provider.getBlockNumber();
+        results.forEach(({ results: syncResults, error }) => {
+            expect(error).to.be.undefined;
+            expect(syncResults).to.have.lengthOf(1);
+            expect(syncResults[0].txHash).to.not.be.undefined;
+            expect(syncResults[0].blockNumber).to.equal(latestBlock);
+        });
+        return expect((await secondProxy.getCurrentBlockNumber()).toNumber()).to.equal(latestBlock);
+    });
+
+    it('should keep synchronizing the other targets if one target fails', async () => {
+        await chainProxy.migrateSrcContract('latest');
+        // without a signer, the txs of this target cannot be sent
+        const unsignedProxy = new ChainProxy({ proxyContract: chainProxy.proxyContractAddress }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, { gasLimit: chainProxy.targetRPCConfig.gasLimit });
+        await unsignedProxy.init();
+        const secondProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, chainProxy.targetRPCConfig);
+        await secondProxy.init();
+        await secondProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(2, 8)).wait();
+        const failed: Array<string> = [];
+
+        const fanOutSync = new FanOutSync([{ name: 'unsigned', chainProxy: unsignedProxy }, { name: 'second', chainProxy: secondProxy }]);
+        fanOutSync.events.on('targetFailed', ({ target }) => failed.push(target));
+        const [unsignedResult, secondResult] = await fanOutSync.synchronize('latest');
+
+        expect(failed).to.deep.equal(['unsigned']);
+        expect(unsignedResult.error).to.not.be.undefined;
+        expect(secondResult.error).to.be.undefined;
+        return expect((await secondProxy.getCurrentBlockNumber()).toNumber()).to.equal(await provider.getBlockNumber());
+    });
+
+    it('should keep synchronizing the other targets if the chain proxy of one target is not initialized', async () => {
+        await chainProxy.migrateSrcContract('latest');
+        const uninitializedProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, chainProxy.targetRPCConfig);
+        await (await srcContract.insert(3, 9)).wait();
+
+        const fanOutSync = new FanOutSync([{ name: 'uninitialized', chainProxy: uninitializedProxy }, { name: 'initialized', chainProxy }]);
+        const [uninitializedResult, initializedResult] = await fanOutSync.synchronize('latest');
+
+        expect(uninitializedResult.error).to.be.instanceOf(InvalidStateError);
+        expect(initializedResult.error).to.be.undefined;
+        return expect((await chainProxy.getCurrentBlockNumber()).toNumber()).to.equal(await provider.getBlockNumber());
+    });
+
+    it('should relay linked block headers in header mode', async () => {
+        const headerProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, { ...chainProxy.targetRPCConfig, relayMode: 'header' });
+        await headerProxy.init();
+        const migration = await headerProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        await (await srcContract.insert(2, 8)).wait();
+
+        const [result] = await headerProxy.synchronize('srcTx', { targetBlock: 'latest' });
+
+        // the headers between the migrated and the synchronized block are backfilled so that every header links to its parent
+        const relayContract = RelayContract__factory.connect(migration.relayContract, headerProxy.targetProvider);
+        const blockNumbers = Array.from({ length: result.blockNumber - migration.srcBlock + 1 }, (_, i) => migration.srcBlock + i);
+        const blocks = await Promise.all(blockNumbers.map((blockNumber) => provider.getBlock(blockNumber)));
+        const storedHashes = await Promise.all(blockNumbers.map((blockNumber) => relayContract.getBlockHash(blockNumber)));
+        expect(storedHashes).to.deep.equal(blocks.map((block) => block.hash));
+        expect((await relayContract.getLatestHeaderNumber()).toNumber()).to.equal(result.blockNumber);
+        return expect(result.txHash).to.not.be.undefined;
+    });
+
+    it('should reject a block header whose parent is not stored in the relay contract', async () => {
+        const headerProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, { ...chainProxy.targetRPCConfig, relayMode: 'header' });
+        await headerProxy.init();
+        const migration = await headerProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        await (await srcContract.insert(2, 8)).wait();
+
+        let error: unknown;
+        try {
+            // the header of srcBlock + 1 is missing
+            await headerProxy.backfillHeaders(migration.srcBlock + 2, migration.srcBlock + 2);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(TargetTxRevertedError);
+        return expect((error as TargetTxRevertedError).reason).to.equal('Parent block header is unknown');
+    });
+
+    it('should reject addBlock once the relay contract is in header mode', async () => {
+        const headerProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, { ...chainProxy.targetRPCConfig, relayMode: 'header' });
+        await headerProxy.init();
+        const migration = await headerProxy.migrateSrcContract('latest');
+        const encryptedJson = new FileHandler(TestCLI.targetAccountEncryptedJsonPath).read() as string;
+        const owner = ethers.Wallet.fromEncryptedJsonSync(encryptedJson, TestCLI.targetAccountPassword).connect(headerProxy.targetProvider);
+        const relayContract = RelayContract__factory.connect(migration.relayContract, owner);
+        const futureBlock = migration.srcBlock + 100;
+
+        let error: unknown;
+        try {
+            // a state root of a block without a header must not be accepted
+            await (await relayContract.addBlock(ethers.utils.keccak256(ethers.utils.toUtf8Bytes('forged')), futureBlock, { gasLimit: headerProxy.targetRPCConfig.gasLimit })).wait();
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.not.be.undefined;
+        return expect(await relayContract.getStateRoot(futureBlock)).to.equal(ethers.constants.HashZero);
+    });
+
+    it('should add, list and remove relayers of the relay contract', async () => {
+        const migration = await chainProxy.migrateSrcContract('latest');
+        const owner = await chainProxy.getRelayOwner();
+        const relayer = ethers.Wallet.createRandom().address;
+
+        await chainProxy.addRelayer(relayer);
+        expect(await chainProxy.getRelayers()).to.deep.equal([owner, relayer]);
+        await chainProxy.removeRelayer(relayer);
+
+        const relayContract = RelayContract__factory.connect(migration.relayContract, chainProxy.targetProvider);
+        expect(await relayContract.isRelayer(relayer)).to.be.false;
+        return expect(await chainProxy.getRelayers()).to.deep.equal([owner]);
+    });
+
+    it('should replace a stuck tx by one with raised fees and emit txReplaced', async () => {
+        await chainProxy.migrateSrcContract('latest');
+        const gasPrice = await chainProxy.targetProvider.getGasPrice();
+        const stuckProxy = new ChainProxy({ proxyContract: chainProxy.proxyContractAddress }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, { ...chainProxy.targetRPCConfig, stuckTxTimeout: 500, fees: { strategy: 'legacy', gasPrice } });
+        await stuckProxy.init();
+        // the first tx is held back from the node, which claims to know it, so it looks stuck
+        const { targetProvider } = stuckProxy;
+        const sendTransaction = targetProvider.sendTransaction.bind(targetProvider);
+        const getTransaction = targetProvider.getTransaction.bind(targetProvider);
+        let heldBack: ethers.providers.TransactionResponse | undefined;
+        targetProvider.sendTransaction = async (signedTx) => {
+            if (heldBack) return sendTransaction(signedTx);
+            const tx = ethers.utils.parseTransaction(await signedTx);
+            heldBack = {
+                ...tx, confirmations: 0, wait: () => targetProvider.waitForTransaction(tx.hash as string),
+            } as ethers.providers.TransactionResponse;
+            return heldBack;
+        };
+        targetProvider.getTransaction = async (hash) => (hash === heldBack?.hash ? heldBack : getTransaction(hash));
+        const replacements: Array<TxReplacement> = [];
+        stuckProxy.events.on('txReplaced', (replacement) => replacements.push(replacement));
+
+        const receipt = await stuckProxy.addRelayer(ethers.Wallet.createRandom().address);
+
+        expect(receipt.replacedTxs).to.deep.equal([heldBack?.hash]);
+        expect(replacements).to.deep.equal([{
+            description: 'addRelayer', nonce: heldBack?.nonce, txHash: receipt.transactionHash, replacedTxs: [heldBack?.hash],
+        }]);
+        const replacement = await chainProxy.targetProvider.getTransaction(receipt.transactionHash);
+        return expect(replacement.gasPrice?.eq(gasPrice.mul(115).div(100))).to.be.true;
+    });
+
+    it('should refuse to relay blocks with a signer that is not a relayer', async () => {
+        await chainProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        process.env.SMART_SYNC_PRIVATE_KEY = ethers.Wallet.createRandom().privateKey;
+        const strangerProxy = new ChainProxy({ proxyContract: chainProxy.proxyContractAddress }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, { gasLimit: chainProxy.targetRPCConfig.gasLimit, signer: { type: 'privateKey' } });
+        await strangerProxy.init();
+
+        let error: unknown;
+        try {
+            // the stranger has no funds, so the check has to happen before any tx is sent
+            await strangerProxy.synchronize('srcTx', { targetBlock: 'latest' });
+        } catch (e) {
+            error = e;
+        } finally {
+            delete process.env.SMART_SYNC_PRIVATE_KEY;
+        }
+        return expect(error).to.be.instanceOf(ConfigError);
+    });
+
+    it('should only synchronize up to the newest block with the given amount of confirmations', async () => {
+        const confirmedProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, { finality: 2 }, chainProxy.targetProviderConnectionInfo, chainProxy.targetRPCConfig);
+        await confirmedProxy.init();
+        // the migrated block has to be confirmed as well
+        await (await srcContract.insert(4, 10)).wait();
+        await (await srcContract.insert(5, 11)).wait();
+        await confirmedProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        await (await srcContract.insert(2, 8)).wait();
+        await (await srcContract.insert(3, 9)).wait();
+        const latestBlock = await provider.getBlockNumber();
+
+        const results = await confirmedProxy.synchronize('srcTx', { targetBlock: 'latest' });
+
+        expect(results[results.length - 1].blockNumber).to.equal(latestBlock - 2);
+        return expect((await confirmedProxy.getCurrentBlockNumber()).toNumber()).to.equal(latestBlock - 2);
+    });
+
+    it('should reject a block that does not have the given amount of confirmations', async () => {
+        const confirmedProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, { finality: 2 }, chainProxy.targetProviderConnectionInfo, chainProxy.targetRPCConfig);
+        await confirmedProxy.init();
+        // the migrated block has to be confirmed as well
+        await (await srcContract.insert(4, 10)).wait();
+        await (await srcContract.insert(5, 11)).wait();
+        await confirmedProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        await (await srcContract.insert(2, 8)).wait();
+
+        let error: unknown;
+        try {
+            await confirmedProxy.synchronize('srcTx', { targetBlock: await provider.getBlockNumber() });
+        } catch (e) {
+            error = e;
+        }
+        return expect(error).to.be.instanceOf(ConfigError);
+    });
+
+    it('should find no orphaned blocks if the relay contract follows the canonical chain', async () => {
+        await chainProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        await chainProxy.synchronize('srcTx', { targetBlock: 'latest' });
+
+        const check = await chainProxy.checkReorgs();
+
+        expect(check.orphanedBlocks).to.be.empty;
+        return expect(check.proxyOrphaned).to.be.false;
+    });
+
+    it('should replace an orphaned state root of the relay contract by the canonical one', async () => {
+        const migration = await chainProxy.migrateSrcContract('latest');
+        // a state root of a block that was reorganized away
+        const encryptedJson = new FileHandler(TestCLI.targetAccountEncryptedJsonPath).read() as string;
+        const owner = ethers.Wallet.fromEncryptedJsonSync(encryptedJson, TestCLI.targetAccountPassword).connect(chainProxy.targetProvider);
+        const relayContract = RelayContract__factory.connect(migration.relayContract, owner);
+        await (await relayContract.addBlock(ethers.utils.keccak256(ethers.utils.toUtf8Bytes('orphaned')), migration.srcBlock)).wait();
+
+        const check = await chainProxy.checkReorgs();
+        expect(check.orphanedBlocks).to.deep.equal([migration.srcBlock]);
+        expect(check.proxyOrphaned).to.be.true;
+
+        const repair = await chainProxy.repairReorgs();
+        expect(repair.replacedBlocks).to.deep.equal([migration.srcBlock]);
+        expect(await relayContract.getStateRoot(migration.srcBlock)).to.equal(migration.stateRoot);
+        return expect((await chainProxy.checkReorgs()).orphanedBlocks).to.be.empty;
+    });
+
+    it('should replace an orphaned header of the relay contract whose state root equals the canonical one', async () => {
+        const headerProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, { ...chainProxy.targetRPCConfig, relayMode: 'header' });
+        await headerProxy.init();
+        const migration = await headerProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        await (await srcContract.insert(2, 8)).wait();
+        // a sibling of the next block with the same state root, like the empty blocks that PoA chains might seal at the same height
+        const orphanedNumber = migration.srcBlock + 1;
+        const canonical = await provider.send('eth_getBlockByNumber', [ethers.utils.hexValue(orphanedNumber), false]);
+        const sibling = { ...canonical, timestamp: ethers.utils.hexValue(BigNumber.from(canonical.timestamp).add(1)) };
+        const encryptedJson = new FileHandler(TestCLI.targetAccountEncryptedJsonPath).read() as string;
+        const owner = ethers.Wallet.fromEncryptedJsonSync(encryptedJson, TestCLI.targetAccountPassword).connect(headerProxy.targetProvider);
+        const relayContract = RelayContract__factory.connect(migration.relayContract, owner);
+        await (await relayContract.addBlockHeader(encodeBlockHeader(sibling))).wait();
+
+        const check = await headerProxy.checkReorgs();
+        expect(check.orphanedBlocks).to.deep.equal([orphanedNumber]);
+        expect(check.proxyOrphaned).to.be.false;
+
+        const repair = await headerProxy.repairReorgs();
+        expect(repair.replacedBlocks).to.deep.equal([orphanedNumber]);
+        expect(await relayContract.getBlockHash(orphanedNumber)).to.equal(canonical.hash);
+        // the next header links to the replaced one
+        const [result] = await headerProxy.synchronize('srcTx', { targetBlock: 'latest' });
+        return expect(result.blockNumber).to.be.greaterThan(orphanedNumber);
+    });
+
+    it('should apply an exported patch without the source chain', async () => {
+        const migration = await chainProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        const diff = await chainProxy.getDiff('srcTx', { srcBlock: migration.srcBlock + 1, targetBlock: 'latest' });
+        const proof = await chainProxy.buildSyncProof(diff.getKeys(), diff.fromKeys, 'latest');
+        const exporter = ethers.Wallet.createRandom();
+        const exported = await SyncPatch.create(createDiffReport(diff, srcContract.address, 'srcTx'), proof, chainProxy.srcProvider, undefined, exporter);
+        const patchPath = path.join(os.tmpdir(), 'sdk-test.patch.json');
+        expect(exported.save(patchPath)).to.be.true;
+
+        const patch = SyncPatch.load(patchPath);
+        fs.unlinkSync(patchPath);
+        patch.verify(chainProxy.srcContractAddress, exporter.address);
+        patch.checkFollows((await chainProxy.getCurrentBlockNumber()).toNumber());
+        const result = await chainProxy.applySyncProof(patch.syncProof, patch.data.headers);
+
+        expect(result.blockNumber).to.equal(proof.blockNumber);
+        expect((await chainProxy.getCurrentBlockNumber()).toNumber()).to.equal(proof.blockNumber);
+        const [key] = diff.getKeys();
+        return expect(await chainProxy.targetProvider.getStorageAt(migration.proxyContract, key)).to.equal(await provider.getStorageAt(srcContract.address, key));
+    });
+
+    it('should reject a patch that was modified after it was exported', async () => {
+        const migration = await chainProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        const diff = await chainProxy.getDiff('srcTx', { srcBlock: migration.srcBlock + 1, targetBlock: 'latest' });
+        const proof = await chainProxy.buildSyncProof(diff.getKeys(), diff.fromKeys, 'latest');
+        const patch = await SyncPatch.create(createDiffReport(diff, srcContract.address, 'srcTx'), proof, chainProxy.srcProvider);
+        patch.verify(chainProxy.srcContractAddress);
+
+        patch.data.diff.diffs[0].newValue = ethers.utils.hexZeroPad('0x08', 32);
+
+        return expect(() => patch.verify(chainProxy.srcContractAddress)).to.throw(PatchIntegrityError);
+    });
+
+    it('should reject a patch that is not signed by the exporter', async () => {
+        const migration = await chainProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        const diff = await chainProxy.getDiff('srcTx', { srcBlock: migration.srcBlock + 1, targetBlock: 'latest' });
+        const proof = await chainProxy.buildSyncProof(diff.getKeys(), diff.fromKeys, 'latest');
+        const exporter = ethers.Wallet.createRandom();
+        const forger = ethers.Wallet.createRandom();
+
+        // a forged patch is consistent in itself, only the signature tells it apart
+        const forged = await SyncPatch.create(createDiffReport(diff, srcContract.address, 'srcTx'), proof, chainProxy.srcProvider, undefined, forger);
+        forged.verify(chainProxy.srcContractAddress);
+        expect(() => forged.verify(chainProxy.srcContractAddress, exporter.address)).to.throw(PatchIntegrityError);
+        const unsigned = await SyncPatch.create(createDiffReport(diff, srcContract.address, 'srcTx'), proof, chainProxy.srcProvider);
+        return expect(() => unsigned.verify(chainProxy.srcContractAddress, exporter.address)).to.throw(PatchIntegrityError);
+    });
+
+    it('should reject a patch whose headers are not linked', async () => {
+        const migration = await chainProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        await (await srcContract.insert(2, 8)).wait();
+        const diff = await chainProxy.getDiff('srcTx', { srcBlock: migration.srcBlock + 1, targetBlock: 'latest' });
+        const proof = await chainProxy.buildSyncProof(diff.getKeys(), diff.fromKeys, 'latest');
+        // the source chain answers with a header that hashes correctly, but whose parent is not the header before it
+        const otherBlock = await provider.send('eth_getBlockByNumber', [ethers.utils.hexValue(migration.srcBlock), false]);
+        const srcProvider = Object.create(chainProxy.srcProvider);
+        srcProvider.send = async (method: string, params: Array<unknown>) => {
+            if (method === 'eth_getBlockByNumber' && BigNumber.from(params[0]).eq(proof.blockNumber - 1)) return otherBlock;
+            return chainProxy.srcProvider.send(method, params);
+        };
+
+        const patch = await SyncPatch.create(createDiffReport(diff, srcContract.address, 'srcTx'), proof, srcProvider, proof.blockNumber - 1);
+
+        return expect(() => patch.verify(chainProxy.srcContractAddress)).to.throw(PatchIntegrityError, 'does not link');
+    });
+
+    it('should reject a patch whose proof does not cover the keys of its diff', async () => {
+        const migration = await chainProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        await (await srcContract.insert(5, 9)).wait();
+        const diff = await chainProxy.getDiff('srcTx', { srcBlock: migration.srcBlock + 1, targetBlock: 'latest' });
+        const [changedKey] = diff.getKeys();
+        const proof = await chainProxy.buildSyncProof([changedKey], diff.fromKeys, 'latest');
+
+        const patch = await SyncPatch.create(createDiffReport(diff, srcContract.address, 'srcTx'), proof, chainProxy.srcProvider);
+
+        return expect(() => patch.verify(chainProxy.srcContractAddress)).to.throw(PatchIntegrityError, 'keys of the proof');
+    });
+
+    it('should only apply a patch in header mode if its headers link to the relay contract', async () => {
+        const headerProxy = new ChainProxy({ srcContract: srcContract.address }, chainProxy.srcProviderConnectionInfo, {}, chainProxy.targetProviderConnectionInfo, { ...chainProxy.targetRPCConfig, relayMode: 'header' });
+        await headerProxy.init();
+        const migration = await headerProxy.migrateSrcContract('latest');
+        await (await srcContract.insert(1, 7)).wait();
+        await (await srcContract.insert(2, 8)).wait();
+        const diff = await headerProxy.getDiff('srcTx', { srcBlock: migration.srcBlock + 1, targetBlock: 'latest' });
+        const proof = await headerProxy.buildSyncProof(diff.getKeys(), diff.fromKeys, 'latest');
+        const getBlockHash = (blockNumber: number) => headerProxy.getBlockHash(blockNumber);
+
+        // the header of the block before the proof is missing in the relay contract
+        const unlinked = await SyncPatch.create(createDiffReport(diff, srcContract.address, 'srcTx'), proof, headerProxy.srcProvider);
+        let error: unknown;
+        try {
+            await unlinked.checkLinkedTo(getBlockHash);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(PatchIntegrityError);
+
+        const linked = await SyncPatch.create(createDiffReport(diff, srcContract.address, 'srcTx'), proof, headerProxy.srcProvider, migration.srcBlock + 1);
+        linked.verify(headerProxy.srcContractAddress);
+        await linked.checkLinkedTo(getBlockHash);
+        const result = await headerProxy.applySyncProof(linked.syncProof, linked.data.headers);
+        return expect(result.blockNumber).to.equal(proof.blockNumber);
+    });
+});
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { expect } from 'chai';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber, ethers } from 'ethers';
+import { logger } from '../src/utils/logger';
+import { TxContractInteractionOptions } from '../src/cli/types';
+import FileHandler from '../src/utils/fileHandler';
+import { TestCLI } from './test-utils';
+import { ConfigError, createDryRunSigner, createSigner } from '../src';
+
+const TEST_MNEMONIC = 'test test test test test test test test test test test junk';
+
+/**
+ * Stand-in for a remote signer: answers eth_accounts and eth_signTransaction with the given wallet
+ */
+function startRemoteSigner(wallet: ethers.Wallet): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', async () => {
+            const { id, method, params } = JSON.parse(body);
+            let result: any;
+            if (method === 'eth_accounts') {
+                result = [wallet.address.toLowerCase()];
+            } else if (method === 'eth_signTransaction') {
+                const [tx] = params;
+                const raw = await wallet.signTransaction({
+                    to: tx.to,
+                    data: tx.data,
+                    value: tx.value,
+                    nonce: BigNumber.from(tx.nonce).toNumber(),
+                    gasLimit: tx.gas,
+                    gasPrice: tx.gasPrice,
+                    maxFeePerGas: tx.maxFeePerGas,
+                    maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+                    type: tx.type !== undefined ? BigNumber.from(tx.type).toNumber() : undefined,
+                    chainId: tx.chainId !== undefined ? BigNumber.from(tx.chainId).toNumber() : undefined,
+                });
+                result = { raw, tx };
+            }
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(result !== undefined
+                ? { jsonrpc: '2.0', id, result }
+                : { jsonrpc: '2.0', id, error: { code: -32601, message: `the method ${method} does not exist/is not available` } }));
+        });
+    });
+    return new Promise((resolve) => { server.listen(0, '127.0.0.1', () => resolve(server)); });
+}
+
+describe('Signer backends', () => {
+    let provider: JsonRpcProvider;
+    let wallet: ethers.Wallet;
+    let encryptedJson: string;
+
+    before(async () => {
+        const chainConfigs = new FileHandler(TestCLI.defaultTestConfigFile).getJSON<TxContractInteractionOptions>();
+        if (!chainConfigs) {
+            logger.error(`No config available under ${TestCLI.defaultTestConfigFile}`);
+            process.exit(-1);
+        }
+        provider = new ethers.providers.JsonRpcProvider({ url: chainConfigs.targetChainRpcUrl, timeout: BigNumber.from(chainConfigs.connectionTimeout).toNumber() });
+        encryptedJson = fs.readFileSync(TestCLI.targetAccountEncryptedJsonPath).toString('utf-8');
+        wallet = ethers.Wallet.fromEncryptedJsonSync(encryptedJson, TestCLI.targetAccountPassword).connect(provider);
+        logger.setSettings({ minLevel: 'info', name: 'signer-test.ts' });
+    });
+
+    it('should read a private key from an environment variable', async () => {
+        process.env.SIGNER_TEST_PRIVATE_KEY = wallet.privateKey;
+        const signer = createSigner({ type: 'privateKey', env: 'SIGNER_TEST_PRIVATE_KEY' }, provider);
+        delete process.env.SIGNER_TEST_PRIVATE_KEY;
+        return expect(await signer.getAddress()).to.equal(wallet.address);
+    });
+
+    it('should derive the account of a mnemonic at the given path', async () => {
+        const mnemonicFile = path.join(os.tmpdir(), 'signer-test.mnemonic');
+        fs.writeFileSync(mnemonicFile, `${TEST_MNEMONIC}\n`);
+        const signer = createSigner({ type: 'mnemonic', file: mnemonicFile, path: "m/44'/60'/0'/0/1" }, provider);
+        fs.unlinkSync(mnemonicFile);
+        return expect(await signer.getAddress()).to.equal(ethers.Wallet.fromMnemonic(TEST_MNEMONIC, "m/44'/60'/0'/0/1").address);
+    });
+
+    it('should select the keystore file of an address in a keystore directory', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'signer-test-'));
+        fs.writeFileSync(path.join(dir, 'other.json'), JSON.stringify({ address: ethers.Wallet.createRandom().address.slice(2).toLowerCase() }));
+        fs.writeFileSync(path.join(dir, 'account.json'), encryptedJson);
+
+        const signer = createSigner({ type: 'keystoreDir', dir, address: wallet.address }, provider, TestCLI.targetAccountPassword);
+        expect(await signer.getAddress()).to.equal(wallet.address);
+        expect(() => createSigner({ type: 'keystoreDir', dir, address: ethers.Wallet.createRandom().address }, provider, TestCLI.targetAccountPassword)).to.throw(ConfigError);
+        fs.rmSync(dir, { recursive: true });
+    });
+
+    it('should use the address of a keystore file for dry runs without decrypting it', async () => {
+        const signer = createDryRunSigner({ type: 'encryptedJson', path: TestCLI.targetAccountEncryptedJsonPath }, provider);
+        expect(signer).to.be.instanceOf(ethers.VoidSigner);
+        expect(await signer.getAddress()).to.equal(wallet.address);
+        return expect(() => createDryRunSigner({ type: 'keystoreDir', dir: os.tmpdir(), address: 'no address' }, provider)).to.throw(ConfigError);
+    });
+
+    it('should send txs signed by a remote signer', async () => {
+        const server = await startRemoteSigner(wallet);
+        try {
+            const signer = createSigner({ type: 'remote', url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` }, provider);
+            expect(await signer.getAddress()).to.equal(wallet.address);
+
+            const tx = await signer.sendTransaction({ to: wallet.address, value: 0 });
+            const receipt = await tx.wait();
+            expect(receipt.status).to.equal(1);
+            return expect(receipt.from).to.equal(wallet.address);
+        } finally {
+            server.close();
+        }
+    });
+});
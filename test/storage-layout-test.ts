@@ -0,0 +1,216 @@
+import { expect } from 'chai';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber, ethers } from 'ethers';
+import DiffHandler from '../src/diffHandler/DiffHandler';
+import StorageLayoutDecoder, { createStorageReader } from '../src/storageLayout/StorageLayoutDecoder';
+import { loadStorageLayout } from '../src/storageLayout/StorageLayoutLoader';
+import { SimpleStorage, SimpleStorage__factory } from '../src-gen/types';
+import { logger } from '../src/utils/logger';
+import { ConfigError } from '../src/errors';
+import { TxContractInteractionOptions } from '../src/cli/types';
+import FileHandler from '../src/utils/fileHandler';
+import { TestCLI } from './test-utils';
+import { StorageLayout, StorageReader } from '../src/storageLayout/Types';
+
+const SIMPLE_STORAGE_ARTIFACT = './artifacts/contracts/SimpleStorage.sol/SimpleStorage.json';
+
+const LONG_STRING = 'The quick brown fox jumps over the lazy dog';
+
+function layoutEntry(label: string, slot: number, offset: number, type: string) {
+    return {
+        astId: slot, contract: 'Layout.sol:Layout', label, offset, slot: slot.toString(), type,
+    };
+}
+
+/**
+ * Layout of
+ * ```
+ * uint128 small; int64 negative; bool flag;
+ * uint16[3] packed; uint256[2] wide; uint64[] dynamic;
+ * string shortString; string longString; bytes shortBytes;
+ * ```
+ */
+const LAYOUT: StorageLayout = {
+    storage: [
+        layoutEntry('small', 0, 0, 't_uint128'),
+        layoutEntry('negative', 0, 16, 't_int64'),
+        layoutEntry('flag', 0, 24, 't_bool'),
+        layoutEntry('packed', 1, 0, 't_array(t_uint16)3_storage'),
+        layoutEntry('wide', 2, 0, 't_array(t_uint256)2_storage'),
+        layoutEntry('dynamic', 4, 0, 't_array(t_uint64)dyn_storage'),
+        layoutEntry('shortString', 5, 0, 't_string_storage'),
+        layoutEntry('longString', 6, 0, 't_string_storage'),
+        layoutEntry('shortBytes', 7, 0, 't_bytes_storage'),
+    ],
+    types: {
+        t_uint128: { encoding: 'inplace', label: 'uint128', numberOfBytes: '16' },
+        t_int64: { encoding: 'inplace', label: 'int64', numberOfBytes: '8' },
+        t_bool: { encoding: 'inplace', label: 'bool', numberOfBytes: '1' },
+        t_uint16: { encoding: 'inplace', label: 'uint16', numberOfBytes: '2' },
+        t_uint64: { encoding: 'inplace', label: 'uint64', numberOfBytes: '8' },
+        t_uint256: { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' },
+        't_array(t_uint16)3_storage': {
+            encoding: 'inplace', label: 'uint16[3]', numberOfBytes: '32', base: 't_uint16',
+        },
+        't_array(t_uint256)2_storage': {
+            encoding: 'inplace', label: 'uint256[2]', numberOfBytes: '64', base: 't_uint256',
+        },
+        't_array(t_uint64)dyn_storage': {
+            encoding: 'dynamic_array', label: 'uint64[]', numberOfBytes: '32', base: 't_uint64',
+        },
+        t_string_storage: { encoding: 'bytes', label: 'string', numberOfBytes: '32' },
+        t_bytes_storage: { encoding: 'bytes', label: 'bytes', numberOfBytes: '32' },
+    },
+};
+
+const toSlot = (value: ethers.BigNumberish) => ethers.utils.hexZeroPad(BigNumber.from(value).toHexString(), 32);
+
+/**
+ * @returns the values packed into one slot, the first value at the lower-order end
+ */
+function pack(values: Array<ethers.BigNumberish>, size: number): string {
+    return toSlot(values.reduce<BigNumber>((word, value, i) => word.add(BigNumber.from(value).mul(BigNumber.from(2).pow(i * size * 8))), BigNumber.from(0)));
+}
+
+const dataSlot = (slot: number) => BigNumber.from(ethers.utils.keccak256(toSlot(slot)));
+
+/**
+ * Storage of the contract of `LAYOUT`, slots that are not set are zero like on the chain
+ */
+function storageReader(): StorageReader {
+    const longString = ethers.utils.toUtf8Bytes(LONG_STRING);
+    const longData = ethers.utils.hexlify(ethers.utils.concat([longString, new Uint8Array(64 - longString.length)]));
+    const slots = new Map<string, string>([
+        [toSlot(0), toSlot(BigNumber.from(5).add(BigNumber.from(-2).toTwos(64).mul(BigNumber.from(2).pow(128))).add(BigNumber.from(2).pow(192)))],
+        [toSlot(1), pack([1, 2, 3], 2)],
+        [toSlot(2), toSlot(20)],
+        [toSlot(3), toSlot(21)],
+        [toSlot(4), toSlot(5)],
+        [toSlot(dataSlot(4)), pack([10, 11, 12, 13], 8)],
+        [toSlot(dataSlot(4).add(1)), pack([14], 8)],
+        // short values are stored left-aligned with twice their length in the lowest byte
+        [toSlot(5), ethers.utils.hexlify(ethers.utils.concat([ethers.utils.toUtf8Bytes('hello'), new Uint8Array(26), [10]]))],
+        // long values only store twice their length plus one, the data starts at the hash of the slot
+        [toSlot(6), toSlot(longString.length * 2 + 1)],
+        [toSlot(dataSlot(6)), ethers.utils.hexDataSlice(longData, 0, 32)],
+        [toSlot(dataSlot(6).add(1)), ethers.utils.hexDataSlice(longData, 32, 64)],
+        [toSlot(7), ethers.utils.hexlify(ethers.utils.concat(['0x1234', new Uint8Array(29), [4]]))],
+    ]);
+    return async (slot: string) => slots.get(slot) ?? ethers.constants.HashZero;
+}
+
+describe('Decode contract storage with its storage layout', () => {
+    let deployer: SignerWithAddress;
+    let storageSrc: SimpleStorage;
+    let provider: JsonRpcProvider;
+    let chainConfigs: TxContractInteractionOptions | undefined;
+
+    before(async () => {
+        const fh = new FileHandler(TestCLI.defaultTestConfigFile);
+        chainConfigs = fh.getJSON<TxContractInteractionOptions>();
+        if (!chainConfigs) {
+            logger.error(`No config available under ${TestCLI.defaultTestConfigFile}`);
+            process.exit(-1);
+        }
+        provider = new ethers.providers.JsonRpcProvider({ url: chainConfigs.srcChainRpcUrl, timeout: BigNumber.from(chainConfigs.connectionTimeout).toNumber() });
+        deployer = await SignerWithAddress.create(provider.getSigner());
+        logger.setSettings({ minLevel: 'info', name: 'storage-layout-test.ts' });
+    });
+
+    beforeEach(async () => {
+        const Storage = new SimpleStorage__factory(deployer);
+        storageSrc = await Storage.deploy();
+    });
+
+    it('Should load the same storage layout from the Hardhat artifact and from its build-info', async () => {
+        const layout = loadStorageLayout(SIMPLE_STORAGE_ARTIFACT);
+        expect(layout.storage.map((entry) => entry.label)).to.deep.equal(['a', 'b', 'owner', 'values', 'map']);
+
+        const dbg = new FileHandler(SIMPLE_STORAGE_ARTIFACT.replace(/\.json$/, '.dbg.json')).getJSON<{ buildInfo: string }>();
+        const buildInfo = `./artifacts/contracts/SimpleStorage.sol/${dbg?.buildInfo}`;
+        expect(loadStorageLayout(buildInfo, 'SimpleStorage')).to.deep.equal(layout);
+        expect(loadStorageLayout(buildInfo, 'contracts/SimpleStorage.sol:SimpleStorage')).to.deep.equal(layout);
+        return expect(() => loadStorageLayout(buildInfo, 'NoSuchContract')).to.throw(ConfigError);
+    });
+
+    it('Should dump the variables and the mapping entries of the known keys', async () => {
+        await (await storageSrc.setA(1337)).wait();
+        await (await storageSrc.setValue(7)).wait();
+        await (await storageSrc.insert(3, 33)).wait();
+        const decoder = new StorageLayoutDecoder(loadStorageLayout(SIMPLE_STORAGE_ARTIFACT), [deployer.address, '3', '4']);
+
+        const variables = await decoder.dump(createStorageReader(provider, storageSrc.address, 'latest'));
+
+        return expect(variables.map((variable) => [variable.label, variable.type, variable.value])).to.deep.equal([
+            ['a', 'uint256', '1337'],
+            ['b', 'uint256', '42'],
+            ['owner', 'address', ethers.constants.AddressZero],
+            [`values[${deployer.address}]`, 'uint256', '7'],
+            ['map[3]', 'uint256', '33'],
+        ]);
+    });
+
+    it('Should decode the changed variables of a diff with their previous and new values', async () => {
+        await (await storageSrc.setA(1337)).wait();
+        const blockNum = await provider.getBlockNumber();
+        await (await storageSrc.setA(42)).wait();
+        await (await storageSrc.setValue(7)).wait();
+        await (await storageSrc.insert(5, 55)).wait();
+        const diff = await new DiffHandler(provider).getDiffFromStorage(storageSrc.address, storageSrc.address, blockNum, 'latest');
+        const decoder = new StorageLayoutDecoder(loadStorageLayout(SIMPLE_STORAGE_ARTIFACT), [deployer.address]);
+
+        const { changes, unknownSlots } = await decoder.decodeDiff(diff, createStorageReader(provider, storageSrc.address, blockNum), createStorageReader(provider, storageSrc.address, 'latest'));
+
+        expect(changes.map((change) => [change.label, change.previousValue, change.newValue])).to.have.deep.members([
+            ['a', '1337', '42'],
+            [`values[${deployer.address}]`, '0', '7'],
+        ]);
+        // the key of map[5] is not known
+        expect(unknownSlots.length).to.equal(1);
+        return expect(unknownSlots[0]).to.equal(ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['uint256', 'uint256'], [5, 4])));
+    });
+});
+
+describe('Decode storage with a hand-written storage layout', () => {
+    const decoder = new StorageLayoutDecoder(LAYOUT);
+
+    it('Should locate and decode the variables of a packed slot', async () => {
+        const locations = decoder.locate(0);
+        expect(locations.map(({ label, offset }) => [label, offset])).to.deep.equal([['small', 0], ['negative', 16], ['flag', 24]]);
+        const values = await Promise.all(locations.map((location) => decoder.decode(location, storageReader())));
+        return expect(values).to.deep.equal(['5', '-2', true]);
+    });
+
+    it('Should locate and decode the elements of static arrays', async () => {
+        expect(decoder.locate(1).map(({ label, offset }) => [label, offset])).to.deep.equal([['packed[0]', 0], ['packed[1]', 2], ['packed[2]', 4]]);
+        expect(decoder.locate(3).map(({ label }) => label)).to.deep.equal(['wide[1]']);
+
+        const variables = await decoder.dump(storageReader());
+        return expect(variables.filter(({ label }) => label.startsWith('packed') || label.startsWith('wide')).map(({ label, value }) => [label, value])).to.deep.equal([
+            ['packed[0]', '1'], ['packed[1]', '2'], ['packed[2]', '3'], ['wide[0]', '20'], ['wide[1]', '21'],
+        ]);
+    });
+
+    it('Should locate and decode the length and the packed elements of a dynamic array', async () => {
+        expect(decoder.locate(4).map(({ label }) => label)).to.deep.equal(['dynamic.length']);
+        expect(decoder.locate(dataSlot(4)).map(({ label, offset }) => [label, offset])).to.deep.equal([['dynamic[0]', 0], ['dynamic[1]', 8], ['dynamic[2]', 16], ['dynamic[3]', 24]]);
+        expect(decoder.locate(dataSlot(4).add(1)).map(({ label }) => label)[0]).to.equal('dynamic[4]');
+
+        const dynamic = (await decoder.dump(storageReader())).filter(({ label }) => label.startsWith('dynamic')).map(({ label, value }) => [label, value]);
+        expect(dynamic).to.deep.equal([['dynamic.length', '5'], ['dynamic[0]', '10'], ['dynamic[1]', '11'], ['dynamic[2]', '12'], ['dynamic[3]', '13'], ['dynamic[4]', '14']]);
+        // only the first elements are decoded if there are more than maxElements
+        const firstElements = (await decoder.dump(storageReader(), 2)).filter(({ label }) => label.startsWith('dynamic[')).map(({ label }) => label);
+        return expect(firstElements).to.deep.equal(['dynamic[0]', 'dynamic[1]']);
+    });
+
+    it('Should decode short and long strings and bytes', async () => {
+        // every slot of the data of a long string belongs to it
+        expect(decoder.locate(dataSlot(6).add(1)).map(({ label, slot }) => [label, slot])).to.deep.equal([['longString', toSlot(6)]]);
+
+        const variables = await decoder.dump(storageReader());
+        return expect(variables.filter(({ type }) => type === 'string' || type === 'bytes').map(({ label, value }) => [label, value])).to.deep.equal([
+            ['shortString', 'hello'], ['longString', LONG_STRING], ['shortBytes', '0x1234'],
+        ]);
+    });
+});
@@ -15,7 +15,7 @@ import {
 import GetProof, { encodeAccount, formatProofNodes } from '../src/proofHandler/GetProof';
 import { Account, StorageProof } from '../src/proofHandler/Types';
 import { encodeBlockHeader } from '../src/chain-proxy';
-import { TxContractInteractionOptions } from '../src/cli/smart-sync';
+import { TxContractInteractionOptions } from '../src/cli/types';
 import { CSVManager } from '../evaluation/eval-utils';
 
 const KEY_VALUE_PAIR_PER_BATCH = 100;
@@ -27,6 +27,7 @@ export namespace TestCLI {
     export const defaultTestConfigFile = './test/config/test-cli-config.json';
     export const targetAccountEncryptedJsonPath = './test/config/encryptedAccount.json';
     export const targetAccountPassword = 'dev';
+    export const targetAccountPasswordFile = './test/config/password.txt';
     export const DEFAULT_PROVIDER = 'http://localhost:8545';
     export const MAX_VALUE = 1000000;
 }
@@ -56,7 +57,7 @@ export interface ChangeValueAtIndexResult {
 }
 
 export function buildCLICommand(command: string, args: string, tx: Boolean, logLevel?: TLogLevelName, options?: string, confFile?: string) {
-    return `${TestCLI.tsNodeExec} ${TestCLI.cliExec} ${command} ${args} -c ${confFile || TestCLI.defaultTestConfigFile} -l ${logLevel}${tx ? ` --target-account-encrypted-json ${TestCLI.targetAccountEncryptedJsonPath} --target-account-password ${TestCLI.targetAccountPassword}` : ''}${options ? ` ${options}` : ''}`;
+    return `${TestCLI.tsNodeExec} ${TestCLI.cliExec} ${command} ${args} -c ${confFile || TestCLI.defaultTestConfigFile} -l ${logLevel}${tx ? ` --target-account-encrypted-json ${TestCLI.targetAccountEncryptedJsonPath} --password-file ${TestCLI.targetAccountPasswordFile}` : ''}${options ? ` ${options}` : ''}`;
 }
 
 async function verifyStorageProof(storageProof: StorageProof, root) {
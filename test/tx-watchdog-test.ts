@@ -0,0 +1,184 @@
+import { expect } from 'chai';
+import { TransactionRequest, TransactionResponse } from '@ethersproject/abstract-provider';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { BigNumber, ethers, Signer } from 'ethers';
+import TxWatchdog, { TxReplacement } from '../src/utils/txWatchdog';
+import { FeeConfig } from '../src/utils/feeStrategy';
+import { StuckTxError } from '../src/errors';
+import { logger } from '../src/utils/logger';
+
+const STUCK_TIMEOUT = 30;
+
+function hashOf(request: TransactionRequest): string {
+    const fees = [request.gasPrice, request.maxFeePerGas, request.maxPriorityFeePerGas].map((fee) => (fee !== undefined ? BigNumber.from(fee).toString() : ''));
+    return ethers.utils.id(`${request.nonce}:${fees.join(':')}`);
+}
+
+/**
+ * Stand-in for the target chain and the signer of the watched txs. A sent tx is only mined if `mines` accepts it,
+ * and a tx with the same nonce and fees has the same hash like a signed tx.
+ */
+class StubChain {
+    readonly from = ethers.Wallet.createRandom().address;
+
+    /**
+     * requests of all txs that reached the node, the watched tx first
+     */
+    readonly sent: Array<TransactionRequest> = [];
+
+    private readonly known = new Set<string>();
+
+    private readonly mined = new Set<string>();
+
+    private minedNonce = 0;
+
+    /**
+     * whether the node rejects every tx that the signer sends, e.g. since it is underpriced
+     */
+    rejectsTxs = false;
+
+    private readonly mines: (request: TransactionRequest) => boolean;
+
+    readonly provider = {
+        pollingInterval: 5,
+        getTransactionReceipt: async (hash: string) => (this.mined.has(hash) ? { transactionHash: hash, blockNumber: 1, status: 1 } : null),
+        getTransactionCount: async () => this.minedNonce,
+        getTransaction: async (hash: string) => (this.known.has(hash) ? { hash } : null),
+    } as unknown as JsonRpcProvider;
+
+    readonly signer = {
+        sendTransaction: async (request: TransactionRequest) => {
+            if (this.rejectsTxs) throw new Error('replacement transaction underpriced');
+            return this.send(request);
+        },
+    } as unknown as Signer;
+
+    constructor(mines: (request: TransactionRequest) => boolean) {
+        this.mines = mines;
+    }
+
+    /**
+     * @param dropped whether the node forgets the tx right away
+     */
+    send(request: TransactionRequest, dropped = false): TransactionResponse {
+        const hash = hashOf(request);
+        this.sent.push(request);
+        if (!dropped) this.known.add(hash);
+        if (this.mines(request)) {
+            this.mined.add(hash);
+            this.minedNonce = BigNumber.from(request.nonce).toNumber() + 1;
+        }
+        return { ...request, from: this.from, hash } as TransactionResponse;
+    }
+
+    watchdog(fees: FeeConfig, replacements: Array<TxReplacement> = []): TxWatchdog {
+        return new TxWatchdog(this.signer, this.provider, STUCK_TIMEOUT, fees, (replacement) => replacements.push(replacement));
+    }
+}
+
+const gwei = (amount: string) => ethers.utils.parseUnits(amount, 'gwei');
+
+function legacyTx(gasPrice: string): TransactionRequest {
+    return {
+        to: ethers.constants.AddressZero, data: '0x', value: 0, gasLimit: 21000, nonce: 0, chainId: 1337, gasPrice: gwei(gasPrice),
+    };
+}
+
+describe('Tx watchdog', () => {
+    before(() => {
+        logger.setSettings({ minLevel: 'error', name: 'tx-watchdog-test.ts' });
+    });
+
+    it('should return the receipt of a tx that is mined in time without replacing it', async () => {
+        const chain = new StubChain(() => true);
+        const replacements: Array<TxReplacement> = [];
+        const receipt = await chain.watchdog({}, replacements).wait(chain.send(legacyTx('100')), 'test');
+        expect(receipt.transactionHash).to.equal(hashOf(chain.sent[0]));
+        expect(receipt.replacedTxs).to.deep.equal([]);
+        expect(chain.sent.length).to.equal(1);
+        return expect(replacements).to.deep.equal([]);
+    });
+
+    it('should replace a stuck tx by txs whose gas price is raised by feeBumpPercent until one is mined', async () => {
+        const chain = new StubChain((request) => BigNumber.from(request.gasPrice).gte(gwei('144')));
+        const replacements: Array<TxReplacement> = [];
+        const receipt = await chain.watchdog({ feeBumpPercent: 20 }, replacements).wait(chain.send(legacyTx('100')), 'test');
+
+        expect(chain.sent.map(({ gasPrice }) => ethers.utils.formatUnits(gasPrice ?? 0, 'gwei'))).to.deep.equal(['100.0', '120.0', '144.0']);
+        const [original, first, second] = chain.sent.map(hashOf);
+        expect(receipt.transactionHash).to.equal(second);
+        expect(receipt.replacedTxs).to.deep.equal([original, first]);
+        return expect(replacements).to.deep.equal([
+            {
+                description: 'test', nonce: 0, txHash: first, replacedTxs: [original],
+            },
+            {
+                description: 'test', nonce: 0, txHash: second, replacedTxs: [original, first],
+            },
+        ]);
+    });
+
+    it('should raise the max fee and the priority fee of a stuck EIP-1559 tx', async () => {
+        const chain = new StubChain((request) => BigNumber.from(request.maxFeePerGas).gt(gwei('100')));
+        const { gasPrice, ...request } = legacyTx('100');
+        await chain.watchdog({}).wait(chain.send({
+            ...request, type: 2, maxFeePerGas: gwei('100'), maxPriorityFeePerGas: gwei('2'),
+        }), 'test');
+
+        expect(chain.sent.length).to.equal(2);
+        expect(chain.sent[1].type).to.equal(2);
+        expect(ethers.utils.formatUnits(chain.sent[1].maxFeePerGas ?? 0, 'gwei')).to.equal('115.0');
+        return expect(ethers.utils.formatUnits(chain.sent[1].maxPriorityFeePerGas ?? 0, 'gwei')).to.equal('2.3');
+    });
+
+    it('should not raise the gas price above maxGasPrice and throw a StuckTxError once the tx stays stuck', async () => {
+        const chain = new StubChain(() => false);
+        let error: unknown;
+        try {
+            await chain.watchdog({ feeBumpPercent: 20, maxGasPrice: gwei('130') }).wait(chain.send(legacyTx('100')), 'test');
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(StuckTxError);
+        return expect(chain.sent.map(({ gasPrice }) => ethers.utils.formatUnits(gasPrice ?? 0, 'gwei'))).to.deep.equal(['100.0', '120.0', '130.0']);
+    });
+
+    it('should replace a stuck tx at most maxFeeBumps times', async () => {
+        const chain = new StubChain(() => false);
+        let error: unknown;
+        try {
+            await chain.watchdog({ maxFeeBumps: 2 }).wait(chain.send(legacyTx('100')), 'test');
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(StuckTxError);
+        return expect(chain.sent.map(({ gasPrice }) => ethers.utils.formatUnits(gasPrice ?? 0, 'gwei'))).to.deep.equal(['100.0', '115.0', '132.25']);
+    });
+
+    it('should send a dropped tx again without raising its fees', async () => {
+        // only the tx that is sent again is mined
+        const chain = new StubChain(() => chain.sent.length > 1);
+        const replacements: Array<TxReplacement> = [];
+        const tx = chain.send(legacyTx('100'), true);
+        const receipt = await chain.watchdog({}, replacements).wait(tx, 'test');
+
+        expect(chain.sent.length).to.equal(2);
+        expect(hashOf(chain.sent[1])).to.equal(tx.hash);
+        expect(receipt.transactionHash).to.equal(tx.hash);
+        expect(receipt.replacedTxs).to.deep.equal([]);
+        return expect(replacements).to.deep.equal([]);
+    });
+
+    it('should throw a StuckTxError if a dropped tx cannot be sent again', async () => {
+        const chain = new StubChain(() => false);
+        chain.rejectsTxs = true;
+        let error: unknown;
+        try {
+            await chain.watchdog({}).wait(chain.send(legacyTx('100'), true), 'test');
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(StuckTxError);
+        return expect(chain.sent.length).to.equal(1);
+    });
+});